@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { requireAdmin } from "@/lib/auth-utils";
+import { handleApiError } from "@/lib/api-errors";
+import { AiEndpoint, QUOTA_PLANS, QUOTA_WINDOWS } from "@/lib/ai-usage-utils";
+import {
+  listQuotaPlans,
+  resetQuotaPlan,
+  setQuotaPlan,
+} from "@/lib/ai-quota-utils";
+
+const quotaKeySchema = z.object({
+  plan: z.enum(QUOTA_PLANS),
+  endpoint: z.enum(AiEndpoint),
+});
+
+const quotaPlanSchema = quotaKeySchema
+  .extend({
+    limit: z.number().int().min(0).nullable(), // null = unlimited
+    window: z.enum(QUOTA_WINDOWS),
+    windowDays: z.number().int().min(1).max(365).nullable().default(null),
+    tokenCost: z.number().int().min(1),
+  })
+  .refine((rule) => rule.window !== "rolling" || rule.windowDays !== null, {
+    message: "Rolling windows need windowDays",
+    path: ["windowDays"],
+  });
+
+// GET /api/admin/ai-quotas
+export async function GET(request: NextRequest) {
+  try {
+    requireAdmin(request);
+
+    const quotas = await listQuotaPlans();
+
+    return NextResponse.json({ quotas });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+// PUT /api/admin/ai-quotas
+export async function PUT(request: NextRequest) {
+  try {
+    requireAdmin(request);
+    const { plan, endpoint, ...rule } = quotaPlanSchema.parse(
+      await request.json()
+    );
+
+    const quota = await setQuotaPlan(plan, endpoint, rule);
+
+    return NextResponse.json({ quota });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+// DELETE /api/admin/ai-quotas?plan=free&endpoint=meal-plan
+export async function DELETE(request: NextRequest) {
+  try {
+    requireAdmin(request);
+    const { searchParams } = new URL(request.url);
+    const { plan, endpoint } = quotaKeySchema.parse({
+      plan: searchParams.get("plan"),
+      endpoint: searchParams.get("endpoint"),
+    });
+
+    const quota = await resetQuotaPlan(plan, endpoint);
+
+    return NextResponse.json({ quota });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { requireAdmin } from "@/lib/auth-utils";
+import { handleApiError } from "@/lib/api-errors";
+import { AiEndpoint, QUOTA_WINDOWS } from "@/lib/ai-usage-utils";
+import {
+  deleteQuotaOverride,
+  getUserQuotaOverrides,
+  setQuotaOverride,
+} from "@/lib/ai-quota-utils";
+
+const endpointSchema = z.enum(AiEndpoint);
+
+// Fields left out keep the value from the user's plan
+const quotaOverrideSchema = z
+  .object({
+    endpoint: endpointSchema,
+    limit: z.number().int().min(0).nullable().optional(),
+    unlimited: z.boolean().optional(),
+    window: z.enum(QUOTA_WINDOWS).nullable().optional(),
+    windowDays: z.number().int().min(1).max(365).nullable().optional(),
+    tokenCost: z.number().int().min(1).nullable().optional(),
+    note: z.string().trim().max(500).nullable().optional(),
+  })
+  .refine((input) => input.window !== "rolling" || input.windowDays != null, {
+    message: "Rolling windows need windowDays",
+    path: ["windowDays"],
+  });
+
+// GET /api/admin/users/[userId]/ai-quotas
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ userId: string }> }
+) {
+  try {
+    requireAdmin(request);
+    const { userId } = await params;
+
+    const { overrides, quotas } = await getUserQuotaOverrides(userId);
+
+    return NextResponse.json({ overrides, quotas });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+// PUT /api/admin/users/[userId]/ai-quotas
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ userId: string }> }
+) {
+  try {
+    requireAdmin(request);
+    const { userId } = await params;
+    const { endpoint, ...input } = quotaOverrideSchema.parse(
+      await request.json()
+    );
+
+    const override = await setQuotaOverride(userId, endpoint, input);
+
+    return NextResponse.json({ override });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+// DELETE /api/admin/users/[userId]/ai-quotas?endpoint=meal-plan
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ userId: string }> }
+) {
+  try {
+    requireAdmin(request);
+    const { userId } = await params;
+    const { searchParams } = new URL(request.url);
+    const endpoint = endpointSchema.parse(searchParams.get("endpoint"));
+
+    await deleteQuotaOverride(userId, endpoint);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -1,16 +1,10 @@
-import { NextRequest, NextResponse } from "next/server";
+import { NextResponse } from "next/server";
 import { z } from "zod";
-import { requireAuth } from "@/lib/auth-utils";
-import { handleApiError } from "@/lib/api-errors";
 import { getOpenAIClient } from "@/lib/ai-utils";
 import { getRecentlyUsedRecipes } from "@/lib/recipe-search-utils";
 import { prisma } from "@/lib/prisma";
-import {
-  trackAiUsage,
-  AiEndpoint,
-  checkChatChefLimit,
-  MEAL_PLAN_TOKEN_COST,
-} from "@/lib/ai-usage-utils";
+import { AiEndpoint } from "@/lib/ai-usage-utils";
+import { withAiRoute } from "@/lib/ai-route-utils";
 
 // Request validation schema
 const chatChefRequestSchema = z.object({
@@ -21,6 +15,7 @@ const chatChefRequestSchema = z.object({
       mealPlan: z.any().optional(),
       preferences: z.any().optional(),
       recentlyCooked: z.array(z.string()).optional(),
+      recentlyPlanned: z.array(z.string()).optional(),
     })
     .optional(),
   messages: z.array(
@@ -41,6 +36,7 @@ function buildChefSystemPrompt(context?: {
   mealPlan?: any;
   preferences?: any;
   recentlyCooked?: string[];
+  recentlyPlanned?: string[];
 }): string {
   let prompt = `You are an enthusiastic, friendly, and highly skilled personal chef. You love food and helping people eat well! Your goal is to create personalized meal plans that feel like they were designed by a thoughtful friend who happens to be a professional chef.
 
@@ -99,6 +95,10 @@ When helping users:
     if (context.recentlyCooked && context.recentlyCooked.length > 0) {
       prompt += `\n\nUser has recently cooked: ${context.recentlyCooked.join(", ")}. Try to suggest diverse options that don't repeat these too closely unless asked.`;
     }
+
+    if (context.recentlyPlanned && context.recentlyPlanned.length > 0) {
+      prompt += `\nAlready planned but not cooked yet: ${context.recentlyPlanned.join(", ")}.`;
+    }
   }
 
   prompt += `\n\nProvide helpful, practical advice. Keep responses focused and actionable.`;
@@ -106,72 +106,40 @@ When helping users:
   return prompt;
 }
 
-export async function POST(request: NextRequest) {
-  try {
-    const { user } = await requireAuth(request);
-
-    const body = await request.json();
-    const payload = chatChefRequestSchema.parse(body);
-
-    let usedTokens = false;
-
-    // If tokens are provided, validate the amount (tokens are stored on device)
-    if (payload.tokensToUse !== undefined) {
-      // Validate token amount is correct
-      if (payload.tokensToUse !== MEAL_PLAN_TOKEN_COST) {
-        return NextResponse.json(
-          {
-            error: "Invalid token amount",
-            code: "INVALID_TOKEN_AMOUNT",
-            details: {
-              required: MEAL_PLAN_TOKEN_COST,
-              provided: payload.tokensToUse,
-            },
-          },
-          { status: 400 }
-        );
-      }
-
-      // Token balance is managed on device, so we trust the mobile app
-      usedTokens = true;
-    } else {
-      // No tokens provided - check normal limit
-      const limitCheck = await checkChatChefLimit(user.id);
-      if (!limitCheck.allowed) {
-        return NextResponse.json(
-          {
-            error: "Chat chef limit reached",
-            code: "LIMIT_EXCEEDED",
-            details: {
-              limit: limitCheck.limit,
-              used: limitCheck.used,
-              remaining: limitCheck.remaining,
-              resetsAt: limitCheck.resetsAt,
-              isLifetime: limitCheck.resetsAt === null,
-              tokenCost: MEAL_PLAN_TOKEN_COST,
-            },
-          },
-          { status: 429 }
-        );
-      }
-    }
-
+export const POST = withAiRoute(
+  {
+    endpoint: AiEndpoint.CHAT_CHEF,
+    schema: chatChefRequestSchema,
+    limitMessage: "Chat chef limit reached",
+  },
+  async ({ user, payload, usedTokens, tokensUsed }) => {
     // Build system prompt with context
     let context = payload.context || {};
     
-    // Fetch recently cooked meals for context
+    // Fetch recently cooked (and merely planned) meals for context
     try {
-      const recentIds = await getRecentlyUsedRecipes(user.id, 14); // Last 2 weeks
+      const [cookedIds, plannedIds] = await Promise.all([
+        getRecentlyUsedRecipes(user.id, 14, "cooked"), // Last 2 weeks
+        getRecentlyUsedRecipes(user.id, 14, "planned"),
+      ]);
+      const recentIds = [...new Set([...cookedIds, ...plannedIds])];
       if (recentIds.length > 0) {
         const recentRecipes = await prisma.recipe.findMany({
           where: { id: { in: recentIds } },
-          select: { title: true },
-          take: 10 // Limit to most recent 10 to save tokens
+          select: { id: true, title: true },
         });
-        
+        const titles = new Map(recentRecipes.map(r => [r.id, r.title]));
+        const titlesFor = (ids: string[]) =>
+          ids
+            .map(id => titles.get(id))
+            .filter((title): title is string => !!title)
+            .slice(0, 10); // Limit to most recent 10 to save tokens
+        const cooked = new Set(cookedIds);
+
         context = {
           ...context,
-          recentlyCooked: recentRecipes.map(r => r.title)
+          recentlyCooked: titlesFor(cookedIds),
+          recentlyPlanned: titlesFor(plannedIds.filter(id => !cooked.has(id))),
         };
       }
     } catch (error) {
@@ -205,18 +173,13 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Track usage
-    await trackAiUsage(user.id, AiEndpoint.CHAT_CHEF);
-
     return NextResponse.json({
       response,
       usedTokens,
-      tokensUsed: usedTokens ? MEAL_PLAN_TOKEN_COST : 0,
+      tokensUsed,
       message: usedTokens
         ? "Response generated successfully using tokens"
         : "Response generated successfully",
     });
-  } catch (error) {
-    return handleApiError(error);
   }
-}
+);
@@ -1,15 +1,8 @@
-import { NextRequest, NextResponse } from "next/server";
+import { NextResponse } from "next/server";
 import { z } from "zod";
-import { requireAuth } from "@/lib/auth-utils";
-import { handleApiError } from "@/lib/api-errors";
 import { getOpenAIClient } from "@/lib/ai-utils";
-import {
-  trackAiUsage,
-  AiEndpoint,
-  checkExplainInstructionLimit,
-  validateUserTokens,
-  MEAL_PLAN_TOKEN_COST,
-} from "@/lib/ai-usage-utils";
+import { AiEndpoint } from "@/lib/ai-usage-utils";
+import { withAiRoute } from "@/lib/ai-route-utils";
 
 // Request validation schema
 const explainInstructionRequestSchema = z.object({
@@ -19,73 +12,13 @@ const explainInstructionRequestSchema = z.object({
   tokensToUse: z.number().optional(),
 });
 
-export async function POST(request: NextRequest) {
-  try {
-    const { user } = await requireAuth(request);
-
-    const body = await request.json();
-    const payload = explainInstructionRequestSchema.parse(body);
-
-    let usedTokens = false;
-
-    // If tokens are provided, validate them instead of checking limit
-    if (payload.tokensToUse !== undefined) {
-      if (payload.tokensToUse !== MEAL_PLAN_TOKEN_COST) {
-        return NextResponse.json(
-          {
-            error: "Invalid token amount",
-            code: "INVALID_TOKEN_AMOUNT",
-            details: {
-              required: MEAL_PLAN_TOKEN_COST,
-              provided: payload.tokensToUse,
-            },
-          },
-          { status: 400 }
-        );
-      }
-
-      const tokenValidation = await validateUserTokens(
-        user.id,
-        MEAL_PLAN_TOKEN_COST
-      );
-
-      if (!tokenValidation.valid) {
-        return NextResponse.json(
-          {
-            error: tokenValidation.error || "Insufficient tokens",
-            code: "INSUFFICIENT_TOKENS",
-            details: {
-              required: MEAL_PLAN_TOKEN_COST,
-              currentBalance: tokenValidation.currentBalance,
-            },
-          },
-          { status: 402 }
-        );
-      }
-
-      usedTokens = true;
-    } else {
-      // No tokens provided - check normal limit
-      const limitCheck = await checkExplainInstructionLimit(user.id);
-      if (!limitCheck.allowed) {
-        return NextResponse.json(
-          {
-            error: "Instruction explanation limit reached",
-            code: "LIMIT_EXCEEDED",
-            details: {
-              limit: limitCheck.limit,
-              used: limitCheck.used,
-              remaining: limitCheck.remaining,
-              resetsAt: limitCheck.resetsAt,
-              isLifetime: limitCheck.resetsAt === null,
-              tokenCost: MEAL_PLAN_TOKEN_COST,
-            },
-          },
-          { status: 429 }
-        );
-      }
-    }
-
+export const POST = withAiRoute(
+  {
+    endpoint: AiEndpoint.EXPLAIN_INSTRUCTION,
+    schema: explainInstructionRequestSchema,
+    limitMessage: "Instruction explanation limit reached",
+  },
+  async ({ payload, usedTokens, tokensUsed }) => {
     const client = getOpenAIClient();
 
     const systemPrompt = `You are a patient cooking instructor explaining techniques to home cooks.
@@ -134,15 +67,10 @@ Explain this instruction in detail.`;
       );
     }
 
-    // Track usage
-    await trackAiUsage(user.id, AiEndpoint.EXPLAIN_INSTRUCTION);
-
     return NextResponse.json({
       explanation: explanation.trim(),
       usedTokens,
-      tokensUsed: usedTokens ? MEAL_PLAN_TOKEN_COST : 0,
+      tokensUsed,
     });
-  } catch (error) {
-    return handleApiError(error);
   }
-}
+);
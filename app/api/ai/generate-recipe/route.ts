@@ -1,15 +1,12 @@
-import { NextRequest, NextResponse } from "next/server";
+import { NextResponse } from "next/server";
 import { z } from "zod";
-import { requireAuth } from "@/lib/auth-utils";
-import { handleApiError } from "@/lib/api-errors";
 import { getOpenAIClient, generateHybridRecipe } from "@/lib/ai-utils";
-import { searchRecipeByQuery } from "@/lib/recipe-search-utils";
 import {
-  trackAiUsage,
-  AiEndpoint,
-  checkGenerateRecipeLimit,
-  MEAL_PLAN_TOKEN_COST,
-} from "@/lib/ai-usage-utils";
+  doesRecipeMeetDietaryRestrictions,
+  searchRecipeByQuery,
+} from "@/lib/recipe-search-utils";
+import { AiEndpoint } from "@/lib/ai-usage-utils";
+import { withAiRoute } from "@/lib/ai-route-utils";
 
 // Request validation schema
 const generateRecipeRequestSchema = z.object({
@@ -65,66 +62,21 @@ const generateRecipeRequestSchema = z.object({
   tokensToUse: z.number().optional(), // Optional: tokens to use to bypass limit
 });
 
-export async function POST(request: NextRequest) {
-  try {
-    // Verify authentication
-    const { user } = await requireAuth(request);
-
-    const body = await request.json();
-    const payload = generateRecipeRequestSchema.parse(body);
-
-    // Validate that either prompt or existingRecipe is provided
-    if (!payload.prompt && !payload.existingRecipe) {
-      return NextResponse.json(
-        { error: "Either prompt or existingRecipe must be provided" },
-        { status: 400 }
-      );
-    }
-
-    let usedTokens = false;
-
-    // If tokens are provided, validate the amount (tokens are stored on device)
-    if (payload.tokensToUse !== undefined) {
-      // Validate token amount is correct
-      if (payload.tokensToUse !== MEAL_PLAN_TOKEN_COST) {
-        return NextResponse.json(
-          {
-            error: "Invalid token amount",
-            code: "INVALID_TOKEN_AMOUNT",
-            details: {
-              required: MEAL_PLAN_TOKEN_COST,
-              provided: payload.tokensToUse,
-            },
-          },
-          { status: 400 }
-        );
-      }
-
-      // Token balance is managed on device, so we trust the mobile app
-      // Just verify they're sending the correct amount
-      usedTokens = true;
-    } else {
-      // No tokens provided - check normal limit
-      const limitCheck = await checkGenerateRecipeLimit(user.id);
-      if (!limitCheck.allowed) {
-        return NextResponse.json(
-          {
-            error: "Recipe generation limit reached",
-            code: "LIMIT_EXCEEDED",
-            details: {
-              limit: limitCheck.limit,
-              used: limitCheck.used,
-              remaining: limitCheck.remaining,
-              resetsAt: limitCheck.resetsAt,
-              isLifetime: limitCheck.resetsAt === null,
-              tokenCost: MEAL_PLAN_TOKEN_COST,
-            },
-          },
-          { status: 429 }
-        );
-      }
-    }
-
+export const POST = withAiRoute(
+  {
+    endpoint: AiEndpoint.GENERATE_RECIPE,
+    schema: generateRecipeRequestSchema,
+    limitMessage: "Recipe generation limit reached",
+    // Either prompt or existingRecipe is required
+    beforeCharge: (payload) =>
+      !payload.prompt && !payload.existingRecipe
+        ? NextResponse.json(
+            { error: "Either prompt or existingRecipe must be provided" },
+            { status: 400 }
+          )
+        : null,
+  },
+  async ({ payload, usedTokens, tokensUsed }) => {
     const client = getOpenAIClient();
 
     let systemPrompt: string;
@@ -187,14 +139,13 @@ Return a JSON recipe with the following structure:
           ) {
             return false;
           }
-          if (prefs.allergies) {
-            const ingredients = recipe.ingredients as Array<{ name: string }>;
-            const hasAllergen = ingredients?.some((ing) =>
-              prefs.allergies?.some((allergen) =>
-                ing.name.toLowerCase().includes(allergen.toLowerCase())
-              )
-            );
-            if (hasAllergen) return false;
+          if (
+            prefs.allergies &&
+            !doesRecipeMeetDietaryRestrictions(recipe, {
+              allergies: prefs.allergies,
+            })
+          ) {
+            return false;
           }
           return true;
         });
@@ -207,9 +158,6 @@ Return a JSON recipe with the following structure:
             } (similarity: ${filtered[0].similarity.toFixed(2)})`
           );
 
-          // Track usage
-          await trackAiUsage(user.id, AiEndpoint.GENERATE_RECIPE);
-
           // Return recipe fields at root level for mobile app compatibility
           const dbRecipe = filtered[0];
 
@@ -234,7 +182,7 @@ Return a JSON recipe with the following structure:
             // Metadata
             recipeSource: "database",
             usedTokens,
-            tokensUsed: usedTokens ? MEAL_PLAN_TOKEN_COST : 0,
+            tokensUsed,
             message: "Recipe found in database",
           });
         }
@@ -367,9 +315,6 @@ Make sure the recipe is practical, delicious, and matches all the user's prefere
       recipe.servings = payload.preferences.householdSize;
     }
 
-    // Track usage
-    await trackAiUsage(user.id, AiEndpoint.GENERATE_RECIPE);
-
     // Return recipe fields at root level for mobile app compatibility
     return NextResponse.json({
       title: recipe.title,
@@ -385,12 +330,10 @@ Make sure the recipe is practical, delicious, and matches all the user's prefere
       // Metadata
       recipeSource: "ai",
       usedTokens,
-      tokensUsed: usedTokens ? MEAL_PLAN_TOKEN_COST : 0,
+      tokensUsed,
       message: usedTokens
         ? "Recipe generated with AI using tokens"
         : "Recipe generated with AI",
     });
-  } catch (error) {
-    return handleApiError(error);
   }
-}
+);
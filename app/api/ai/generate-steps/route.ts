@@ -1,16 +1,10 @@
-import { NextRequest, NextResponse } from "next/server";
+import { NextResponse } from "next/server";
 import { z } from "zod";
-import { requireAuth } from "@/lib/auth-utils";
-import { handleApiError } from "@/lib/api-errors";
 import { getOpenAIClient } from "@/lib/ai-utils";
 import { prisma } from "@/lib/prisma";
-import {
-  trackAiUsage,
-  AiEndpoint,
-  checkGenerateStepsLimit,
-  validateUserTokens,
-  MEAL_PLAN_TOKEN_COST,
-} from "@/lib/ai-usage-utils";
+import { updateRecipeWithRevision } from "@/lib/recipe-revision-utils";
+import { AiEndpoint } from "@/lib/ai-usage-utils";
+import { withAiRoute } from "@/lib/ai-route-utils";
 
 // Request validation schema
 const generateStepsRequestSchema = z.object({
@@ -37,81 +31,21 @@ const generateStepsRequestSchema = z.object({
   tokensToUse: z.number().optional(),
 });
 
-export async function POST(request: NextRequest) {
-  try {
-    const { user } = await requireAuth(request);
-
-    const body = await request.json();
-    const payload = generateStepsRequestSchema.parse(body);
-
-    // Validate that either recipeId or recipe is provided
-    if (!payload.recipeId && !payload.recipe) {
-      return NextResponse.json(
-        { error: "Either recipeId or recipe must be provided" },
-        { status: 400 }
-      );
-    }
-
-    let usedTokens = false;
-
-    // If tokens are provided, validate them instead of checking limit
-    if (payload.tokensToUse !== undefined) {
-      if (payload.tokensToUse !== MEAL_PLAN_TOKEN_COST) {
-        return NextResponse.json(
-          {
-            error: "Invalid token amount",
-            code: "INVALID_TOKEN_AMOUNT",
-            details: {
-              required: MEAL_PLAN_TOKEN_COST,
-              provided: payload.tokensToUse,
-            },
-          },
-          { status: 400 }
-        );
-      }
-
-      const tokenValidation = await validateUserTokens(
-        user.id,
-        MEAL_PLAN_TOKEN_COST
-      );
-
-      if (!tokenValidation.valid) {
-        return NextResponse.json(
-          {
-            error: tokenValidation.error || "Insufficient tokens",
-            code: "INSUFFICIENT_TOKENS",
-            details: {
-              required: MEAL_PLAN_TOKEN_COST,
-              currentBalance: tokenValidation.currentBalance,
-            },
-          },
-          { status: 402 }
-        );
-      }
-
-      usedTokens = true;
-    } else {
-      // No tokens provided - check normal limit
-      const limitCheck = await checkGenerateStepsLimit(user.id);
-      if (!limitCheck.allowed) {
-        return NextResponse.json(
-          {
-            error: "Step generation limit reached",
-            code: "LIMIT_EXCEEDED",
-            details: {
-              limit: limitCheck.limit,
-              used: limitCheck.used,
-              remaining: limitCheck.remaining,
-              resetsAt: limitCheck.resetsAt,
-              isLifetime: limitCheck.resetsAt === null,
-              tokenCost: MEAL_PLAN_TOKEN_COST,
-            },
-          },
-          { status: 429 }
-        );
-      }
-    }
-
+export const POST = withAiRoute(
+  {
+    endpoint: AiEndpoint.GENERATE_STEPS,
+    schema: generateStepsRequestSchema,
+    limitMessage: "Step generation limit reached",
+    // Either recipeId or recipe is required
+    beforeCharge: (payload) =>
+      !payload.recipeId && !payload.recipe
+        ? NextResponse.json(
+            { error: "Either recipeId or recipe must be provided" },
+            { status: 400 }
+          )
+        : null,
+  },
+  async ({ user, payload, usedTokens, tokensUsed }) => {
     let recipeData;
 
     // Fetch recipe from database if ID is provided
@@ -252,25 +186,27 @@ Please generate clear, step-by-step cooking instructions.`;
     // If recipeId was provided, automatically save the steps to the database
     const recipeId = payload.recipeId;
     if (recipeId) {
-      await prisma.recipe.update({
+      // Re-read so an edit made while the AI ran isn't mistaken for a conflict
+      const current = await prisma.recipe.findUniqueOrThrow({
         where: { id: recipeId },
-        data: {
+      });
+      await updateRecipeWithRevision(
+        current,
+        {
           // eslint-disable-next-line @typescript-eslint/no-explicit-any
           steps: result.steps as any,
         },
-      });
+        { editedById: user.id }
+      );
       console.log(`💾 Saved steps to recipe ${recipeId} in database`);
     }
 
-    // Track usage
-    await trackAiUsage(user.id, AiEndpoint.GENERATE_STEPS);
-
     return NextResponse.json({
       steps: result.steps,
       recipeId: recipeId || null,
       saved: !!recipeId,
       usedTokens,
-      tokensUsed: usedTokens ? MEAL_PLAN_TOKEN_COST : 0,
+      tokensUsed,
       message: recipeId
         ? `Cooking steps generated and saved to recipe${
             usedTokens ? " using tokens" : ""
@@ -279,7 +215,5 @@ Please generate clear, step-by-step cooking instructions.`;
             usedTokens ? " using tokens" : ""
           }`,
     });
-  } catch (error) {
-    return handleApiError(error);
   }
-}
+);
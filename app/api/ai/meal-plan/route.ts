@@ -1,19 +1,19 @@
-import { NextRequest, NextResponse } from "next/server";
+import { NextResponse } from "next/server";
 import { z } from "zod";
-import { requireAuth } from "@/lib/auth-utils";
-import { handleApiError } from "@/lib/api-errors";
 import { generateHybridMealPlan, type MealPlanRequest } from "@/lib/ai-utils";
 import { prisma } from "@/lib/prisma";
+import { normalizeIngredients } from "@/lib/unit-utils";
+import { getRecipeNutritionFields } from "@/lib/nutrition-utils";
+import { getRecipeClassificationFields } from "@/lib/allergen-utils";
 import { Prisma } from "@prisma/client";
 import { v4 as uuidv4 } from "uuid";
-import { generateRecipeEmbedding } from "@/lib/embedding-utils";
-import { recordRecipeUsage } from "@/lib/recipe-search-utils";
 import {
-  checkMealPlanLimit,
-  trackAiUsage,
-  AiEndpoint,
-  MEAL_PLAN_TOKEN_COST,
-} from "@/lib/ai-usage-utils";
+  generateRecipeEmbedding,
+  RECIPE_EMBEDDING_VERSION,
+} from "@/lib/embedding-utils";
+import { recordRecipeUsage } from "@/lib/recipe-search-utils";
+import { AiEndpoint } from "@/lib/ai-usage-utils";
+import { withAiRoute } from "@/lib/ai-route-utils";
 
 /**
  * Sanitize meal plan data to convert null values to undefined
@@ -56,6 +56,12 @@ const mealPlanRequestSchema = z.object({
     // New soft preference fields (passed to AI, not used for hard filtering)
     budget: z.string().optional(),
     nutritionGoals: z.array(z.string()).optional(),
+    nutritionTargets: z
+      .object({
+        dailyCalories: z.number().positive().optional(),
+        dailyProtein: z.number().positive().optional(),
+      })
+      .optional(),
     mealPrepStyle: z.string().optional(),
     kitchenEquipment: z.array(z.string()).optional(),
     favoriteMeals: z.array(z.string()).optional(),
@@ -74,60 +80,13 @@ const mealPlanRequestSchema = z.object({
   tokensToUse: z.number().optional(), // Optional: tokens to use to bypass limit
 });
 
-export async function POST(request: NextRequest) {
-  try {
-    const { user } = await requireAuth(request);
-
-    const body = await request.json();
-    const payload = mealPlanRequestSchema.parse(body);
-
-    let usedTokens = false;
-
-    // If tokens are provided, validate the amount (tokens are stored on device)
-    if (payload.tokensToUse !== undefined) {
-      // Validate token amount is correct
-      if (payload.tokensToUse !== MEAL_PLAN_TOKEN_COST) {
-        return NextResponse.json(
-          {
-            error: "Invalid token amount",
-            code: "INVALID_TOKEN_AMOUNT",
-            details: {
-              required: MEAL_PLAN_TOKEN_COST,
-              provided: payload.tokensToUse,
-            },
-          },
-          { status: 400 }
-        );
-      }
-
-      // Token balance is managed on device, so we trust the mobile app
-      // Just verify they're sending the correct amount
-      usedTokens = true;
-      console.log(
-        `User ${user.id} using ${MEAL_PLAN_TOKEN_COST} tokens for meal plan (device-managed)`
-      );
-    } else {
-      // No tokens provided - check normal limit
-      const limitCheck = await checkMealPlanLimit(user.id);
-      if (!limitCheck.allowed) {
-        return NextResponse.json(
-          {
-            error: "Meal plan generation limit reached",
-            code: "LIMIT_EXCEEDED",
-            details: {
-              limit: limitCheck.limit,
-              used: limitCheck.used,
-              remaining: limitCheck.remaining,
-              resetsAt: limitCheck.resetsAt,
-              isLifetime: limitCheck.resetsAt === null,
-              tokenCost: MEAL_PLAN_TOKEN_COST, // Inform user about token option
-            },
-          },
-          { status: 429 }
-        );
-      }
-    }
-
+export const POST = withAiRoute(
+  {
+    endpoint: AiEndpoint.MEAL_PLAN,
+    schema: mealPlanRequestSchema,
+    limitMessage: "Meal plan generation limit reached",
+  },
+  async ({ user, payload, usedTokens, tokensUsed }) => {
     // Generate meal plan using hybrid approach (database + AI)
     const hybridResult = await generateHybridMealPlan(payload, user.id);
     const mealPlanData = hybridResult.mealPlan;
@@ -211,14 +170,23 @@ export async function POST(request: NextRequest) {
                       ingredients:
                         meal.ingredients !== undefined &&
                         meal.ingredients !== null
-                          ? (meal.ingredients as Prisma.InputJsonValue)
+                          ? (normalizeIngredients(
+                              meal.ingredients
+                            ) as Prisma.InputJsonValue)
                           : ([] as Prisma.InputJsonValue),
                       steps:
                         meal.steps !== undefined && meal.steps !== null
                           ? (meal.steps as Prisma.InputJsonValue)
                           : Prisma.JsonNull,
                       source: "ai",
-                      embeddingVersion: embedding ? 1 : null,
+                      ...getRecipeNutritionFields(
+                        meal.ingredients,
+                        meal.servings
+                      ),
+                      ...getRecipeClassificationFields(meal.ingredients),
+                      embeddingVersion: embedding
+                        ? RECIPE_EMBEDDING_VERSION
+                        : null,
                     },
                   });
 
@@ -256,9 +224,6 @@ export async function POST(request: NextRequest) {
     // Record recipe usage for tracking
     await recordRecipeUsage(user.id, recipeIdsUsed);
 
-    // Track AI endpoint usage
-    await trackAiUsage(user.id, AiEndpoint.MEAL_PLAN);
-
     // Sanitize meal plan data to remove null values (convert to undefined)
     const sanitizedMealPlan = sanitizeMealPlan(mealPlanData);
 
@@ -268,6 +233,7 @@ export async function POST(request: NextRequest) {
       recipesFromDatabase: hybridResult.recipesFromDatabase,
       recipesGenerated: hybridResult.recipesGenerated,
       costSavingsEstimate: hybridResult.costSavingsEstimate,
+      nutrition: hybridResult.nutrition,
       recipes: recipes.map((r) => ({
         id: r.id,
         title: r.title,
@@ -276,13 +242,11 @@ export async function POST(request: NextRequest) {
         servings: r.servings,
         totalMinutes: r.totalMinutes,
       })),
-      usedTokens, // Indicates if tokens were used (mobile app should deduct)
-      tokensUsed: usedTokens ? MEAL_PLAN_TOKEN_COST : 0, // Amount to deduct
+      usedTokens, // Indicates if tokens were charged to the server balance
+      tokensUsed, // Amount charged
       message: usedTokens
         ? "Meal plan generated successfully using tokens"
         : "Meal plan generated successfully",
     });
-  } catch (error) {
-    return handleApiError(error);
   }
-}
+);
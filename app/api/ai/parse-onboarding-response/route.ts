@@ -1,14 +1,8 @@
-import { NextRequest, NextResponse } from "next/server";
+import { NextResponse } from "next/server";
 import { z } from "zod";
-import { requireAuth } from "@/lib/auth-utils";
-import { handleApiError } from "@/lib/api-errors";
 import { getOpenAIClient } from "@/lib/ai-utils";
-import {
-  trackAiUsage,
-  AiEndpoint,
-  checkParseOnboardingResponseLimit,
-  MEAL_PLAN_TOKEN_COST,
-} from "@/lib/ai-usage-utils";
+import { AiEndpoint } from "@/lib/ai-usage-utils";
+import { withAiRoute } from "@/lib/ai-route-utils";
 
 // Onboarding phase enum
 const onboardingPhaseSchema = z.enum([
@@ -339,125 +333,81 @@ function calculateConfidence(
   return "low";
 }
 
-export async function POST(request: NextRequest) {
-  try {
-    const { user } = await requireAuth(request);
-
-    const body = await request.json();
-    const payload = parseOnboardingRequestSchema.parse(body);
-
-    let usedTokens = false;
-
-    // If tokens are provided, validate the amount
-    if (payload.tokensToUse !== undefined) {
-      if (payload.tokensToUse !== MEAL_PLAN_TOKEN_COST) {
-        return NextResponse.json(
+export const POST = withAiRoute(
+  {
+    endpoint: AiEndpoint.PARSE_ONBOARDING_RESPONSE,
+    schema: parseOnboardingRequestSchema,
+    limitMessage: "Parse onboarding response limit reached",
+  },
+  async ({ payload, skipUsage }) => {
+    try {
+      // Build parsing prompt
+      const prompt = buildParsePrompt(
+        payload.userMessage,
+        payload.currentPhase,
+        payload.conversationContext
+      );
+
+      // Call OpenAI for parsing
+      const client = getOpenAIClient();
+      const completion = await client.chat.completions.create({
+        model: "gpt-4o-mini",
+        messages: [
           {
-            error: "Invalid token amount",
-            code: "INVALID_TOKEN_AMOUNT",
-            details: {
-              required: MEAL_PLAN_TOKEN_COST,
-              provided: payload.tokensToUse,
-            },
+            role: "system",
+            content: `You are a data extraction assistant. Extract structured data from user messages during onboarding.
+Return ONLY valid JSON matching the requested schema. No explanations, no markdown code blocks, just raw JSON.
+Be precise and conservative - if you're not confident about extracting data, return null for that field.`,
           },
-          { status: 400 }
-        );
-      }
-      usedTokens = true;
-    } else {
-      // Check normal limit
-      const limitCheck = await checkParseOnboardingResponseLimit(user.id);
-      if (!limitCheck.allowed) {
-        return NextResponse.json(
           {
-            error: "Parse onboarding response limit reached",
-            code: "LIMIT_EXCEEDED",
-            details: {
-              limit: limitCheck.limit,
-              used: limitCheck.used,
-              remaining: limitCheck.remaining,
-              resetsAt: limitCheck.resetsAt,
-              isLifetime: limitCheck.resetsAt === null,
-              tokenCost: MEAL_PLAN_TOKEN_COST,
-            },
+            role: "user",
+            content: prompt,
           },
-          { status: 429 }
-        );
+        ],
+        response_format: { type: "json_object" },
+        temperature: 0.1, // Very low for consistent extraction
+        max_tokens: 500,
+      });
+
+      const content = completion.choices[0]?.message?.content;
+      if (!content) {
+        // Return empty result on failure (frontend has fallback)
+        skipUsage();
+        return NextResponse.json({
+          parsed: {},
+          confidence: "low",
+        });
       }
-    }
 
-    // Build parsing prompt
-    const prompt = buildParsePrompt(
-      payload.userMessage,
-      payload.currentPhase,
-      payload.conversationContext
-    );
-
-    // Call OpenAI for parsing
-    const client = getOpenAIClient();
-    const completion = await client.chat.completions.create({
-      model: "gpt-4o-mini",
-      messages: [
-        {
-          role: "system",
-          content: `You are a data extraction assistant. Extract structured data from user messages during onboarding.
-Return ONLY valid JSON matching the requested schema. No explanations, no markdown code blocks, just raw JSON.
-Be precise and conservative - if you're not confident about extracting data, return null for that field.`,
-        },
-        {
-          role: "user",
-          content: prompt,
-        },
-      ],
-      response_format: { type: "json_object" },
-      temperature: 0.1, // Very low for consistent extraction
-      max_tokens: 500,
-    });
-
-    const content = completion.choices[0]?.message?.content;
-    if (!content) {
-      // Return empty result on failure (frontend has fallback)
+      // Parse and validate
+      let rawParsed: any;
+      try {
+        rawParsed = JSON.parse(content);
+      } catch (error) {
+        console.error("[ParseOnboarding] Failed to parse JSON:", error);
+        skipUsage();
+        return NextResponse.json({
+          parsed: {},
+          confidence: "low",
+        });
+      }
+
+      // Validate and normalize
+      const parsed = validateAndNormalize(rawParsed, payload.currentPhase);
+      const confidence = calculateConfidence(parsed, payload.currentPhase);
+
       return NextResponse.json({
-        parsed: {},
-        confidence: "low",
+        parsed,
+        confidence,
       });
-    }
-
-    // Parse and validate
-    let rawParsed: any;
-    try {
-      rawParsed = JSON.parse(content);
     } catch (error) {
-      console.error("[ParseOnboarding] Failed to parse JSON:", error);
+      // Anything past validation falls back to an empty result
+      console.error("[ParseOnboarding] Error:", error);
+      skipUsage();
       return NextResponse.json({
         parsed: {},
         confidence: "low",
       });
     }
-
-    // Validate and normalize
-    const parsed = validateAndNormalize(rawParsed, payload.currentPhase);
-    const confidence = calculateConfidence(parsed, payload.currentPhase);
-
-    // Track usage
-    await trackAiUsage(user.id, AiEndpoint.PARSE_ONBOARDING_RESPONSE);
-
-    return NextResponse.json({
-      parsed,
-      confidence,
-    });
-  } catch (error) {
-    // For validation errors, return standard error
-    if (error instanceof z.ZodError) {
-      return handleApiError(error);
-    }
-
-    // For all other errors, return empty result (graceful fallback)
-    console.error("[ParseOnboarding] Error:", error);
-    return NextResponse.json({
-      parsed: {},
-      confidence: "low",
-    });
   }
-}
-
+);
@@ -1,15 +1,8 @@
-import { NextRequest, NextResponse } from "next/server";
+import { NextResponse } from "next/server";
 import { z } from "zod";
-import { requireAuth } from "@/lib/auth-utils";
-import { handleApiError } from "@/lib/api-errors";
 import { getOpenAIClient } from "@/lib/ai-utils";
-import {
-  trackAiUsage,
-  AiEndpoint,
-  checkParsePantryLimit,
-  validateUserTokens,
-  MEAL_PLAN_TOKEN_COST,
-} from "@/lib/ai-usage-utils";
+import { AiEndpoint } from "@/lib/ai-usage-utils";
+import { withAiRoute } from "@/lib/ai-route-utils";
 
 // Request validation schema
 const parsePantryRequestSchema = z.object({
@@ -17,78 +10,18 @@ const parsePantryRequestSchema = z.object({
   tokensToUse: z.number().optional(),
 });
 
-export async function POST(request: NextRequest) {
-  try {
-    const { user } = await requireAuth(request);
-
-    const body = await request.json();
-    const payload = parsePantryRequestSchema.parse(body);
-
-    // Handle empty/invalid transcripts
-    if (!payload.transcript || payload.transcript.trim().length < 3) {
-      return NextResponse.json({ items: [] });
-    }
-
-    let usedTokens = false;
-
-    // If tokens are provided, validate them instead of checking limit
-    if (payload.tokensToUse !== undefined) {
-      if (payload.tokensToUse !== MEAL_PLAN_TOKEN_COST) {
-        return NextResponse.json(
-          {
-            error: "Invalid token amount",
-            code: "INVALID_TOKEN_AMOUNT",
-            details: {
-              required: MEAL_PLAN_TOKEN_COST,
-              provided: payload.tokensToUse,
-            },
-          },
-          { status: 400 }
-        );
-      }
-
-      const tokenValidation = await validateUserTokens(
-        user.id,
-        MEAL_PLAN_TOKEN_COST
-      );
-
-      if (!tokenValidation.valid) {
-        return NextResponse.json(
-          {
-            error: tokenValidation.error || "Insufficient tokens",
-            code: "INSUFFICIENT_TOKENS",
-            details: {
-              required: MEAL_PLAN_TOKEN_COST,
-              currentBalance: tokenValidation.currentBalance,
-            },
-          },
-          { status: 402 }
-        );
-      }
-
-      usedTokens = true;
-    } else {
-      // No tokens provided - check normal limit
-      const limitCheck = await checkParsePantryLimit(user.id);
-      if (!limitCheck.allowed) {
-        return NextResponse.json(
-          {
-            error: "Pantry parsing limit reached",
-            code: "LIMIT_EXCEEDED",
-            details: {
-              limit: limitCheck.limit,
-              used: limitCheck.used,
-              remaining: limitCheck.remaining,
-              resetsAt: limitCheck.resetsAt,
-              isLifetime: limitCheck.resetsAt === null,
-              tokenCost: MEAL_PLAN_TOKEN_COST,
-            },
-          },
-          { status: 429 }
-        );
-      }
-    }
-
+export const POST = withAiRoute(
+  {
+    endpoint: AiEndpoint.PARSE_PANTRY,
+    schema: parsePantryRequestSchema,
+    limitMessage: "Pantry parsing limit reached",
+    // Empty/invalid transcripts have nothing to parse
+    beforeCharge: (payload) =>
+      !payload.transcript || payload.transcript.trim().length < 3
+        ? NextResponse.json({ items: [] })
+        : null,
+  },
+  async ({ payload, usedTokens, tokensUsed, skipUsage }) => {
     const client = getOpenAIClient();
 
     const systemPrompt = `You are a grocery list parser. Extract items from natural language text.
@@ -141,6 +74,7 @@ Example output:
     } catch (error) {
       console.error("Failed to parse AI response:", content);
       // Return empty array rather than error
+      skipUsage();
       return NextResponse.json({ items: [] });
     }
 
@@ -161,15 +95,10 @@ Example output:
       }))
       .filter((item: any) => item.quantity > 0);
 
-    // Track usage
-    await trackAiUsage(user.id, AiEndpoint.PARSE_PANTRY);
-
     return NextResponse.json({
       items: normalizedItems,
       usedTokens,
-      tokensUsed: usedTokens ? MEAL_PLAN_TOKEN_COST : 0,
+      tokensUsed,
     });
-  } catch (error) {
-    return handleApiError(error);
   }
-}
+);
@@ -1,73 +1,28 @@
-import { NextRequest, NextResponse } from "next/server";
+import { NextResponse } from "next/server";
 import { z } from "zod";
-import { requireAuth } from "@/lib/auth-utils";
-import { handleApiError } from "@/lib/api-errors";
 import { parseRecipeFromUrl } from "@/lib/ai-utils";
 import { prisma } from "@/lib/prisma";
+import { normalizeIngredients } from "@/lib/unit-utils";
+import { getRecipeNutritionFields } from "@/lib/nutrition-utils";
+import { getRecipeClassificationFields } from "@/lib/allergen-utils";
 import { v4 as uuidv4 } from "uuid";
-import {
-  trackAiUsage,
-  AiEndpoint,
-  checkParseRecipeLimit,
-  MEAL_PLAN_TOKEN_COST,
-} from "@/lib/ai-usage-utils";
+import { AiEndpoint } from "@/lib/ai-usage-utils";
+import { withAiRoute } from "@/lib/ai-route-utils";
 
 const parseRecipeRequestSchema = z.object({
   url: z.string().url("Invalid URL format"),
   tokensToUse: z.number().optional(),
 });
 
-export async function POST(request: NextRequest) {
-  try {
-    const { user } = await requireAuth(request);
-
-    const body = await request.json();
-    const payload = parseRecipeRequestSchema.parse(body);
+export const POST = withAiRoute(
+  {
+    endpoint: AiEndpoint.PARSE_RECIPE,
+    schema: parseRecipeRequestSchema,
+    limitMessage: "Recipe parsing limit reached",
+  },
+  async ({ user, payload, usedTokens, tokensUsed }) => {
     const { url } = payload;
 
-    let usedTokens = false;
-
-    // If tokens are provided, validate the amount (tokens are stored on device)
-    if (payload.tokensToUse !== undefined) {
-      if (payload.tokensToUse !== MEAL_PLAN_TOKEN_COST) {
-        return NextResponse.json(
-          {
-            error: "Invalid token amount",
-            code: "INVALID_TOKEN_AMOUNT",
-            details: {
-              required: MEAL_PLAN_TOKEN_COST,
-              provided: payload.tokensToUse,
-            },
-          },
-          { status: 400 }
-        );
-      }
-
-      // Token balance is managed on device, so we trust the mobile app
-      // Just verify they're sending the correct amount
-      usedTokens = true;
-    } else {
-      // No tokens provided - check normal limit
-      const limitCheck = await checkParseRecipeLimit(user.id);
-      if (!limitCheck.allowed) {
-        return NextResponse.json(
-          {
-            error: "Recipe parsing limit reached",
-            code: "LIMIT_EXCEEDED",
-            details: {
-              limit: limitCheck.limit,
-              used: limitCheck.used,
-              remaining: limitCheck.remaining,
-              resetsAt: limitCheck.resetsAt,
-              isLifetime: limitCheck.resetsAt === null,
-              tokenCost: MEAL_PLAN_TOKEN_COST,
-            },
-          },
-          { status: 429 }
-        );
-      }
-    }
-
     // Parse recipe from URL using AI
     const parsedRecipeData = await parseRecipeFromUrl(url);
 
@@ -84,15 +39,17 @@ export async function POST(request: NextRequest) {
         totalMinutes: parsedRecipeData.totalMinutes || null,
         cuisine: parsedRecipeData.cuisine || "Other",
         tags: parsedRecipeData.tags || null,
-        ingredients: parsedRecipeData.ingredients || [],
+        ingredients: normalizeIngredients(parsedRecipeData.ingredients || []),
         steps: parsedRecipeData.steps || null,
         source: "pasted",
+        ...getRecipeNutritionFields(
+          parsedRecipeData.ingredients,
+          parsedRecipeData.servings
+        ),
+        ...getRecipeClassificationFields(parsedRecipeData.ingredients),
       },
     });
 
-    // Track usage
-    await trackAiUsage(user.id, AiEndpoint.PARSE_RECIPE);
-
     // Return recipe fields at root level for mobile app compatibility
     return NextResponse.json({
       id: recipe.id,
@@ -110,12 +67,10 @@ export async function POST(request: NextRequest) {
       createdAt: recipe.createdAt,
       // Metadata
       usedTokens,
-      tokensUsed: usedTokens ? MEAL_PLAN_TOKEN_COST : 0,
+      tokensUsed,
       message: usedTokens
         ? "Recipe parsed successfully using tokens"
         : "Recipe parsed successfully",
     });
-  } catch (error) {
-    return handleApiError(error);
   }
-}
+);
@@ -1,21 +1,18 @@
-import { NextRequest, NextResponse } from "next/server";
+import { NextResponse } from "next/server";
 import { z } from "zod";
-import { requireAuth } from "@/lib/auth-utils";
-import { handleApiError } from "@/lib/api-errors";
-import {
-  generateHybridReplacement,
-  type ReplaceRecipeRequest,
-} from "@/lib/ai-utils";
+import { generateHybridReplacement } from "@/lib/ai-utils";
 import { prisma } from "@/lib/prisma";
+import { normalizeIngredients } from "@/lib/unit-utils";
+import { getRecipeNutritionFields } from "@/lib/nutrition-utils";
+import { getRecipeClassificationFields } from "@/lib/allergen-utils";
 import { Prisma } from "@prisma/client";
 import { v4 as uuidv4 } from "uuid";
-import { generateRecipeEmbedding } from "@/lib/embedding-utils";
 import {
-  trackAiUsage,
-  AiEndpoint,
-  checkReplaceRecipeLimit,
-  MEAL_PLAN_TOKEN_COST,
-} from "@/lib/ai-usage-utils";
+  generateRecipeEmbedding,
+  RECIPE_EMBEDDING_VERSION,
+} from "@/lib/embedding-utils";
+import { AiEndpoint } from "@/lib/ai-usage-utils";
+import { withAiRoute } from "@/lib/ai-route-utils";
 
 const replaceRecipeRequestSchema = z.object({
   originalRecipe: z.object({
@@ -28,57 +25,13 @@ const replaceRecipeRequestSchema = z.object({
   tokensToUse: z.number().optional(),
 });
 
-export async function POST(request: NextRequest) {
-  try {
-    const { user } = await requireAuth(request);
-
-    const body = await request.json();
-    const payload: ReplaceRecipeRequest =
-      replaceRecipeRequestSchema.parse(body);
-
-    let usedTokens = false;
-
-    // If tokens are provided, validate the amount (tokens are stored on device)
-    if (payload.tokensToUse !== undefined) {
-      if (payload.tokensToUse !== MEAL_PLAN_TOKEN_COST) {
-        return NextResponse.json(
-          {
-            error: "Invalid token amount",
-            code: "INVALID_TOKEN_AMOUNT",
-            details: {
-              required: MEAL_PLAN_TOKEN_COST,
-              provided: payload.tokensToUse,
-            },
-          },
-          { status: 400 }
-        );
-      }
-
-      // Token balance is managed on device, so we trust the mobile app
-      // Just verify they're sending the correct amount
-      usedTokens = true;
-    } else {
-      // No tokens provided - check normal limit
-      const limitCheck = await checkReplaceRecipeLimit(user.id);
-      if (!limitCheck.allowed) {
-        return NextResponse.json(
-          {
-            error: "Recipe replacement limit reached",
-            code: "LIMIT_EXCEEDED",
-            details: {
-              limit: limitCheck.limit,
-              used: limitCheck.used,
-              remaining: limitCheck.remaining,
-              resetsAt: limitCheck.resetsAt,
-              isLifetime: limitCheck.resetsAt === null,
-              tokenCost: MEAL_PLAN_TOKEN_COST,
-            },
-          },
-          { status: 429 }
-        );
-      }
-    }
-
+export const POST = withAiRoute(
+  {
+    endpoint: AiEndpoint.REPLACE_RECIPE,
+    schema: replaceRecipeRequestSchema,
+    limitMessage: "Recipe replacement limit reached",
+  },
+  async ({ user, payload, usedTokens, tokensUsed }) => {
     // Generate replacement recipe using hybrid approach (database + AI)
     const { recipe: replacementRecipeData, source } =
       await generateHybridReplacement(payload);
@@ -124,7 +77,9 @@ export async function POST(request: NextRequest) {
           ingredients:
             replacementRecipeData.ingredients !== undefined &&
             replacementRecipeData.ingredients !== null
-              ? (replacementRecipeData.ingredients as Prisma.InputJsonValue)
+              ? (normalizeIngredients(
+                  replacementRecipeData.ingredients
+                ) as Prisma.InputJsonValue)
               : ([] as Prisma.InputJsonValue),
           steps:
             replacementRecipeData.steps !== undefined &&
@@ -132,7 +87,12 @@ export async function POST(request: NextRequest) {
               ? (replacementRecipeData.steps as Prisma.InputJsonValue)
               : Prisma.JsonNull,
           source: "generated",
-          embeddingVersion: embedding ? 1 : null,
+          ...getRecipeNutritionFields(
+            replacementRecipeData.ingredients,
+            replacementRecipeData.servings
+          ),
+          ...getRecipeClassificationFields(replacementRecipeData.ingredients),
+          embeddingVersion: embedding ? RECIPE_EMBEDDING_VERSION : null,
         },
       });
 
@@ -146,9 +106,6 @@ export async function POST(request: NextRequest) {
       }
     }
 
-    // Track usage
-    await trackAiUsage(user.id, AiEndpoint.REPLACE_RECIPE);
-
     // Map database source to mobile app expected values
     // Database stores "generated" but mobile expects "ai", "url", or "manual"
     const mappedSource =
@@ -171,12 +128,10 @@ export async function POST(request: NextRequest) {
       // Metadata
       recipeSource: source, // "database" or "ai"
       usedTokens,
-      tokensUsed: usedTokens ? MEAL_PLAN_TOKEN_COST : 0,
+      tokensUsed,
       message: `Replacement recipe ${
         source === "database" ? "found" : "generated"
       } successfully${usedTokens ? " using tokens" : ""}`,
     });
-  } catch (error) {
-    return handleApiError(error);
   }
-}
+);
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { requireAuth } from "@/lib/auth-utils";
+import { handleApiError } from "@/lib/api-errors";
+import { generateGroceryList } from "@/lib/grocery-list-utils";
+import type { MealPlanJSON } from "@/lib/types";
+
+const recipeRefSchema = z
+  .object({
+    id: z.string().min(1),
+    title: z.string(),
+    servings: z.number().positive().optional(),
+  })
+  .passthrough();
+
+const weekSchema = z
+  .object({
+    startDate: z.string(),
+    endDate: z.string(),
+    days: z.array(
+      z.object({
+        date: z.string(),
+        meals: z.object({
+          breakfast: recipeRefSchema.optional(),
+          lunch: recipeRefSchema.optional(),
+          dinner: recipeRefSchema.optional(),
+        }),
+      })
+    ),
+  })
+  .passthrough();
+
+const generateSchema = z.union([
+  z.object({
+    mealPlanId: z.string().min(1),
+    subtractInventory: z.boolean().optional(),
+  }),
+  z.object({
+    week: weekSchema,
+    subtractInventory: z.boolean().optional(),
+  }),
+]);
+
+// POST /api/grocery-list - Build a grocery list from a meal plan
+// Body: { mealPlanId } for a stored template or { week } for a MealPlanJSON
+export async function POST(request: NextRequest) {
+  try {
+    const { user } = await requireAuth(request);
+    const body = await request.json();
+    const data = generateSchema.parse(body);
+
+    const result = await generateGroceryList(
+      user.id,
+      "mealPlanId" in data
+        ? { mealPlanId: data.mealPlanId }
+        : { week: data.week as MealPlanJSON },
+      { subtractInventory: data.subtractInventory }
+    );
+
+    return NextResponse.json(result);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { requireAuth } from "@/lib/auth-utils";
+import { handleApiError } from "@/lib/api-errors";
+import {
+  deleteInventoryItem,
+  formatInventoryItem,
+  getInventoryItem,
+  updateInventoryItem,
+} from "@/lib/inventory-utils";
+
+const updateItemSchema = z.object({
+  name: z.string().min(1).max(200).optional(),
+  canonicalId: z.string().max(100).nullable().optional(),
+  location: z.enum(["pantry", "fridge", "freezer"]).optional(),
+  quantity: z.number().nonnegative().optional(),
+  unit: z.string().max(50).optional(),
+  expiresAt: z.string().datetime({ offset: true }).nullable().optional(),
+  photoUri: z.string().max(2000).nullable().optional(),
+});
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ itemId: string }> }
+) {
+  try {
+    const { user } = await requireAuth(request);
+    const { itemId } = await params;
+
+    const item = await getInventoryItem(user.id, itemId);
+    return NextResponse.json({ item: formatInventoryItem(item) });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ itemId: string }> }
+) {
+  try {
+    const { user } = await requireAuth(request);
+    const { itemId } = await params;
+    const body = await request.json();
+    const data = updateItemSchema.parse(body);
+
+    const item = await updateInventoryItem(user.id, itemId, data);
+    return NextResponse.json({ item: formatInventoryItem(item) });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ itemId: string }> }
+) {
+  try {
+    const { user } = await requireAuth(request);
+    const { itemId } = await params;
+    await deleteInventoryItem(user.id, itemId);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
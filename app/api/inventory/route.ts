@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { requireAuth } from "@/lib/auth-utils";
+import { handleApiError } from "@/lib/api-errors";
+import {
+  createInventoryItem,
+  formatInventoryItem,
+  listInventory,
+} from "@/lib/inventory-utils";
+
+const locationSchema = z.enum(["pantry", "fridge", "freezer"]);
+
+const createItemSchema = z.object({
+  id: z.string().min(1).max(100).optional(),
+  name: z.string().min(1).max(200),
+  canonicalId: z.string().max(100).optional(),
+  location: locationSchema.optional(),
+  quantity: z.number().nonnegative().optional(),
+  unit: z.string().max(50).optional(),
+  expiresAt: z.string().datetime({ offset: true }).optional(),
+  photoUri: z.string().max(2000).optional(),
+});
+
+// GET /api/inventory?location=fridge&expiringWithinDays=3
+export async function GET(request: NextRequest) {
+  try {
+    const { user } = await requireAuth(request);
+
+    const { searchParams } = new URL(request.url);
+    const location = searchParams.get("location");
+    const expiringWithinDays = searchParams.get("expiringWithinDays");
+
+    let expiringBefore: Date | undefined;
+    if (expiringWithinDays) {
+      const days = z.coerce
+        .number()
+        .int()
+        .nonnegative()
+        .parse(expiringWithinDays);
+      expiringBefore = new Date();
+      expiringBefore.setDate(expiringBefore.getDate() + days);
+    }
+
+    const items = await listInventory(user.id, {
+      location: location ? locationSchema.parse(location) : undefined,
+      expiringBefore,
+    });
+
+    return NextResponse.json({ items: items.map(formatInventoryItem) });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+// POST /api/inventory - Add an item
+export async function POST(request: NextRequest) {
+  try {
+    const { user } = await requireAuth(request);
+    const body = await request.json();
+    const data = createItemSchema.parse(body);
+
+    const item = await createInventoryItem(user.id, data);
+
+    return NextResponse.json(
+      { item: formatInventoryItem(item) },
+      { status: 201 }
+    );
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth-utils";
+import { handleApiError } from "@/lib/api-errors";
+import { getServerProgress } from "@/lib/achievement-utils";
+
+/**
+ * GET /api/me/achievements
+ * Streaks and achievement progress computed from the user's meal plans,
+ * cook log, recipes, posts and inventory
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { user } = await requireAuth(request);
+    const { achievements, streaks, newlyUnlocked } = await getServerProgress(
+      user.id
+    );
+
+    return NextResponse.json({ achievements, streaks, newlyUnlocked });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -53,7 +53,7 @@ export async function GET(request: NextRequest) {
         used: limit.used,
         limit: limit.limit,
         remaining: limit.remaining,
-        isLifetime: limit.resetsAt === null,
+        isLifetime: limit.window === "lifetime",
         resetsAt: limit.resetsAt,
         tokenCost: limit.tokenCost,
       };
@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { requireAuth } from "@/lib/auth-utils";
+import { handleApiError } from "@/lib/api-errors";
+import {
+  getTokenBalance,
+  listTokenTransactions,
+  spendTokens,
+} from "@/lib/token-ledger-utils";
+
+const limitSchema = z.coerce.number().int().min(1).max(100).default(50);
+
+// Things devices let users spend tokens on; earning only happens server-side
+const spendSchema = z.object({
+  amount: z.number().int().positive(),
+  type: z.enum(["skip_day", "restore_streak", "decision_game"]),
+  description: z.string().min(1).max(200),
+  relatedId: z.string().max(200).optional(),
+  idempotencyKey: z.string().min(1).max(100),
+});
+
+/**
+ * GET /api/me/tokens
+ * Balance plus ledger entries, newest first
+ * Query: ?limit=50&before=<transaction id>
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { user } = await requireAuth(request);
+    const { searchParams } = new URL(request.url);
+    const limit = limitSchema.parse(searchParams.get("limit") || undefined);
+    const before = searchParams.get("before") ?? undefined;
+
+    const [balance, transactions] = await Promise.all([
+      getTokenBalance(user.id),
+      listTokenTransactions(user.id, { limit, before }),
+    ]);
+
+    return NextResponse.json({
+      ...balance,
+      transactions,
+      nextCursor:
+        transactions.length === limit
+          ? transactions[transactions.length - 1].id
+          : null,
+    });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+/**
+ * POST /api/me/tokens
+ * Spend tokens on an in-app action
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { user } = await requireAuth(request);
+    const data = spendSchema.parse(await request.json());
+
+    const result = await spendTokens(user.id, data);
+
+    if (!result.ok) {
+      return NextResponse.json(
+        {
+          error: "Insufficient tokens",
+          code: "INSUFFICIENT_TOKENS",
+          details: {
+            required: data.amount,
+            currentBalance: result.balance,
+          },
+        },
+        { status: 402 }
+      );
+    }
+
+    return NextResponse.json({
+      transaction: result.transaction,
+      balance: result.balance,
+    });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
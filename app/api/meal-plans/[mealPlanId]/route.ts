@@ -2,13 +2,17 @@ import { NextRequest, NextResponse } from "next/server";
 import { requireAuth } from "@/lib/auth-utils";
 import { handleApiError } from "@/lib/api-errors";
 import { getMealPlan, enrichMealPlanWithRecipes } from "@/lib/meal-plan-utils";
+import {
+  getMealPlanNutrition,
+  getUserNutritionTargets,
+} from "@/lib/nutrition-utils";
 
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ mealPlanId: string }> }
 ) {
   try {
-    await requireAuth(request);
+    const { user } = await requireAuth(request);
     const { mealPlanId } = await params;
 
     console.log("📅 Get Meal Plan - ID:", mealPlanId);
@@ -21,9 +25,14 @@ export async function GET(
       "📅 Enriched Recipes Count:",
       enrichedMealPlan.recipes?.length || 0
     );
+    // Daily totals are measured against the viewer's own goals
+    const nutrition = await getMealPlanNutrition(
+      mealPlan.days,
+      await getUserNutritionTargets(user.id)
+    );
     console.log("✅ Meal plan retrieved successfully");
 
-    return NextResponse.json({ mealPlan: enrichedMealPlan });
+    return NextResponse.json({ mealPlan: enrichedMealPlan, nutrition });
   } catch (error) {
     console.error("❌ Get Meal Plan Error:", error);
     return handleApiError(error);
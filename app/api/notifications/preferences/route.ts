@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { requireAuth } from "@/lib/auth-utils";
+import { handleApiError } from "@/lib/api-errors";
+import {
+  getNotificationPreferences,
+  updateNotificationPreferences,
+} from "@/lib/notification-preference-utils";
+import { MAX_EXPIRY_REMINDER_DAYS } from "@/lib/inventory-reminder-utils";
+
+const minuteOfDay = z.number().int().min(0).max(24 * 60 - 1).nullable();
+
+const updateSchema = z.object({
+  expiryReminders: z.boolean().optional(),
+  expiryReminderDays: z
+    .number()
+    .int()
+    .min(0)
+    .max(MAX_EXPIRY_REMINDER_DAYS)
+    .optional(),
+  quietHoursStart: minuteOfDay.optional(),
+  quietHoursEnd: minuteOfDay.optional(),
+  timezone: z.string().min(1).max(64).optional(),
+});
+
+function formatPreferences(
+  preferences: Awaited<ReturnType<typeof getNotificationPreferences>>
+) {
+  return {
+    expiryReminders: preferences.expiryReminders,
+    expiryReminderDays: preferences.expiryReminderDays,
+    quietHoursStart: preferences.quietHoursStart,
+    quietHoursEnd: preferences.quietHoursEnd,
+    timezone: preferences.timezone,
+  };
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const { user } = await requireAuth(request);
+    const preferences = await getNotificationPreferences(user.id);
+
+    return NextResponse.json({ preferences: formatPreferences(preferences) });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+export async function PATCH(request: NextRequest) {
+  try {
+    const { user } = await requireAuth(request);
+    const body = await request.json();
+    const data = updateSchema.parse(body);
+
+    const preferences = await updateNotificationPreferences(user.id, data);
+
+    return NextResponse.json({ preferences: formatPreferences(preferences) });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
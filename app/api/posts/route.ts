@@ -4,6 +4,9 @@ import { requireAuth } from "@/lib/auth-utils";
 import { handleApiError } from "@/lib/api-errors";
 import { createPost } from "@/lib/post-utils";
 import { prisma } from "@/lib/prisma";
+import { normalizeIngredients } from "@/lib/unit-utils";
+import { getRecipeNutritionFields } from "@/lib/nutrition-utils";
+import { getRecipeClassificationFields } from "@/lib/allergen-utils";
 import { Prisma } from "@prisma/client";
 import { v4 as uuidv4 } from "uuid";
 import { isAllowedBlobUrl } from "@/lib/blob-utils";
@@ -87,7 +90,9 @@ export async function POST(request: NextRequest) {
             ingredients:
               data.recipe.ingredients !== undefined &&
               data.recipe.ingredients !== null
-                ? (data.recipe.ingredients as Prisma.InputJsonValue)
+                ? (normalizeIngredients(
+                    data.recipe.ingredients
+                  ) as Prisma.InputJsonValue)
                 : ([] as Prisma.InputJsonValue),
             steps:
               data.recipe.steps !== undefined && data.recipe.steps !== null
@@ -95,6 +100,11 @@ export async function POST(request: NextRequest) {
                 : Prisma.JsonNull,
             source: data.recipe.source || "user-post",
             sourceUrl: data.recipe.sourceUrl || null,
+            ...getRecipeNutritionFields(
+              data.recipe.ingredients,
+              data.recipe.servings
+            ),
+            ...getRecipeClassificationFields(data.recipe.ingredients),
           },
         });
         recipeId = newRecipe.id;
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getOptionalAuth } from "@/lib/auth-utils";
+import { handleApiError } from "@/lib/api-errors";
+import { getPublicRecipeBySlug } from "@/lib/recipe-publication";
+import {
+  MAX_SCALED_SERVINGS,
+  scaleStoredRecipe,
+} from "@/lib/recipe-scaling-utils";
+
+const servingsSchema = z.coerce.number().int().min(1).max(MAX_SCALED_SERVINGS);
+
+// GET /api/public/recipes/[slug]/scaled?servings=6
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  try {
+    const { slug } = await params;
+    const { searchParams } = new URL(request.url);
+    const servings = servingsSchema.parse(searchParams.get("servings"));
+
+    const auth = await getOptionalAuth(request);
+    const payload = await getPublicRecipeBySlug(slug, auth?.user?.id);
+
+    return NextResponse.json({
+      ...payload,
+      ...scaleStoredRecipe(payload.recipe, servings),
+    });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
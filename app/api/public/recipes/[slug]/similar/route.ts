@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getOptionalAuth } from "@/lib/auth-utils";
+import { handleApiError, errors } from "@/lib/api-errors";
+import { prisma } from "@/lib/prisma";
+import {
+  findSimilarRecipes,
+  getUserDietaryPreferences,
+} from "@/lib/recipe-search-utils";
+
+const limitSchema = z.coerce.number().int().min(1).max(20).default(6);
+
+// GET /api/public/recipes/[slug]/similar?limit=6
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  try {
+    const { slug } = await params;
+    const { searchParams } = new URL(request.url);
+    const limit = limitSchema.parse(searchParams.get("limit") || undefined);
+
+    const publication = await prisma.recipePublication.findFirst({
+      where: { slug, isPublished: true },
+      select: { recipeId: true },
+    });
+
+    if (!publication) {
+      throw errors.notFound("Recipe not found");
+    }
+
+    // Anonymous readers only see other published recipes
+    const auth = await getOptionalAuth(request);
+    const viewerId = auth?.user?.id;
+
+    const similar = await findSimilarRecipes(publication.recipeId, {
+      viewerId,
+      dietary: viewerId
+        ? ((await getUserDietaryPreferences(viewerId)) ?? undefined)
+        : undefined,
+      limit,
+    });
+
+    if (!similar) {
+      throw errors.notFound("Recipe not found");
+    }
+
+    return NextResponse.json(similar);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { requireAuth } from "@/lib/auth-utils";
+import { handleApiError } from "@/lib/api-errors";
+import { listCookEvents, recordCookEvent } from "@/lib/cook-log-utils";
+import { getServerProgress } from "@/lib/achievement-utils";
+
+const cookedSchema = z.object({
+  cookedAt: z.coerce.date().optional(),
+  servings: z.number().int().positive().optional(),
+  rating: z.number().int().min(1).max(5).optional(),
+  photoUrl: z.string().url().optional(),
+  clientEventId: z.string().min(1).max(100).optional(),
+});
+
+// GET /api/recipes/[recipeId]/cooked
+// The signed-in user's cook log for this recipe
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ recipeId: string }> }
+) {
+  try {
+    const { user } = await requireAuth(request);
+    const { recipeId } = await params;
+
+    return NextResponse.json({
+      events: await listCookEvents(user.id, { recipeId }),
+    });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+// POST /api/recipes/[recipeId]/cooked
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ recipeId: string }> }
+) {
+  try {
+    const { user } = await requireAuth(request);
+    const { recipeId } = await params;
+    const body = await request.json().catch(() => ({}));
+    const data = cookedSchema.parse(body);
+
+    const { event, created } = await recordCookEvent(recipeId, user.id, data);
+
+    // Cooking can extend a streak or finish an achievement right away
+    const { streaks, newlyUnlocked } = await getServerProgress(user.id);
+
+    return NextResponse.json(
+      {
+        event,
+        cookingStreak: streaks.cookingStreak,
+        achievementsUnlocked: newlyUnlocked,
+      },
+      { status: created ? 201 : 200 }
+    );
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getOptionalAuth } from "@/lib/auth-utils";
+import { handleApiError } from "@/lib/api-errors";
+import { getRecipeLineage } from "@/lib/recipe-fork-utils";
+
+// GET /api/recipes/[recipeId]/lineage
+// Fork tree the recipe belongs to, rooted at its oldest surviving ancestor
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ recipeId: string }> }
+) {
+  try {
+    const { recipeId } = await params;
+    const auth = await getOptionalAuth(request);
+    const lineage = await getRecipeLineage(recipeId, auth?.user?.id);
+
+    return NextResponse.json(lineage);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
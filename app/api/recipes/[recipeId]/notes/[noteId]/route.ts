@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { requireAuth } from "@/lib/auth-utils";
+import { handleApiError } from "@/lib/api-errors";
+import { deleteRecipeNote, updateRecipeNote } from "@/lib/recipe-note-utils";
+
+const updateNoteSchema = z.object({
+  text: z.string().trim().min(1).max(2000).optional(),
+  ingredientIndex: z.number().int().min(0).nullable().optional(),
+  stepOrder: z.number().int().min(0).nullable().optional(),
+});
+
+// PATCH /api/recipes/[recipeId]/notes/[noteId]
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ recipeId: string; noteId: string }> }
+) {
+  try {
+    const { user } = await requireAuth(request);
+    const { recipeId, noteId } = await params;
+    const data = updateNoteSchema.parse(await request.json());
+
+    const note = await updateRecipeNote(noteId, recipeId, user.id, data);
+
+    return NextResponse.json({ note });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+// DELETE /api/recipes/[recipeId]/notes/[noteId]
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ recipeId: string; noteId: string }> }
+) {
+  try {
+    const { user } = await requireAuth(request);
+    const { recipeId, noteId } = await params;
+
+    await deleteRecipeNote(noteId, recipeId, user.id);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
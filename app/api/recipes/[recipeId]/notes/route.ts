@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { requireAuth } from "@/lib/auth-utils";
+import { handleApiError } from "@/lib/api-errors";
+import { createRecipeNote, listRecipeNotes } from "@/lib/recipe-note-utils";
+
+const createNoteSchema = z.object({
+  text: z.string().trim().min(1).max(2000),
+  ingredientIndex: z.number().int().min(0).nullable().optional(),
+  stepOrder: z.number().int().min(0).nullable().optional(),
+});
+
+// GET /api/recipes/[recipeId]/notes
+// The signed-in user's private notes on the recipe
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ recipeId: string }> }
+) {
+  try {
+    const { user } = await requireAuth(request);
+    const { recipeId } = await params;
+
+    return NextResponse.json({
+      notes: await listRecipeNotes(recipeId, user.id),
+    });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+// POST /api/recipes/[recipeId]/notes
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ recipeId: string }> }
+) {
+  try {
+    const { user } = await requireAuth(request);
+    const { recipeId } = await params;
+    const data = createNoteSchema.parse(await request.json());
+
+    const note = await createRecipeNote(recipeId, user.id, data);
+
+    return NextResponse.json({ note }, { status: 201 });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
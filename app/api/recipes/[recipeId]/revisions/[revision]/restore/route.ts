@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { requireAuth } from "@/lib/auth-utils";
+import { handleApiError, errors } from "@/lib/api-errors";
+import { prisma } from "@/lib/prisma";
+import { RECIPE_EMBEDDING_VERSION } from "@/lib/embedding-utils";
+import { reembedRecipe } from "@/lib/embedding-job-utils";
+import { restoreRecipeRevision } from "@/lib/recipe-revision-utils";
+
+const revisionSchema = z.coerce.number().int().min(1);
+
+// POST /api/recipes/[recipeId]/revisions/[revision]/restore
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ recipeId: string; revision: string }> }
+) {
+  try {
+    const { user } = await requireAuth(request);
+    const { recipeId, revision } = await params;
+    const revisionNumber = revisionSchema.parse(revision);
+
+    const recipe = await prisma.recipe.findUnique({
+      where: { id: recipeId },
+    });
+
+    if (!recipe) {
+      throw errors.notFound("Recipe not found");
+    }
+
+    if (recipe.userId !== user.id) {
+      throw errors.forbidden("You do not own this recipe");
+    }
+
+    const { recipe: restored, embeddingStale } = await restoreRecipeRevision(
+      recipe,
+      revisionNumber,
+      user.id
+    );
+
+    if (embeddingStale && (await reembedRecipe(recipeId))) {
+      return NextResponse.json({
+        recipe: { ...restored, embeddingVersion: RECIPE_EMBEDDING_VERSION },
+        restoredFromRevision: revisionNumber,
+      });
+    }
+
+    return NextResponse.json({
+      recipe: restored,
+      restoredFromRevision: revisionNumber,
+    });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
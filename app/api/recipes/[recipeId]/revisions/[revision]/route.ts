@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getOptionalAuth } from "@/lib/auth-utils";
+import { handleApiError } from "@/lib/api-errors";
+import {
+  getRecipeForHistory,
+  getRecipeRevision,
+} from "@/lib/recipe-revision-utils";
+
+const revisionSchema = z.coerce.number().int().min(1);
+
+// GET /api/recipes/[recipeId]/revisions/[revision]
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ recipeId: string; revision: string }> }
+) {
+  try {
+    const { recipeId, revision } = await params;
+    const revisionNumber = revisionSchema.parse(revision);
+
+    const auth = await getOptionalAuth(request);
+    const recipe = await getRecipeForHistory(recipeId, auth?.user?.id);
+
+    return NextResponse.json({
+      revision: await getRecipeRevision(recipe, revisionNumber),
+      currentRevision: recipe.revision,
+    });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getOptionalAuth } from "@/lib/auth-utils";
+import { handleApiError } from "@/lib/api-errors";
+import {
+  diffRecipeRevisions,
+  getRecipeForHistory,
+} from "@/lib/recipe-revision-utils";
+
+const diffSchema = z.object({
+  from: z.coerce.number().int().min(1),
+  to: z.coerce.number().int().min(1).optional(),
+});
+
+// GET /api/recipes/[recipeId]/revisions/diff?from=1&to=3 (to defaults to current)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ recipeId: string }> }
+) {
+  try {
+    const { recipeId } = await params;
+    const { searchParams } = new URL(request.url);
+    const query = diffSchema.parse({
+      from: searchParams.get("from") ?? undefined,
+      to: searchParams.get("to") || undefined,
+    });
+
+    const auth = await getOptionalAuth(request);
+    const recipe = await getRecipeForHistory(recipeId, auth?.user?.id);
+
+    return NextResponse.json({
+      diff: await diffRecipeRevisions(recipe, query.from, query.to),
+    });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
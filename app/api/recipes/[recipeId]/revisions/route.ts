@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getOptionalAuth } from "@/lib/auth-utils";
+import { handleApiError } from "@/lib/api-errors";
+import {
+  getRecipeForHistory,
+  listRecipeRevisions,
+} from "@/lib/recipe-revision-utils";
+
+// GET /api/recipes/[recipeId]/revisions
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ recipeId: string }> }
+) {
+  try {
+    const { recipeId } = await params;
+    const auth = await getOptionalAuth(request);
+    const recipe = await getRecipeForHistory(recipeId, auth?.user?.id);
+
+    return NextResponse.json({
+      currentRevision: recipe.revision,
+      revisions: await listRecipeRevisions(recipe),
+    });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
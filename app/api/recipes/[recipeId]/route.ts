@@ -3,7 +3,16 @@ import { z } from "zod";
 import { getOptionalAuth, requireAuth } from "@/lib/auth-utils";
 import { handleApiError, errors } from "@/lib/api-errors";
 import { prisma } from "@/lib/prisma";
-import { getRecipeVoteStatsWithUserVote } from "@/lib/recipe-utils";
+import { RECIPE_EMBEDDING_VERSION } from "@/lib/embedding-utils";
+import { reembedRecipe } from "@/lib/embedding-job-utils";
+import {
+  buildRecipeUpdateData,
+  deleteRecipe,
+  getRecipeVoteStatsWithUserVote,
+} from "@/lib/recipe-utils";
+import { updateRecipeWithRevision } from "@/lib/recipe-revision-utils";
+import { getForkAttribution, getRemixCounts } from "@/lib/recipe-fork-utils";
+import { listRecipeNotes } from "@/lib/recipe-note-utils";
 
 export async function GET(
   request: NextRequest,
@@ -39,12 +48,28 @@ export async function GET(
       auth?.user?.id || null
     );
 
+    const attribution = await getForkAttribution(recipe, auth?.user?.id);
+
+    // Only the author sees how often their recipe has been remixed
+    const remixes =
+      auth?.user?.id === recipe.userId
+        ? (await getRemixCounts([recipe.id])).get(recipe.id)
+        : undefined;
+
+    // Private to the viewer; never part of public or shared payloads
+    const notes = auth?.user?.id
+      ? await listRecipeNotes(recipeId, auth.user.id)
+      : [];
+
     console.log("✅ Recipe found:", recipe.title);
     console.log("✅ Vote stats:", voteStats);
 
     return NextResponse.json({
       recipe,
       votes: voteStats,
+      attribution,
+      notes,
+      ...(remixes ? { remixes } : {}),
     });
   } catch (error) {
     console.error("❌ Get Recipe Error:", error);
@@ -86,29 +111,40 @@ export async function PATCH(
       throw errors.forbidden("You do not own this recipe");
     }
 
-    const updated = await prisma.recipe.update({
-      where: { id: recipeId },
-      data: {
-        ...(data.title !== undefined ? { title: data.title } : {}),
-        ...(data.description !== undefined
-          ? { description: data.description }
-          : {}),
-        ...(data.imageUrl !== undefined ? { imageUrl: data.imageUrl } : {}),
-        ...(data.servings !== undefined ? { servings: data.servings } : {}),
-        ...(data.totalMinutes !== undefined
-          ? { totalMinutes: data.totalMinutes }
-          : {}),
-        ...(data.cuisine !== undefined ? { cuisine: data.cuisine } : {}),
-        ...(data.tags !== undefined ? { tags: data.tags as any } : {}),
-        ...(data.ingredients !== undefined
-          ? { ingredients: data.ingredients as any }
-          : {}),
-        ...(data.steps !== undefined ? { steps: data.steps as any } : {}),
-      },
+    const { data: updateData, embeddingStale } = buildRecipeUpdateData(
+      recipe,
+      data
+    );
+    const updated = await updateRecipeWithRevision(recipe, updateData, {
+      editedById: user.id,
     });
 
+    // If this fails the recipe stays unversioned, so search skips its old
+    // vector until the embedding job catches up
+    if (embeddingStale && (await reembedRecipe(recipeId))) {
+      return NextResponse.json({
+        recipe: { ...updated, embeddingVersion: RECIPE_EMBEDDING_VERSION },
+      });
+    }
+
     return NextResponse.json({ recipe: updated });
   } catch (error) {
     return handleApiError(error);
   }
 }
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ recipeId: string }> }
+) {
+  try {
+    const { user } = await requireAuth(request);
+    const { recipeId } = await params;
+
+    await deleteRecipe(recipeId, user.id);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
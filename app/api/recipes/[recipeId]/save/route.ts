@@ -3,8 +3,9 @@ import { z } from "zod";
 import { requireAuth } from "@/lib/auth-utils";
 import { handleApiError, errors } from "@/lib/api-errors";
 import { prisma } from "@/lib/prisma";
-import { Prisma } from "@prisma/client";
 import { publishRecipe } from "@/lib/recipe-publication";
+import { createFeedActivity } from "@/lib/feed-utils";
+import { forkRecipe } from "@/lib/recipe-fork-utils";
 
 const saveSchema = z.object({
   publish: z.boolean().optional(),
@@ -28,27 +29,13 @@ export async function POST(
       throw errors.notFound("Recipe not found");
     }
 
-    const newRecipe = await prisma.recipe.create({
-      data: {
-        userId: user.id,
-        title: recipe.title,
-        description: recipe.description,
-        imageUrl: recipe.imageUrl,
-        servings: recipe.servings,
-        totalMinutes: recipe.totalMinutes,
-        cuisine: recipe.cuisine,
-        tags:
-          recipe.tags !== undefined && recipe.tags !== null
-            ? (recipe.tags as Prisma.InputJsonValue)
-            : Prisma.JsonNull,
-        ingredients: recipe.ingredients as Prisma.InputJsonValue,
-        steps:
-          recipe.steps !== undefined && recipe.steps !== null
-            ? (recipe.steps as Prisma.InputJsonValue)
-            : Prisma.JsonNull,
-        source: "discover-import",
-        sourceUrl: recipe.sourceUrl,
-      },
+    const newRecipe = await forkRecipe(recipe, user.id);
+
+    await createFeedActivity({
+      userId: user.id,
+      activityType: "recipe_saved",
+      recipeId: recipe.id,
+      metadata: { savedRecipeId: newRecipe.id },
     });
 
     let publication = null;
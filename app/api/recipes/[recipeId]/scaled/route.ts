@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { handleApiError, errors } from "@/lib/api-errors";
+import { prisma } from "@/lib/prisma";
+import {
+  MAX_SCALED_SERVINGS,
+  scaleStoredRecipe,
+} from "@/lib/recipe-scaling-utils";
+
+const servingsSchema = z.coerce.number().int().min(1).max(MAX_SCALED_SERVINGS);
+
+// GET /api/recipes/[recipeId]/scaled?servings=6
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ recipeId: string }> }
+) {
+  try {
+    const { recipeId } = await params;
+    const { searchParams } = new URL(request.url);
+    const servings = servingsSchema.parse(searchParams.get("servings"));
+
+    const recipe = await prisma.recipe.findUnique({
+      where: { id: recipeId },
+      include: {
+        user: {
+          select: {
+            id: true,
+            displayName: true,
+            avatarUrl: true,
+          },
+        },
+      },
+    });
+
+    if (!recipe) {
+      throw errors.notFound("Recipe not found");
+    }
+
+    return NextResponse.json(scaleStoredRecipe(recipe, servings));
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
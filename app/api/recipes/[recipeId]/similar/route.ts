@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getOptionalAuth } from "@/lib/auth-utils";
+import { handleApiError, errors } from "@/lib/api-errors";
+import {
+  findSimilarRecipes,
+  getUserDietaryPreferences,
+} from "@/lib/recipe-search-utils";
+
+const limitSchema = z.coerce.number().int().min(1).max(20).default(6);
+
+// GET /api/recipes/[recipeId]/similar?limit=6
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ recipeId: string }> }
+) {
+  try {
+    const { recipeId } = await params;
+    const { searchParams } = new URL(request.url);
+    const limit = limitSchema.parse(searchParams.get("limit") || undefined);
+
+    const auth = await getOptionalAuth(request);
+    const viewerId = auth?.user?.id;
+
+    const similar = await findSimilarRecipes(recipeId, {
+      viewerId,
+      dietary: viewerId
+        ? ((await getUserDietaryPreferences(viewerId)) ?? undefined)
+        : undefined,
+      limit,
+    });
+
+    if (!similar) {
+      throw errors.notFound("Recipe not found");
+    }
+
+    return NextResponse.json(similar);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -3,9 +3,15 @@ import { getOptionalAuth } from "@/lib/auth-utils";
 import { handleApiError } from "@/lib/api-errors";
 import { prisma } from "@/lib/prisma";
 import {
-  doesRecipeMeetDietaryRestrictions,
+  buildDietarySqlFilter,
+  getUserDietaryPreferences,
   hasDietaryRestrictions,
+  meetsDietarySqlFilter,
 } from "@/lib/recipe-search-utils";
+import { RECIPE_EMBEDDING_VERSION } from "@/lib/embedding-utils";
+import { getTasteEmbedding } from "@/lib/taste-profile-utils";
+import { getForYouRecipes } from "@/lib/discover-utils";
+import { buildTopRecipesQuery } from "@/lib/discover-ranking-utils";
 
 interface Recipe {
   id: string;
@@ -20,6 +26,7 @@ interface Recipe {
   ingredients: unknown;
   steps: unknown;
   source: string | null;
+  classificationVersion: number | null;
   createdAt: Date;
   updatedAt: Date;
   ownerName?: string | null;
@@ -38,98 +45,59 @@ interface DietaryPreferences {
 }
 
 /**
- * Helper function to fetch random recipes with optional user exclusion
+ * Helper function to fetch top recipes with optional user and diet filters
+ * Diet style and allergens are filtered in SQL; other restrictions are
+ * checked against the returned rows
  */
 async function fetchRandomRecipes(
   limit: number,
-  excludeUserIds: string[] = []
+  options: {
+    excludeUserIds?: string[];
+    onlyUserId?: string;
+    dietary?: DietaryPreferences;
+    // Postgres vector literal from getTasteEmbedding
+    tasteVector?: string | null;
+  } = {}
 ): Promise<Recipe[]> {
-  let query: string;
-  let params: any[] = [];
+  const { excludeUserIds = [], onlyUserId, dietary, tasteVector } = options;
+  const conditions: string[] = [];
+  const params: unknown[] = [];
+  let paramIndex = 1;
 
   if (excludeUserIds.length > 0) {
-    const placeholders = excludeUserIds.map((_, i) => `$${i + 1}`).join(", ");
-    query = `
-      SELECT 
-        r.id,
-        r."userId",
-        r.title,
-        r.description,
-        r."imageUrl",
-        r.servings,
-        r."totalMinutes",
-        r.cuisine,
-        r.tags,
-        r.ingredients,
-        r.steps,
-        r.source,
-        r."createdAt",
-        r."updatedAt",
-        rp.slug,
-        rp."isPublished",
-        rp."publishedAt",
-        u."displayName" AS "ownerName",
-        COALESCE(SUM(CASE WHEN v."voteType" = 'upvote' THEN 1 ELSE 0 END), 0)::int AS upvotes,
-        COALESCE(SUM(CASE WHEN v."voteType" = 'downvote' THEN 1 ELSE 0 END), 0)::int AS downvotes,
-        COALESCE(
-          SUM(CASE WHEN v."voteType" = 'upvote' THEN 1 ELSE 0 END) - 
-          SUM(CASE WHEN v."voteType" = 'downvote' THEN 1 ELSE 0 END), 
-          0
-        )::int AS score
-      FROM "Recipe" r
-      LEFT JOIN "RecipeVote" v ON r.id = v."recipeId"
-      LEFT JOIN "RecipePublication" rp ON rp."recipeId" = r.id AND rp."isPublished" = true
-      LEFT JOIN "User" u ON u.id = r."userId"
-      WHERE r."userId" NOT IN (${placeholders})
-      GROUP BY r.id, r."userId", r.title, r.description, r."imageUrl", r.servings, r."totalMinutes", 
-               r.cuisine, r.tags, r.ingredients, r.steps, r.source, r."createdAt", r."updatedAt",
-               rp.slug, rp."isPublished", rp."publishedAt", u."displayName"
-      ORDER BY score DESC, r."createdAt" DESC
-      LIMIT $${excludeUserIds.length + 1}
-    `;
-    params = [...excludeUserIds, limit];
-  } else {
-    query = `
-      SELECT 
-        r.id,
-        r."userId",
-        r.title,
-        r.description,
-        r."imageUrl",
-        r.servings,
-        r."totalMinutes",
-        r.cuisine,
-        r.tags,
-        r.ingredients,
-        r.steps,
-        r.source,
-        r."createdAt",
-        r."updatedAt",
-        rp.slug,
-        rp."isPublished",
-        rp."publishedAt",
-        u."displayName" AS "ownerName",
-        COALESCE(SUM(CASE WHEN v."voteType" = 'upvote' THEN 1 ELSE 0 END), 0)::int AS upvotes,
-        COALESCE(SUM(CASE WHEN v."voteType" = 'downvote' THEN 1 ELSE 0 END), 0)::int AS downvotes,
-        COALESCE(
-          SUM(CASE WHEN v."voteType" = 'upvote' THEN 1 ELSE 0 END) - 
-          SUM(CASE WHEN v."voteType" = 'downvote' THEN 1 ELSE 0 END), 
-          0
-        )::int AS score
-      FROM "Recipe" r
-      LEFT JOIN "RecipeVote" v ON r.id = v."recipeId"
-      LEFT JOIN "RecipePublication" rp ON rp."recipeId" = r.id AND rp."isPublished" = true
-      LEFT JOIN "User" u ON u.id = r."userId"
-      GROUP BY r.id, r."userId", r.title, r.description, r."imageUrl", r.servings, r."totalMinutes", 
-               r.cuisine, r.tags, r.ingredients, r.steps, r.source, r."createdAt", r."updatedAt",
-               rp.slug, rp."isPublished", rp."publishedAt", u."displayName"
-      ORDER BY score DESC, r."createdAt" DESC
-      LIMIT $1
-    `;
-    params = [limit];
+    const placeholders = excludeUserIds.map(() => `$${paramIndex++}`);
+    conditions.push(`r."userId" NOT IN (${placeholders.join(", ")})`);
+    params.push(...excludeUserIds);
   }
 
-  return prisma.$queryRawUnsafe<Recipe[]>(query, ...params);
+  if (onlyUserId) {
+    conditions.push(`r."userId" = $${paramIndex++}`);
+    params.push(onlyUserId);
+  }
+
+  let filter: ReturnType<typeof buildDietarySqlFilter> | null = null;
+  if (dietary) {
+    filter = buildDietarySqlFilter(dietary, paramIndex, "r");
+    conditions.push(...filter.conditions);
+    params.push(...filter.params);
+  }
+
+  const query = buildTopRecipesQuery({
+    conditions,
+    params,
+    limit,
+    tasteVector,
+    embeddingVersion: RECIPE_EMBEDDING_VERSION,
+  });
+
+  const recipes = await prisma.$queryRawUnsafe<Recipe[]>(
+    query.query,
+    ...query.params
+  );
+
+  return filter
+    ? recipes.filter((recipe) => meetsDietarySqlFilter(recipe, filter))
+    : recipes;
 }
 
 export async function GET(request: NextRequest) {
@@ -150,6 +118,16 @@ export async function GET(request: NextRequest) {
       }
     }
 
+    // Ranked, paginated feed; the default mode stays a top-voted sample
+    if (searchParams.get("mode") === "for-you") {
+      const result = await getForYouRecipes(currentUserId, {
+        count,
+        cursor: searchParams.get("cursor") || undefined,
+      });
+      console.log(`✅ Returning ${result.recipes.length} "For You" recipes`);
+      return NextResponse.json(result);
+    }
+
     console.log(
       "🔍 Recipe Discovery - User ID:",
       currentUserId || "not authenticated"
@@ -157,23 +135,12 @@ export async function GET(request: NextRequest) {
     console.log("🔍 Recipe Discovery - Count:", count);
 
     // Fetch user preferences for both registered and anonymous users
-    let preferences: DietaryPreferences | null = null;
-    if (currentUserId) {
-      const profile = await prisma.userProfile.findUnique({
-        where: { userId: currentUserId },
-        select: { chefIntake: true },
-      });
-
-      if (profile?.chefIntake) {
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        const chefIntake = profile.chefIntake as any;
-        preferences = {
-          dietStyle: chefIntake?.dietStyle,
-          allergies: chefIntake?.allergies,
-          exclusions: chefIntake?.exclusions,
-        };
-      }
-    }
+    const preferences: DietaryPreferences | null = currentUserId
+      ? await getUserDietaryPreferences(currentUserId)
+      : null;
+    const tasteVector = currentUserId
+      ? await getTasteEmbedding(currentUserId)
+      : null;
 
     // Determine if we need to filter based on preferences
     const needsFiltering = preferences && hasDietaryRestrictions(preferences);
@@ -198,13 +165,12 @@ export async function GET(request: NextRequest) {
       console.log(
         "📍 Step 1: Fetching other users' recipes with full restrictions"
       );
-      const othersRecipes = await fetchRandomRecipes(
-        count * 4,
-        currentUserId ? [currentUserId] : []
-      );
-      recipes = othersRecipes.filter((recipe) =>
-        doesRecipeMeetDietaryRestrictions(recipe, preferences!)
-      );
+      const excludeUserIds = currentUserId ? [currentUserId] : [];
+      recipes = await fetchRandomRecipes(count * 4, {
+        excludeUserIds,
+        dietary: preferences,
+        tasteVector,
+      });
       console.log(
         `   Found ${recipes.length} recipes from others with full restrictions`
       );
@@ -214,12 +180,15 @@ export async function GET(request: NextRequest) {
         console.log(
           "📍 Step 2: Not enough recipes, trying with just diet style"
         );
-        const relaxedPreferences = { dietStyle: preferences.dietStyle };
-        const additionalRecipes = othersRecipes.filter((recipe) => {
-          // Don't include recipes we already have
-          if (recipes.find((r) => r.id === recipe.id)) return false;
-          return doesRecipeMeetDietaryRestrictions(recipe, relaxedPreferences);
+        const relaxedRecipes = await fetchRandomRecipes(count * 4, {
+          excludeUserIds,
+          dietary: { dietStyle: preferences.dietStyle },
+          tasteVector,
         });
+        // Don't include recipes we already have
+        const additionalRecipes = relaxedRecipes.filter(
+          (recipe) => !recipes.find((r) => r.id === recipe.id)
+        );
         recipes.push(...additionalRecipes);
         console.log(
           `   Added ${additionalRecipes.length} more recipes (total: ${recipes.length})`
@@ -231,14 +200,15 @@ export async function GET(request: NextRequest) {
         console.log(
           "📍 Step 3: Still not enough, including user's own recipes"
         );
-        const ownRecipes = await fetchRandomRecipes(count * 2, []);
-        const ownFiltered = ownRecipes
-          .filter((recipe) => recipe.userId === currentUserId)
-          .filter((recipe) => {
-            // Don't include recipes we already have
-            if (recipes.find((r) => r.id === recipe.id)) return false;
-            return doesRecipeMeetDietaryRestrictions(recipe, preferences!);
-          });
+        const ownRecipes = await fetchRandomRecipes(count * 2, {
+          onlyUserId: currentUserId,
+          dietary: preferences,
+          tasteVector,
+        });
+        // Don't include recipes we already have
+        const ownFiltered = ownRecipes.filter(
+          (recipe) => !recipes.find((r) => r.id === recipe.id)
+        );
         recipes.push(...ownFiltered);
         console.log(
           `   Added ${ownFiltered.length} of user's own recipes (total: ${recipes.length})`
@@ -248,7 +218,9 @@ export async function GET(request: NextRequest) {
       // Step 4: If still not enough, add random unfiltered recipes as last resort
       if (recipes.length < count) {
         console.log("📍 Step 4: Still not enough, adding unfiltered recipes");
-        const fallbackRecipes = await fetchRandomRecipes(count * 2, []);
+        const fallbackRecipes = await fetchRandomRecipes(count * 2, {
+          tasteVector,
+        });
         const additionalUnfiltered = fallbackRecipes.filter(
           (recipe) => !recipes.find((r) => r.id === recipe.id)
         );
@@ -261,7 +233,10 @@ export async function GET(request: NextRequest) {
       // No filtering needed, just get random recipes
       console.log("📍 No filtering needed, fetching random recipes");
       const excludeUserIds = currentUserId ? [currentUserId] : [];
-      recipes = await fetchRandomRecipes(count, excludeUserIds);
+      recipes = await fetchRandomRecipes(count, {
+        excludeUserIds,
+        tasteVector,
+      });
       console.log(`   Found ${recipes.length} random recipes`);
     }
 
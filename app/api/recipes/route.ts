@@ -4,6 +4,9 @@ import { requireAuth } from "@/lib/auth-utils";
 import { handleApiError } from "@/lib/api-errors";
 import { prisma } from "@/lib/prisma";
 import { publishRecipe } from "@/lib/recipe-publication";
+import { normalizeIngredients } from "@/lib/unit-utils";
+import { getRecipeNutritionFields } from "@/lib/nutrition-utils";
+import { getRecipeClassificationFields } from "@/lib/allergen-utils";
 
 const createRecipeSchema = z.object({
   title: z.string().min(1),
@@ -47,10 +50,12 @@ export async function POST(request: NextRequest) {
         totalMinutes: data.totalMinutes || null,
         cuisine: data.cuisine || "Other",
         tags: (data.tags || null) as any,
-        ingredients: data.ingredients as any,
+        ingredients: normalizeIngredients(data.ingredients) as any,
         steps: (data.steps || null) as any,
         source: data.source || "manual",
         sourceUrl: data.sourceUrl || null,
+        ...getRecipeNutritionFields(data.ingredients, data.servings),
+        ...getRecipeClassificationFields(data.ingredients),
       },
     });
 
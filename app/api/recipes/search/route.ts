@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getOptionalAuth } from "@/lib/auth-utils";
+import { handleApiError, errors } from "@/lib/api-errors";
+import { searchRecipes } from "@/lib/recipe-search-utils";
+import { normalizeDietStyle } from "@/lib/allergen-utils";
+
+const searchSchema = z.object({
+  q: z.string().trim().min(1).max(200),
+  cuisine: z.string().max(50).optional(),
+  maxMinutes: z.coerce.number().int().positive().optional(),
+  diet: z.string().max(50).optional(),
+  scope: z.enum(["all", "mine", "friends", "public"]).default("all"),
+  limit: z.coerce.number().int().min(1).max(50).default(20),
+});
+
+// GET /api/recipes/search?q=shakshuka&cuisine=Middle%20Eastern&maxMinutes=30&diet=vegetarian&scope=friends
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await getOptionalAuth(request);
+    const { searchParams } = new URL(request.url);
+    const params = searchSchema.parse(
+      Object.fromEntries(
+        Array.from(searchParams.entries()).filter(([, value]) => value !== "")
+      )
+    );
+
+    if ((params.scope === "mine" || params.scope === "friends") && !auth) {
+      throw errors.unauthorized(
+        "Sign in to search your own or your friends' recipes"
+      );
+    }
+
+    const diet = params.diet ? normalizeDietStyle(params.diet) : undefined;
+    if (diet === null) {
+      throw errors.badRequest(`Unsupported diet: ${params.diet}`);
+    }
+
+    const recipes = await searchRecipes(params.q, {
+      filters: {
+        cuisine: params.cuisine,
+        maxMinutes: params.maxMinutes,
+        diet,
+        scope: params.scope,
+      },
+      viewerId: auth?.user?.id,
+      limit: params.limit,
+    });
+
+    return NextResponse.json({ recipes, query: params.q });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { handleApiError } from "@/lib/api-errors";
+import { getTrendingByCuisine, getTrendingRecipes } from "@/lib/trending-utils";
+
+const trendingSchema = z.object({
+  cuisine: z.string().max(50).optional(),
+  byCuisine: z
+    .enum(["true", "false"])
+    .transform((value) => value === "true")
+    .optional(),
+  limit: z.coerce.number().int().min(1).max(50).optional(),
+});
+
+// GET /api/recipes/trending?cuisine=Italian&limit=20
+// GET /api/recipes/trending?byCuisine=true&limit=5
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const params = trendingSchema.parse(
+      Object.fromEntries(
+        Array.from(searchParams.entries()).filter(([, value]) => value !== "")
+      )
+    );
+
+    if (params.byCuisine) {
+      return NextResponse.json(
+        await getTrendingByCuisine({ limit: params.limit })
+      );
+    }
+
+    return NextResponse.json(
+      await getTrendingRecipes({ cuisine: params.cuisine, limit: params.limit })
+    );
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -3,9 +3,27 @@ import { z } from "zod";
 import { requireAuth } from "@/lib/auth-utils";
 import { handleApiError } from "@/lib/api-errors";
 import { prisma } from "@/lib/prisma";
-import type { SyncPayload, UserBackup } from "@/lib/types";
+import { applySyncPayload } from "@/lib/profile-sync-utils";
+import { replaceInventoryFromSync } from "@/lib/inventory-utils";
+import {
+  getServerProgress,
+  reconcileProgressSections,
+} from "@/lib/achievement-utils";
+import {
+  getServerTokenState,
+  reconcileTokenState,
+} from "@/lib/token-ledger-utils";
+import {
+  buildBackupCursor,
+  cursorFromSince,
+  decodeSyncCursor,
+  getSyncDelta,
+  mapRecipeForSync,
+} from "@/lib/sync-delta-utils";
+import type { InventoryItem, SyncPayload, UserBackup } from "@/lib/types";
 
 const syncPayloadSchema = z.object({
+  baseVersion: z.number().int().nonnegative().optional(),
   chefIntake: z.any().optional(),
   inventory: z.array(z.any()).optional(),
   mealPlans: z.record(z.string(), z.any()).optional(),
@@ -21,63 +39,73 @@ export async function POST(request: NextRequest) {
     const { user } = await requireAuth(request);
 
     const body = await request.json();
-    const payload: SyncPayload = syncPayloadSchema.parse(body);
+    const { baseVersion, ...payload }: SyncPayload =
+      syncPayloadSchema.parse(body);
 
-    // Fetch or create user profile
-    let profile = await prisma.userProfile.findUnique({
-      where: { userId: user.id },
-    });
+    // Streaks, achievements and token balances are derived from server
+    // records; whatever the device reports is replaced before it's stored
+    const [progress, tokenState] = await Promise.all([
+      payload.achievements !== undefined || payload.streaks !== undefined
+        ? getServerProgress(user.id)
+        : null,
+      payload.tokenState !== undefined ? getServerTokenState(user.id) : null,
+    ]);
 
-    if (!profile) {
-      profile = await prisma.userProfile.create({
-        data: {
-          userId: user.id,
-        },
-      });
-    }
-
-    // Merge logic: Device data takes precedence (device is source of truth)
-    const updatedProfile = await prisma.userProfile.update({
-      where: { userId: user.id },
-      data: {
-        chefIntake: payload.chefIntake
-          ? (payload.chefIntake as any)
-          : profile.chefIntake,
-        inventory: payload.inventory
-          ? (payload.inventory as any)
-          : profile.inventory,
-        mealPlans: payload.mealPlans
-          ? (payload.mealPlans as any)
-          : profile.mealPlans,
-        groceryList: payload.groceryList
-          ? (payload.groceryList as any)
-          : profile.groceryList,
-        achievements: payload.achievements
-          ? (payload.achievements as any)
-          : profile.achievements,
-        streaks: payload.streaks ? (payload.streaks as any) : profile.streaks,
-        tokenState: payload.tokenState
-          ? (payload.tokenState as any)
-          : profile.tokenState,
-        lastSyncedAt: new Date(),
-        syncVersion: profile.syncVersion + 1,
+    const { response } = await applySyncPayload(user.id, payload, baseVersion, {
+      ...(progress || tokenState
+        ? {
+            reconcile: (merged) => {
+              const withProgress = progress
+                ? reconcileProgressSections(merged, progress)
+                : { sections: merged, changed: false };
+              const withTokens = tokenState
+                ? reconcileTokenState(withProgress.sections, tokenState)
+                : { sections: withProgress.sections, changed: false };
+              return {
+                sections: withTokens.sections,
+                changed: withProgress.changed || withTokens.changed,
+              };
+            },
+          }
+        : {}),
+      // Keep the queryable inventory table in step with the synced blob
+      write: async (tx, sections) => {
+        if (sections.inventory !== undefined) {
+          await replaceInventoryFromSync(
+            tx,
+            user.id,
+            sections.inventory as InventoryItem[]
+          );
+        }
       },
     });
 
-    return NextResponse.json({
-      syncedAt: updatedProfile.lastSyncedAt?.toISOString(),
-      version: updatedProfile.syncVersion,
-    });
+    return NextResponse.json(response);
   } catch (error) {
     return handleApiError(error);
   }
 }
 
-// GET /api/sync - Download full user backup
+// GET /api/sync - Download full user backup, or only changes since a cursor
+// Query: ?cursor=<from previous response> or ?since=<ISO timestamp>
 export async function GET(request: NextRequest) {
   try {
     const { user } = await requireAuth(request);
 
+    const { searchParams } = new URL(request.url);
+    const cursorParam = searchParams.get("cursor");
+    const sinceParam = searchParams.get("since");
+
+    if (cursorParam || sinceParam) {
+      const cursor = cursorParam
+        ? decodeSyncCursor(cursorParam)
+        : cursorFromSince(sinceParam!);
+      const delta = await getSyncDelta(user.id, cursor);
+      return NextResponse.json(delta);
+    }
+
+    const startedAt = new Date();
+
     // Fetch user profile
     const profile = await prisma.userProfile.findUnique({
       where: { userId: user.id },
@@ -101,19 +129,8 @@ export async function GET(request: NextRequest) {
         lastSyncedAt: profile?.lastSyncedAt?.toISOString(),
         syncVersion: profile?.syncVersion ?? 0,
       },
-      recipes: recipes.map((recipe) => ({
-        id: recipe.id,
-        title: recipe.title,
-        description: recipe.description ?? undefined,
-        servings: recipe.servings ?? undefined,
-        totalMinutes: recipe.totalMinutes ?? undefined,
-        tags: recipe.tags as any,
-        ingredients: recipe.ingredients as any,
-        steps: recipe.steps as any,
-        source: recipe.source ?? undefined,
-        createdAt: recipe.createdAt.toISOString(),
-        updatedAt: recipe.updatedAt.toISOString(),
-      })),
+      recipes: recipes.map(mapRecipeForSync),
+      cursor: buildBackupCursor(profile?.syncVersion ?? 0, recipes, startedAt),
     };
 
     return NextResponse.json(backup);
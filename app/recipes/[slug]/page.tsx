@@ -1,4 +1,5 @@
 import type { Metadata } from "next";
+import Link from "next/link";
 import { notFound } from "next/navigation";
 import { getRequestBaseUrl } from "@/lib/request-helpers";
 
@@ -21,6 +22,14 @@ interface PublicRecipePayload {
     displayName: string | null;
     bio: string | null;
   };
+  attribution: {
+    adaptedFrom: {
+      title: string;
+      slug: string | null;
+      author: { id: string; displayName: string | null };
+    } | null;
+    originalAuthor: { id: string; displayName: string | null } | null;
+  } | null;
 }
 
 async function fetchRecipe(slug: string): Promise<PublicRecipePayload> {
@@ -74,6 +83,51 @@ function renderList(items: unknown): string[] {
   return [];
 }
 
+function AdaptedFrom({
+  attribution,
+}: {
+  attribution: NonNullable<PublicRecipePayload["attribution"]>;
+}) {
+  const { adaptedFrom, originalAuthor } = attribution;
+
+  if (adaptedFrom) {
+    const parentAuthor = adaptedFrom.author.displayName || "Personal Chef user";
+    return (
+      <p className="mt-1 text-xs text-zinc-500">
+        Adapted from{" "}
+        {adaptedFrom.slug ? (
+          <Link
+            href={`/recipes/${adaptedFrom.slug}`}
+            className="font-medium text-pink-500 hover:underline"
+          >
+            {adaptedFrom.title}
+          </Link>
+        ) : (
+          <span className="font-medium">{adaptedFrom.title}</span>
+        )}{" "}
+        by {parentAuthor}
+        {originalAuthor && originalAuthor.id !== adaptedFrom.author.id && (
+          <>
+            {" "}
+            · original by {originalAuthor.displayName || "Personal Chef user"}
+          </>
+        )}
+      </p>
+    );
+  }
+
+  if (originalAuthor) {
+    return (
+      <p className="mt-1 text-xs text-zinc-500">
+        Adapted from a recipe by{" "}
+        {originalAuthor.displayName || "Personal Chef user"}
+      </p>
+    );
+  }
+
+  return null;
+}
+
 export default async function PublicRecipePage({
   params,
 }: {
@@ -103,6 +157,9 @@ export default async function PublicRecipePage({
           <p className="text-lg text-zinc-600">{payload.recipe.description}</p>
           <div className="rounded-2xl bg-zinc-50 px-4 py-3 text-sm text-zinc-600">
             By {payload.author.displayName || "Personal Chef user"}
+            {payload.attribution && (
+              <AdaptedFrom attribution={payload.attribution} />
+            )}
           </div>
         </div>
 
@@ -0,0 +1,419 @@
+import { prisma } from "./prisma";
+import { AiEndpoint } from "./ai-usage-utils";
+import { creditTokens, TOKEN_REWARDS } from "./token-ledger-utils";
+import type { ProfileSections } from "./sync-utils";
+import type {
+  Achievement,
+  AchievementCategory,
+  Achievements,
+  StreakData,
+  Streaks,
+} from "./types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Cooking streaks count days, planning streaks count weeks (Monday start).
+// Both use UTC; a streak survives until a whole period passes without activity.
+export type StreakPeriod = "day" | "week";
+
+// What achievement rules measure, all derived from server-side records
+export interface ProgressStats {
+  recipes: number;
+  posts: number;
+  mealPlans: number;
+  cooks: number;
+  distinctRecipesCooked: number;
+  inventoryItems: number;
+  bestCookingStreak: number;
+  bestMealPlanStreak: number;
+}
+
+export interface AchievementRule {
+  id: string;
+  name: string;
+  description: string;
+  icon: string;
+  category: AchievementCategory;
+  metric: keyof ProgressStats;
+  target: number;
+}
+
+export const ACHIEVEMENT_RULES: AchievementRule[] = [
+  {
+    id: "first_recipe",
+    name: "Recipe Box",
+    description: "Save your first recipe",
+    icon: "📖",
+    category: "GETTING_STARTED",
+    metric: "recipes",
+    target: 1,
+  },
+  {
+    id: "first_meal_plan",
+    name: "Planner",
+    description: "Create your first meal plan",
+    icon: "🗓️",
+    category: "GETTING_STARTED",
+    metric: "mealPlans",
+    target: 1,
+  },
+  {
+    id: "first_cook",
+    name: "First Dish",
+    description: "Cook your first recipe",
+    icon: "🍳",
+    category: "GETTING_STARTED",
+    metric: "cooks",
+    target: 1,
+  },
+  {
+    id: "first_post",
+    name: "Show and Tell",
+    description: "Share your first cooking post",
+    icon: "📸",
+    category: "GETTING_STARTED",
+    metric: "posts",
+    target: 1,
+  },
+  {
+    id: "cooked_10",
+    name: "Home Cook",
+    description: "Cook 10 meals",
+    icon: "🥘",
+    category: "COOKING",
+    metric: "cooks",
+    target: 10,
+  },
+  {
+    id: "cooked_50",
+    name: "Kitchen Regular",
+    description: "Cook 50 meals",
+    icon: "👩‍🍳",
+    category: "COOKING",
+    metric: "cooks",
+    target: 50,
+  },
+  {
+    id: "recipe_explorer",
+    name: "Explorer",
+    description: "Cook 25 different recipes",
+    icon: "🧭",
+    category: "COOKING",
+    metric: "distinctRecipesCooked",
+    target: 25,
+  },
+  {
+    id: "planned_5",
+    name: "Organized",
+    description: "Create 5 meal plans",
+    icon: "📋",
+    category: "PLANNING",
+    metric: "mealPlans",
+    target: 5,
+  },
+  {
+    id: "planned_25",
+    name: "Master Planner",
+    description: "Create 25 meal plans",
+    icon: "🗂️",
+    category: "PLANNING",
+    metric: "mealPlans",
+    target: 25,
+  },
+  {
+    id: "stocked_pantry",
+    name: "Stocked Pantry",
+    description: "Track 20 items in your inventory",
+    icon: "🥫",
+    category: "INVENTORY",
+    metric: "inventoryItems",
+    target: 20,
+  },
+  {
+    id: "cooking_streak_7",
+    name: "On a Roll",
+    description: "Cook 7 days in a row",
+    icon: "🔥",
+    category: "STREAK",
+    metric: "bestCookingStreak",
+    target: 7,
+  },
+  {
+    id: "cooking_streak_30",
+    name: "Unstoppable",
+    description: "Cook 30 days in a row",
+    icon: "🏆",
+    category: "STREAK",
+    metric: "bestCookingStreak",
+    target: 30,
+  },
+  {
+    id: "planning_streak_4",
+    name: "Routine",
+    description: "Plan meals 4 weeks in a row",
+    icon: "📆",
+    category: "STREAK",
+    metric: "bestMealPlanStreak",
+    target: 4,
+  },
+  {
+    id: "planning_streak_12",
+    name: "Creature of Habit",
+    description: "Plan meals 12 weeks in a row",
+    icon: "⭐",
+    category: "STREAK",
+    metric: "bestMealPlanStreak",
+    target: 12,
+  },
+];
+
+// 1970-01-01 was a Thursday; shifting by 3 days puts week starts on Monday
+function periodIndex(date: Date, period: StreakPeriod): number {
+  const day = Math.floor(date.getTime() / DAY_MS);
+  return period === "day" ? day : Math.floor((day + 3) / 7);
+}
+
+function periodStart(index: number, period: StreakPeriod): Date {
+  return new Date((period === "day" ? index : index * 7 - 3) * DAY_MS);
+}
+
+/**
+ * Streak stats from the times something happened
+ * The current streak stays alive through the period after the last
+ * activity; a run counts as broken once a whole period is missed.
+ */
+export function computeStreak(
+  events: Date[],
+  period: StreakPeriod,
+  now: Date
+): StreakData {
+  const buckets = [
+    ...new Set(events.map((date) => periodIndex(date, period))),
+  ].sort((a, b) => a - b);
+
+  const runs: Array<{ start: number; end: number }> = [];
+  for (const bucket of buckets) {
+    const last = runs[runs.length - 1];
+    if (last && bucket === last.end + 1) {
+      last.end = bucket;
+    } else {
+      runs.push({ start: bucket, end: bucket });
+    }
+  }
+
+  const length = (run: { start: number; end: number }) =>
+    run.end - run.start + 1;
+  const latest = runs[runs.length - 1];
+  const alive = !!latest && latest.end >= periodIndex(now, period) - 1;
+  const broken = alive ? runs[runs.length - 2] : latest;
+  const lastActivity = events.reduce<Date | null>(
+    (max, date) => (!max || date > max ? date : max),
+    null
+  );
+
+  return {
+    currentStreak: alive ? length(latest) : 0,
+    bestStreak: runs.reduce((max, run) => Math.max(max, length(run)), 0),
+    lastActivityDate: lastActivity?.toISOString() ?? null,
+    totalCount: events.length,
+    lastBrokenStreak: broken ? length(broken) : 0,
+    brokenAt: broken ? periodStart(broken.end + 2, period).toISOString() : null,
+  };
+}
+
+/**
+ * Progress on every rule; earlier unlocks keep their original time
+ */
+export function evaluateAchievements(
+  stats: ProgressStats,
+  unlocked: Map<string, Date>,
+  now: Date
+): Achievements {
+  const achievements: Achievements = {};
+
+  for (const rule of ACHIEVEMENT_RULES) {
+    const progress = Math.min(stats[rule.metric], rule.target);
+    const unlockedAt =
+      unlocked.get(rule.id) ?? (progress >= rule.target ? now : undefined);
+
+    const achievement: Achievement = {
+      id: rule.id,
+      name: rule.name,
+      description: rule.description,
+      icon: rule.icon,
+      category: rule.category,
+      progress: unlockedAt ? rule.target : progress,
+      target: rule.target,
+      ...(unlockedAt ? { unlockedAt: unlockedAt.toISOString() } : {}),
+    };
+    achievements[rule.id] = achievement;
+  }
+
+  return achievements;
+}
+
+/**
+ * Achievements reached now that weren't stored yet; each earns a reward
+ */
+export function getNewlyUnlocked(
+  achievements: Achievements,
+  unlocked: Map<string, Date>
+): string[] {
+  return Object.values(achievements)
+    .filter(
+      (achievement) => achievement.unlockedAt && !unlocked.has(achievement.id)
+    )
+    .map((achievement) => achievement.id);
+}
+
+/**
+ * Overwrite the device's copy of server-tracked progress after a sync merge
+ * Achievements the server doesn't define are left as the device sent them.
+ */
+export function reconcileProgressSections(
+  sections: ProfileSections,
+  server: { achievements: Achievements; streaks: Streaks }
+): { sections: ProfileSections; changed: boolean } {
+  const reconciled = { ...sections };
+
+  if (sections.achievements !== undefined) {
+    const device =
+      typeof sections.achievements === "object" && sections.achievements
+        ? (sections.achievements as Achievements)
+        : {};
+    reconciled.achievements = { ...device, ...server.achievements };
+  }
+  if (sections.streaks !== undefined) {
+    reconciled.streaks = server.streaks;
+  }
+
+  const changed =
+    JSON.stringify(reconciled.achievements) !==
+      JSON.stringify(sections.achievements) ||
+    JSON.stringify(reconciled.streaks) !== JSON.stringify(sections.streaks);
+
+  return { sections: reconciled, changed };
+}
+
+/**
+ * Streaks and achievements derived from the user's recorded activity
+ * Newly reached achievements are stored so their unlock time is fixed, and
+ * earn their token reward.
+ */
+export async function getServerProgress(
+  userId: string,
+  now: Date = new Date()
+): Promise<{
+  achievements: Achievements;
+  streaks: Streaks;
+  newlyUnlocked: string[];
+}> {
+  const [
+    recipes,
+    posts,
+    inventoryItems,
+    cooks,
+    mealPlans,
+    mealPlanGenerations,
+    unlockedRows,
+  ] = await Promise.all([
+    prisma.recipe.count({ where: { userId } }),
+    prisma.recipePost.count({ where: { userId } }),
+    prisma.inventoryItem.count({ where: { userId } }),
+    prisma.cookEvent.findMany({
+      where: { userId },
+      select: { recipeId: true, cookedAt: true },
+    }),
+    prisma.mealPlan.findMany({
+      where: { userId },
+      select: { createdAt: true },
+    }),
+    // AI-generated weekly plans live in the profile blob, not MealPlan
+    prisma.aiUsage.findMany({
+      where: { userId, endpoint: AiEndpoint.MEAL_PLAN },
+      select: { createdAt: true },
+    }),
+    prisma.userAchievement.findMany({
+      where: { userId },
+      select: { achievementId: true, unlockedAt: true },
+    }),
+  ]);
+
+  const planningEvents = [...mealPlans, ...mealPlanGenerations].map(
+    (plan) => plan.createdAt
+  );
+  const streaks: Streaks = {
+    mealPlanStreak: computeStreak(planningEvents, "week", now),
+    cookingStreak: computeStreak(
+      cooks.map((cook) => cook.cookedAt),
+      "day",
+      now
+    ),
+  };
+
+  const unlocked = new Map(
+    unlockedRows.map((row) => [row.achievementId, row.unlockedAt])
+  );
+  const achievements = evaluateAchievements(
+    {
+      recipes,
+      posts,
+      mealPlans: planningEvents.length,
+      cooks: cooks.length,
+      distinctRecipesCooked: new Set(cooks.map((cook) => cook.recipeId)).size,
+      inventoryItems,
+      bestCookingStreak: streaks.cookingStreak.bestStreak,
+      bestMealPlanStreak: streaks.mealPlanStreak.bestStreak,
+    },
+    unlocked,
+    now
+  );
+
+  const newlyUnlocked = getNewlyUnlocked(achievements, unlocked);
+
+  if (newlyUnlocked.length > 0) {
+    await prisma.userAchievement.createMany({
+      data: newlyUnlocked.map((achievementId) => ({
+        userId,
+        achievementId,
+        unlockedAt: now,
+      })),
+      skipDuplicates: true,
+    });
+
+    // Keyed per achievement, so a reward is only ever paid once
+    for (const achievementId of newlyUnlocked) {
+      await creditTokens(userId, {
+        amount: TOKEN_REWARDS.achievement,
+        type: "achievement",
+        description: `Unlocked ${achievements[achievementId].name}`,
+        relatedId: achievementId,
+        idempotencyKey: `achievement:${achievementId}`,
+      });
+    }
+  }
+
+  return { achievements, streaks, newlyUnlocked };
+}
+
+/**
+ * Move a guest's unlocked achievements to the account they signed in to
+ * The guest's rewards come over with its token balance, so without these
+ * rows the account would unlock (and be paid for) them again. Ones the
+ * account already has keep its unlock time.
+ */
+export async function transferAchievements(
+  fromUserId: string,
+  toUserId: string
+): Promise<void> {
+  const rows = await prisma.userAchievement.findMany({
+    where: { userId: fromUserId },
+    select: { achievementId: true, unlockedAt: true },
+  });
+  if (rows.length === 0) return;
+
+  await prisma.userAchievement.createMany({
+    data: rows.map((row) => ({ ...row, userId: toUserId })),
+    skipDuplicates: true,
+  });
+}
@@ -0,0 +1,155 @@
+import { prisma } from "./prisma";
+import { errors } from "./api-errors";
+import type { AiQuotaOverride } from "@prisma/client";
+import {
+  AiEndpoint,
+  DEFAULT_QUOTA_PLANS,
+  getUserQuotas,
+  QUOTA_PLANS,
+  resolveQuotaRules,
+  type QuotaPlanName,
+  type QuotaRule,
+  type QuotaWindow,
+} from "./ai-usage-utils";
+
+export interface QuotaPlanEntry extends QuotaRule {
+  plan: QuotaPlanName;
+  endpoint: AiEndpoint;
+  isDefault: boolean; // No stored row; the built-in default applies
+}
+
+export interface QuotaOverrideInput {
+  limit?: number | null;
+  unlimited?: boolean;
+  window?: QuotaWindow | null;
+  windowDays?: number | null;
+  tokenCost?: number | null;
+  note?: string | null;
+}
+
+/**
+ * The quota table for every plan and endpoint
+ */
+export async function listQuotaPlans(): Promise<QuotaPlanEntry[]> {
+  const rows = await prisma.aiQuotaPlan.findMany();
+
+  return QUOTA_PLANS.flatMap((plan) => {
+    const planRows = rows.filter((row) => row.plan === plan);
+    const rules = resolveQuotaRules(plan, planRows);
+
+    return Object.values(AiEndpoint).map((endpoint) => ({
+      plan,
+      endpoint,
+      ...rules[endpoint],
+      isDefault: !planRows.some((row) => row.endpoint === endpoint),
+    }));
+  });
+}
+
+export async function setQuotaPlan(
+  plan: QuotaPlanName,
+  endpoint: AiEndpoint,
+  rule: QuotaRule
+): Promise<QuotaPlanEntry> {
+  const data = {
+    limit: rule.limit,
+    window: rule.window,
+    windowDays: rule.window === "rolling" ? rule.windowDays : null,
+    tokenCost: rule.tokenCost,
+  };
+
+  await prisma.aiQuotaPlan.upsert({
+    where: { plan_endpoint: { plan, endpoint } },
+    create: { plan, endpoint, ...data },
+    update: data,
+  });
+
+  return { plan, endpoint, ...data, isDefault: false };
+}
+
+/**
+ * Drop a stored plan row so the endpoint goes back to the default
+ */
+export async function resetQuotaPlan(
+  plan: QuotaPlanName,
+  endpoint: AiEndpoint
+): Promise<QuotaPlanEntry> {
+  await prisma.aiQuotaPlan.deleteMany({ where: { plan, endpoint } });
+
+  return {
+    plan,
+    endpoint,
+    ...DEFAULT_QUOTA_PLANS[plan][endpoint],
+    isDefault: true,
+  };
+}
+
+async function ensureUserExists(userId: string) {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { id: true },
+  });
+
+  if (!user) {
+    throw errors.notFound("User not found");
+  }
+}
+
+/**
+ * A user's overrides alongside the quotas they end up with
+ */
+export async function getUserQuotaOverrides(userId: string): Promise<{
+  overrides: AiQuotaOverride[];
+  quotas: Record<AiEndpoint, QuotaRule>;
+}> {
+  await ensureUserExists(userId);
+
+  const [overrides, quotas] = await Promise.all([
+    prisma.aiQuotaOverride.findMany({
+      where: { userId },
+      orderBy: { endpoint: "asc" },
+    }),
+    getUserQuotas(userId),
+  ]);
+
+  return { overrides, quotas };
+}
+
+/**
+ * Create or replace a user's override for one endpoint
+ */
+export async function setQuotaOverride(
+  userId: string,
+  endpoint: AiEndpoint,
+  input: QuotaOverrideInput
+): Promise<AiQuotaOverride> {
+  await ensureUserExists(userId);
+
+  const data = {
+    limit: input.unlimited ? null : (input.limit ?? null),
+    unlimited: input.unlimited ?? false,
+    window: input.window ?? null,
+    windowDays: input.windowDays ?? null,
+    tokenCost: input.tokenCost ?? null,
+    note: input.note ?? null,
+  };
+
+  return prisma.aiQuotaOverride.upsert({
+    where: { userId_endpoint: { userId, endpoint } },
+    create: { userId, endpoint, ...data },
+    update: data,
+  });
+}
+
+export async function deleteQuotaOverride(
+  userId: string,
+  endpoint: AiEndpoint
+): Promise<void> {
+  const { count } = await prisma.aiQuotaOverride.deleteMany({
+    where: { userId, endpoint },
+  });
+
+  if (count === 0) {
+    throw errors.notFound("Override not found");
+  }
+}
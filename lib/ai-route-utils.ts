@@ -0,0 +1,146 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { z } from "zod";
+import { requireAuth } from "./auth-utils";
+import { handleApiError } from "./api-errors";
+import { AiEndpoint, checkEndpointLimit, trackAiUsage } from "./ai-usage-utils";
+import type { TokenTransaction } from "@prisma/client";
+import { refundTokensForAi, spendTokensForAi } from "./token-ledger-utils";
+
+type AiRouteUser = Awaited<ReturnType<typeof requireAuth>>["user"];
+
+export interface AiRouteOptions<T> {
+  endpoint: AiEndpoint;
+  schema: z.ZodType<T>;
+  limitMessage: string; // Error shown once the quota is used up
+  // Answer the request without charging for it, e.g. for input with nothing to process
+  beforeCharge?: (payload: T) => Response | null | undefined;
+}
+
+export interface AiRouteContext<T> {
+  request: NextRequest;
+  user: AiRouteUser;
+  payload: T;
+  usedTokens: boolean; // True if this request was paid for with tokens
+  tokensUsed: number;
+  skipUsage: () => void; // Neither count nor charge for a fallback response
+}
+
+function aiErrorResponse(
+  status: number,
+  error: string,
+  code: string,
+  details: Record<string, unknown>
+) {
+  return NextResponse.json({ error, code, details }, { status });
+}
+
+/**
+ * Wrap an AI route handler with auth, quota and token checks
+ * Requests that send `tokensToUse` are charged the endpoint's token cost
+ * instead of counting against the quota. Usage is only tracked when the
+ * handler succeeds; otherwise the tokens are refunded.
+ */
+export function withAiRoute<T extends { tokensToUse?: number }>(
+  options: AiRouteOptions<T>,
+  handler: (context: AiRouteContext<T>) => Promise<Response>
+) {
+  const { endpoint, schema, limitMessage, beforeCharge } = options;
+
+  return async (request: NextRequest): Promise<Response> => {
+    try {
+      const { user } = await requireAuth(request);
+
+      const body = await request.json();
+      const payload = schema.parse(body);
+
+      const early = beforeCharge?.(payload);
+      if (early) {
+        return early;
+      }
+
+      // The user's quota decides both the limit and the price of going past it
+      const limitCheck = await checkEndpointLimit(user.id, endpoint);
+      const { tokenCost } = limitCheck;
+      let usedTokens = false;
+      let charge: TokenTransaction | null = null;
+
+      if (payload.tokensToUse !== undefined) {
+        if (payload.tokensToUse !== tokenCost) {
+          return aiErrorResponse(
+            400,
+            "Invalid token amount",
+            "INVALID_TOKEN_AMOUNT",
+            {
+              required: tokenCost,
+              provided: payload.tokensToUse,
+            }
+          );
+        }
+
+        // Retries that resend the Idempotency-Key header aren't charged twice
+        const debit = await spendTokensForAi(
+          user.id,
+          endpoint,
+          tokenCost,
+          request.headers.get("Idempotency-Key")
+        );
+
+        if (!debit.ok) {
+          return aiErrorResponse(
+            402,
+            "Insufficient tokens",
+            "INSUFFICIENT_TOKENS",
+            {
+              required: tokenCost,
+              currentBalance: debit.balance,
+            }
+          );
+        }
+
+        // Only the request that made the charge may refund it
+        charge = debit.replayed ? null : debit.transaction;
+        usedTokens = true;
+      } else if (!limitCheck.allowed) {
+        return aiErrorResponse(429, limitMessage, "LIMIT_EXCEEDED", {
+          limit: limitCheck.limit,
+          used: limitCheck.used,
+          remaining: limitCheck.remaining,
+          resetsAt: limitCheck.resetsAt,
+          isLifetime: limitCheck.window === "lifetime",
+          tokenCost, // Inform user about token option
+        });
+      }
+
+      let countUsage = true;
+      let response: Response;
+      try {
+        response = await handler({
+          request,
+          user,
+          payload,
+          usedTokens,
+          tokensUsed: usedTokens ? tokenCost : 0,
+          skipUsage: () => {
+            countUsage = false;
+          },
+        });
+      } catch (error) {
+        if (charge) {
+          await refundTokensForAi(user.id, charge);
+        }
+        throw error;
+      }
+
+      if (response.ok && countUsage) {
+        await trackAiUsage(user.id, endpoint);
+      } else if (charge) {
+        // Failed and fallback responses aren't paid for either
+        await refundTokensForAi(user.id, charge);
+      }
+
+      return response;
+    } catch (error) {
+      return handleApiError(error);
+    }
+  };
+}
@@ -1,20 +1,5 @@
 import { prisma } from "./prisma";
-
-/**
- * Constants for AI usage limits
- */
-// Free user limits (lifetime)
-export const FREE_MEAL_PLAN_LIMIT = 3;
-export const FREE_ENDPOINT_LIMIT = 3; // Per endpoint
-export const FREE_CHAT_LIMIT = 25; // Higher limit for chat endpoint
-
-// Pro user limits
-export const PRO_MEAL_PLAN_LIMIT = 10; // Per 30-day rolling window
-export const PRO_ENDPOINT_LIMIT = Infinity; // Unlimited (but easy to change)
-
-// Token costs
-export const MEAL_PLAN_TOKEN_COST = 25; // Tokens required to bypass limit
-export const USAGE_WINDOW_DAYS = 30; // Rolling window for pro users only
+import type { AiQuotaOverride, AiQuotaPlan } from "@prisma/client";
 
 /**
  * AI endpoint identifiers
@@ -33,6 +18,70 @@ export enum AiEndpoint {
   PARSE_ONBOARDING_RESPONSE = "parse-onboarding-response",
 }
 
+export const QUOTA_PLANS = ["free", "pro"] as const;
+export type QuotaPlanName = (typeof QUOTA_PLANS)[number];
+
+// lifetime never resets, rolling counts the last windowDays days and
+// calendar counts the current month (UTC)
+export const QUOTA_WINDOWS = ["lifetime", "rolling", "calendar"] as const;
+export type QuotaWindow = (typeof QUOTA_WINDOWS)[number];
+
+/**
+ * How much of one endpoint a user gets
+ */
+export interface QuotaRule {
+  limit: number | null; // null = unlimited
+  window: QuotaWindow;
+  windowDays: number | null; // Only used by rolling windows
+  tokenCost: number; // Tokens that buy one request past the limit
+}
+
+// Used if a rolling window is stored without a length
+const DEFAULT_WINDOW_DAYS = 30;
+
+function quotaRules(
+  rule: QuotaRule,
+  exceptions: Partial<Record<AiEndpoint, QuotaRule>> = {}
+): Record<AiEndpoint, QuotaRule> {
+  return Object.fromEntries(
+    Object.values(AiEndpoint).map((endpoint) => [
+      endpoint,
+      exceptions[endpoint] ?? rule,
+    ])
+  ) as Record<AiEndpoint, QuotaRule>;
+}
+
+/**
+ * Quotas for any plan/endpoint without an AiQuotaPlan row
+ */
+export const DEFAULT_QUOTA_PLANS: Record<
+  QuotaPlanName,
+  Record<AiEndpoint, QuotaRule>
+> = {
+  free: quotaRules(
+    { limit: 3, window: "lifetime", windowDays: null, tokenCost: 25 },
+    {
+      [AiEndpoint.CHAT]: {
+        limit: 25,
+        window: "lifetime",
+        windowDays: null,
+        tokenCost: 25,
+      },
+    }
+  ),
+  pro: quotaRules(
+    { limit: null, window: "lifetime", windowDays: null, tokenCost: 25 },
+    {
+      [AiEndpoint.MEAL_PLAN]: {
+        limit: 10,
+        window: "rolling",
+        windowDays: 30,
+        tokenCost: 25,
+      },
+    }
+  ),
+};
+
 /**
  * Result of checking if user can use an endpoint
  */
@@ -42,8 +91,19 @@ export interface UsageLimitCheck {
   used: number;
   remaining: number;
   resetsAt: Date | null; // When the oldest usage will expire
+  window: QuotaWindow;
+  tokenCost: number;
 }
 
+type QuotaPlanRow = Pick<
+  AiQuotaPlan,
+  "endpoint" | "limit" | "window" | "windowDays" | "tokenCost"
+>;
+type QuotaOverrideRow = Pick<
+  AiQuotaOverride,
+  "endpoint" | "limit" | "unlimited" | "window" | "windowDays" | "tokenCost"
+>;
+
 /**
  * Track AI endpoint usage
  */
@@ -66,220 +126,86 @@ export async function trackAiUsage(
 }
 
 /**
- * Get the date for the start of the rolling window
+ * Layer a user's override onto their plan's rule
  */
-function getWindowStartDate(): Date {
-  const date = new Date();
-  date.setDate(date.getDate() - USAGE_WINDOW_DAYS);
-  return date;
-}
-
-/**
- * Get meal plan usage count for a user in the rolling window
- */
-export async function getMealPlanUsage(userId: string): Promise<number> {
-  const windowStart = getWindowStartDate();
-
-  const count = await prisma.aiUsage.count({
-    where: {
-      userId,
-      endpoint: AiEndpoint.MEAL_PLAN,
-      createdAt: {
-        gte: windowStart,
-      },
-    },
-  });
-
-  return count;
-}
-
-/**
- * Generic function to check endpoint limit based on user type
- */
-export async function checkEndpointLimit(
-  userId: string,
-  endpoint: AiEndpoint
-): Promise<UsageLimitCheck> {
-  // Fetch user's pro status
-  const user = await prisma.user.findUnique({
-    where: { id: userId },
-    select: { isPro: true },
-  });
-
-  if (!user) {
-    throw new Error("User not found");
-  }
-
-  const isPro = user.isPro;
-
-  // Pro users: unlimited for everything except meal plans
-  if (isPro && endpoint !== AiEndpoint.MEAL_PLAN) {
-    return {
-      allowed: true,
-      limit: Infinity,
-      used: 0,
-      remaining: Infinity,
-      resetsAt: null,
-    };
-  }
-
-  // Pro users for meal plans: 10 per 30 days
-  if (isPro && endpoint === AiEndpoint.MEAL_PLAN) {
-    const windowStart = getWindowStartDate();
-
-    const usages = await prisma.aiUsage.findMany({
-      where: {
-        userId,
-        endpoint: AiEndpoint.MEAL_PLAN,
-        createdAt: {
-          gte: windowStart,
-        },
-      },
-      orderBy: {
-        createdAt: "asc",
-      },
-      select: {
-        createdAt: true,
-      },
-    });
-
-    const used = usages.length;
-    const limit = PRO_MEAL_PLAN_LIMIT;
-    const remaining = Math.max(0, limit - used);
-    const allowed = used < limit;
-
-    // Calculate reset date (when oldest usage expires)
-    let resetsAt: Date | null = null;
-    if (usages.length > 0) {
-      const oldestUsage = usages[0].createdAt;
-      resetsAt = new Date(oldestUsage);
-      resetsAt.setDate(resetsAt.getDate() + USAGE_WINDOW_DAYS);
-    }
-
-    return {
-      allowed,
-      limit,
-      used,
-      remaining,
-      resetsAt,
-    };
+export function applyQuotaOverride(
+  rule: QuotaRule,
+  override: Omit<QuotaOverrideRow, "endpoint"> | null
+): QuotaRule {
+  if (!override) {
+    return rule;
   }
 
-  // Free users: lifetime limit of 3 for all endpoints
-  const lifetimeUsages = await prisma.aiUsage.findMany({
-    where: {
-      userId,
-      endpoint,
-    },
-    orderBy: {
-      createdAt: "asc",
-    },
-    select: {
-      createdAt: true,
-    },
-  });
-
-  const used = lifetimeUsages.length;
-  const limit = FREE_ENDPOINT_LIMIT;
-  const remaining = Math.max(0, limit - used);
-  const allowed = used < limit;
-
   return {
-    allowed,
-    limit,
-    used,
-    remaining,
-    resetsAt: null, // Lifetime limits never reset
+    limit: override.unlimited ? null : (override.limit ?? rule.limit),
+    window: (override.window as QuotaWindow | null) ?? rule.window,
+    windowDays: override.windowDays ?? rule.windowDays,
+    tokenCost: override.tokenCost ?? rule.tokenCost,
   };
 }
 
 /**
- * Check if user can generate a meal plan (within limit)
- */
-export async function checkMealPlanLimit(
-  userId: string
-): Promise<UsageLimitCheck> {
-  return checkEndpointLimit(userId, AiEndpoint.MEAL_PLAN);
-}
-
-/**
- * Check if user can generate a recipe (within limit)
- */
-export async function checkGenerateRecipeLimit(
-  userId: string
-): Promise<UsageLimitCheck> {
-  return checkEndpointLimit(userId, AiEndpoint.GENERATE_RECIPE);
-}
-
-/**
- * Check if user can replace a recipe (within limit)
- */
-export async function checkReplaceRecipeLimit(
-  userId: string
-): Promise<UsageLimitCheck> {
-  return checkEndpointLimit(userId, AiEndpoint.REPLACE_RECIPE);
-}
-
-/**
- * Check if user can parse a recipe (within limit)
+ * Every endpoint's rule for a plan: stored rows first, then the defaults,
+ * with the user's overrides on top
  */
-export async function checkParseRecipeLimit(
-  userId: string
-): Promise<UsageLimitCheck> {
-  return checkEndpointLimit(userId, AiEndpoint.PARSE_RECIPE);
+export function resolveQuotaRules(
+  plan: QuotaPlanName,
+  planRows: QuotaPlanRow[],
+  overrides: QuotaOverrideRow[] = []
+): Record<AiEndpoint, QuotaRule> {
+  return Object.fromEntries(
+    Object.values(AiEndpoint).map((endpoint) => {
+      const row = planRows.find((r) => r.endpoint === endpoint);
+      const rule: QuotaRule = row
+        ? {
+            limit: row.limit,
+            window: row.window as QuotaWindow,
+            windowDays: row.windowDays,
+            tokenCost: row.tokenCost,
+          }
+        : DEFAULT_QUOTA_PLANS[plan][endpoint];
+      const override = overrides.find((o) => o.endpoint === endpoint) ?? null;
+
+      return [endpoint, applyQuotaOverride(rule, override)];
+    })
+  ) as Record<AiEndpoint, QuotaRule>;
 }
 
 /**
- * Check if user can generate steps (within limit)
+ * Where the current window starts and when it resets
+ * A rolling window resets as its oldest use ages out, so that depends on
+ * usage and isn't known here.
  */
-export async function checkGenerateStepsLimit(
-  userId: string
-): Promise<UsageLimitCheck> {
-  return checkEndpointLimit(userId, AiEndpoint.GENERATE_STEPS);
-}
-
-/**
- * Check if user can parse pantry (within limit)
- */
-export async function checkParsePantryLimit(
-  userId: string
-): Promise<UsageLimitCheck> {
-  return checkEndpointLimit(userId, AiEndpoint.PARSE_PANTRY);
-}
-
-/**
- * Check if user can use chat instruction (within limit)
- */
-export async function checkChatInstructionLimit(
-  userId: string
-): Promise<UsageLimitCheck> {
-  return checkEndpointLimit(userId, AiEndpoint.CHAT_INSTRUCTION);
-}
-
-/**
- * Check if user can use explain instruction (within limit)
- */
-export async function checkExplainInstructionLimit(
-  userId: string
-): Promise<UsageLimitCheck> {
-  return checkEndpointLimit(userId, AiEndpoint.EXPLAIN_INSTRUCTION);
-}
-
-/**
- * Check chat chef limit for user
- */
-export async function checkChatChefLimit(
-  userId: string
-): Promise<UsageLimitCheck> {
-  return checkEndpointLimit(userId, AiEndpoint.CHAT_CHEF);
+export function getQuotaWindow(
+  rule: QuotaRule,
+  now: Date
+): { start: Date | null; resetsAt: Date | null } {
+  switch (rule.window) {
+    case "rolling": {
+      const days = rule.windowDays ?? DEFAULT_WINDOW_DAYS;
+      return {
+        start: new Date(now.getTime() - days * 24 * 60 * 60 * 1000),
+        resetsAt: null,
+      };
+    }
+    case "calendar":
+      return {
+        start: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)),
+        resetsAt: new Date(
+          Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1)
+        ),
+      };
+    default:
+      return { start: null, resetsAt: null };
+  }
 }
 
 /**
- * Check chat limit for user (higher free limit of 25)
+ * The quota rules that apply to a user, by endpoint
  */
-export async function checkChatLimit(
+export async function getUserQuotas(
   userId: string
-): Promise<UsageLimitCheck> {
+): Promise<Record<AiEndpoint, QuotaRule>> {
   // Fetch user's pro status
   const user = await prisma.user.findUnique({
     where: { id: userId },
@@ -290,198 +216,120 @@ export async function checkChatLimit(
     throw new Error("User not found");
   }
 
-  const isPro = user.isPro;
+  const plan: QuotaPlanName = user.isPro ? "pro" : "free";
+  const [planRows, overrides] = await Promise.all([
+    prisma.aiQuotaPlan.findMany({ where: { plan } }),
+    prisma.aiQuotaOverride.findMany({ where: { userId } }),
+  ]);
+
+  return resolveQuotaRules(plan, planRows, overrides);
+}
 
-  // Pro users: unlimited
-  if (isPro) {
+/**
+ * Count a user's usage of an endpoint against a rule
+ */
+async function checkUsageAgainstRule(
+  userId: string,
+  endpoint: AiEndpoint,
+  rule: QuotaRule,
+  now: Date
+): Promise<UsageLimitCheck> {
+  if (rule.limit === null) {
     return {
       allowed: true,
       limit: Infinity,
       used: 0,
       remaining: Infinity,
       resetsAt: null,
+      window: rule.window,
+      tokenCost: rule.tokenCost,
     };
   }
 
-  // Free users: lifetime limit of 25
-  const lifetimeUsages = await prisma.aiUsage.findMany({
-    where: {
-      userId,
-      endpoint: AiEndpoint.CHAT,
-    },
-    orderBy: {
-      createdAt: "asc",
-    },
-    select: {
-      createdAt: true,
-    },
-  });
+  const window = getQuotaWindow(rule, now);
+  const where = {
+    userId,
+    endpoint,
+    ...(window.start ? { createdAt: { gte: window.start } } : {}),
+  };
 
-  const used = lifetimeUsages.length;
-  const limit = FREE_CHAT_LIMIT;
-  const remaining = Math.max(0, limit - used);
-  const allowed = used < limit;
+  const used = await prisma.aiUsage.count({ where });
+
+  // Rolling windows free a slot when the oldest usage expires
+  let resetsAt = window.resetsAt;
+  if (rule.window === "rolling" && used > 0) {
+    const oldest = await prisma.aiUsage.findFirst({
+      where,
+      orderBy: { createdAt: "asc" },
+      select: { createdAt: true },
+    });
+    if (oldest) {
+      resetsAt = new Date(oldest.createdAt);
+      resetsAt.setDate(
+        resetsAt.getDate() + (rule.windowDays ?? DEFAULT_WINDOW_DAYS)
+      );
+    }
+  }
 
   return {
-    allowed,
-    limit,
+    allowed: used < rule.limit,
+    limit: rule.limit,
     used,
-    remaining,
-    resetsAt: null, // Lifetime limits never reset
+    remaining: Math.max(0, rule.limit - used),
+    resetsAt,
+    window: rule.window,
+    tokenCost: rule.tokenCost,
   };
 }
 
 /**
- * Check parse onboarding response limit for user
+ * Check whether a user can use an endpoint under their plan's quota
  */
-export async function checkParseOnboardingResponseLimit(
-  userId: string
+export async function checkEndpointLimit(
+  userId: string,
+  endpoint: AiEndpoint
 ): Promise<UsageLimitCheck> {
-  return checkEndpointLimit(userId, AiEndpoint.PARSE_ONBOARDING_RESPONSE);
+  const quotas = await getUserQuotas(userId);
+  return checkUsageAgainstRule(userId, endpoint, quotas[endpoint], new Date());
 }
 
-/**
- * Get AI usage statistics across all endpoints for a user
- * Returns comprehensive limit info based on user type (free/pro)
- */
-export async function getAiUsageStats(userId: string): Promise<{
-  mealPlan: UsageLimitCheck & { tokenCost: number };
-  generateRecipe: UsageLimitCheck & { tokenCost: number };
-  replaceRecipe: UsageLimitCheck & { tokenCost: number };
-  parseRecipe: UsageLimitCheck & { tokenCost: number };
-  generateSteps: UsageLimitCheck & { tokenCost: number };
-  parsePantry: UsageLimitCheck & { tokenCost: number };
-  chatInstruction: UsageLimitCheck & { tokenCost: number };
-  explainInstruction: UsageLimitCheck & { tokenCost: number };
-  chatChef: UsageLimitCheck & { tokenCost: number };
-  chat: UsageLimitCheck & { tokenCost: number };
-  parseOnboardingResponse: UsageLimitCheck & { tokenCost: number };
-}> {
-  // Get limits for all endpoints
-  const [
-    mealPlanLimit,
-    generateRecipeLimit,
-    replaceRecipeLimit,
-    parseRecipeLimit,
-    generateStepsLimit,
-    parsePantryLimit,
-    chatInstructionLimit,
-    explainInstructionLimit,
-    chatChefLimit,
-    chatLimit,
-    parseOnboardingResponseLimit,
-  ] = await Promise.all([
-    checkMealPlanLimit(userId),
-    checkGenerateRecipeLimit(userId),
-    checkReplaceRecipeLimit(userId),
-    checkParseRecipeLimit(userId),
-    checkGenerateStepsLimit(userId),
-    checkParsePantryLimit(userId),
-    checkChatInstructionLimit(userId),
-    checkExplainInstructionLimit(userId),
-    checkChatChefLimit(userId),
-    checkChatLimit(userId),
-    checkParseOnboardingResponseLimit(userId),
-  ]);
-
-  return {
-    mealPlan: { ...mealPlanLimit, tokenCost: MEAL_PLAN_TOKEN_COST },
-    generateRecipe: { ...generateRecipeLimit, tokenCost: MEAL_PLAN_TOKEN_COST },
-    replaceRecipe: { ...replaceRecipeLimit, tokenCost: MEAL_PLAN_TOKEN_COST },
-    parseRecipe: { ...parseRecipeLimit, tokenCost: MEAL_PLAN_TOKEN_COST },
-    generateSteps: { ...generateStepsLimit, tokenCost: MEAL_PLAN_TOKEN_COST },
-    parsePantry: { ...parsePantryLimit, tokenCost: MEAL_PLAN_TOKEN_COST },
-    chatInstruction: {
-      ...chatInstructionLimit,
-      tokenCost: MEAL_PLAN_TOKEN_COST,
-    },
-    explainInstruction: {
-      ...explainInstructionLimit,
-      tokenCost: MEAL_PLAN_TOKEN_COST,
-    },
-    chatChef: {
-      ...chatChefLimit,
-      tokenCost: MEAL_PLAN_TOKEN_COST,
-    },
-    chat: {
-      ...chatLimit,
-      tokenCost: MEAL_PLAN_TOKEN_COST,
-    },
-    parseOnboardingResponse: {
-      ...parseOnboardingResponseLimit,
-      tokenCost: MEAL_PLAN_TOKEN_COST,
-    },
-  };
-}
-
-/**
- * Token state structure from mobile app
- */
-interface TokenState {
-  balance: number;
-  transactions: Array<{
-    id: string;
-    type: string;
-    amount: number;
-    timestamp: string;
-    description: string;
-    relatedId?: string;
-  }>;
-  lifetimeSpent: number;
-  lifetimeEarned: number;
-}
+// Keys used for each endpoint in getAiUsageStats
+const USAGE_STATS_KEYS = {
+  mealPlan: AiEndpoint.MEAL_PLAN,
+  generateRecipe: AiEndpoint.GENERATE_RECIPE,
+  replaceRecipe: AiEndpoint.REPLACE_RECIPE,
+  parseRecipe: AiEndpoint.PARSE_RECIPE,
+  generateSteps: AiEndpoint.GENERATE_STEPS,
+  parsePantry: AiEndpoint.PARSE_PANTRY,
+  chatInstruction: AiEndpoint.CHAT_INSTRUCTION,
+  explainInstruction: AiEndpoint.EXPLAIN_INSTRUCTION,
+  chatChef: AiEndpoint.CHAT_CHEF,
+  chat: AiEndpoint.CHAT,
+  parseOnboardingResponse: AiEndpoint.PARSE_ONBOARDING_RESPONSE,
+} as const;
+
+export type AiUsageStats = Record<
+  keyof typeof USAGE_STATS_KEYS,
+  UsageLimitCheck
+>;
 
 /**
- * Validate that a user has enough tokens to bypass a limit
- * Does NOT deduct tokens - mobile app handles that after success
+ * Get AI usage statistics across all endpoints for a user
+ * Returns limit info from the user's plan quotas and overrides
  */
-export async function validateUserTokens(
-  userId: string,
-  tokensRequired: number
-): Promise<{ valid: boolean; currentBalance: number; error?: string }> {
-  try {
-    // Fetch user's token state from profile
-    const userProfile = await prisma.userProfile.findUnique({
-      where: { userId },
-      select: { tokenState: true },
-    });
-
-    if (!userProfile) {
-      return {
-        valid: false,
-        currentBalance: 0,
-        error: "User profile not found",
-      };
-    }
-
-    // Parse token state
-    let tokenState: TokenState;
-    try {
-      tokenState = JSON.parse(userProfile.tokenState as string) as TokenState;
-    } catch (error) {
-      console.error("Failed to parse tokenState:", error);
-      return {
-        valid: false,
-        currentBalance: 0,
-        error: "Invalid token state format",
-      };
-    }
-
-    // Validate balance
-    const balance = tokenState.balance || 0;
-    const valid = balance >= tokensRequired;
-
-    return {
-      valid,
-      currentBalance: balance,
-      error: valid ? undefined : "Insufficient tokens",
-    };
-  } catch (error) {
-    console.error("Error validating user tokens:", error);
-    return {
-      valid: false,
-      currentBalance: 0,
-      error: "Failed to validate tokens",
-    };
-  }
+export async function getAiUsageStats(userId: string): Promise<AiUsageStats> {
+  const quotas = await getUserQuotas(userId);
+  const now = new Date();
+
+  const entries = await Promise.all(
+    Object.entries(USAGE_STATS_KEYS).map(
+      async ([key, endpoint]) =>
+        [
+          key,
+          await checkUsageAgainstRule(userId, endpoint, quotas[endpoint], now),
+        ] as const
+    )
+  );
+
+  return Object.fromEntries(entries) as AiUsageStats;
 }
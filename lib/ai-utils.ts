@@ -1,6 +1,22 @@
 import OpenAI from "openai";
 import { errors } from "./api-errors";
 import { prisma } from "./prisma";
+import {
+  MEAL_TOLERANCE,
+  estimateRecipeNutrition,
+  getMealNutritionTargets,
+  getNutritionDeviations,
+  getUserNutritionTargets,
+  hasNutritionTargets,
+  meetsMealNutritionTargets,
+  type NutritionDeviation,
+  type NutritionTargets,
+} from "./nutrition-utils";
+import type { NutritionFacts } from "./types";
+import {
+  describeDietaryViolation,
+  getDietaryViolations,
+} from "./allergen-utils";
 
 // Initialize OpenAI client
 let openaiClient: OpenAI | null = null;
@@ -147,6 +163,11 @@ export interface MealPlanRequest {
     // New soft preference fields (passed to AI, not used for hard filtering)
     budget?: string;
     nutritionGoals?: string[];
+    // Numeric goals; unlike the fields above these are enforced
+    nutritionTargets?: {
+      dailyCalories?: number;
+      dailyProtein?: number;
+    };
     mealPrepStyle?: string;
     kitchenEquipment?: string[];
     favoriteMeals?: string[];
@@ -189,6 +210,28 @@ export interface ReplaceRecipeRequest {
   tokensToUse?: number;
 }
 
+/**
+ * Per-dinner calorie/protein line for the prompt, if the user has targets
+ */
+function formatNutritionTargetsForPrompt(
+  targets: MealPlanRequest["preferences"]["nutritionTargets"]
+) {
+  const mealTargets = getMealNutritionTargets(
+    { calories: targets?.dailyCalories, protein: targets?.dailyProtein },
+    "dinner"
+  );
+  const parts: string[] = [];
+  if (mealTargets.calories) {
+    parts.push(`about ${mealTargets.calories} kcal`);
+  }
+  if (mealTargets.protein) {
+    parts.push(`at least ${mealTargets.protein}g protein`);
+  }
+  return parts.length > 0
+    ? `Nutrition Targets (per serving, each recipe): ${parts.join(", ")}. List exact ingredient quantities so these can be checked.`
+    : "";
+}
+
 // Helper to call OpenAI for meal plan generation
 export async function generateMealPlan(request: MealPlanRequest) {
   const client = getOpenAIClient();
@@ -290,6 +333,7 @@ ${
     ? `Nutrition Goals: ${request.preferences.nutritionGoals.join(", ")}`
     : ""
 }
+${formatNutritionTargetsForPrompt(request.preferences.nutritionTargets)}
 ${
   request.preferences.mealPrepStyle
     ? `Meal Prep Style: ${request.preferences.mealPrepStyle}`
@@ -479,11 +523,82 @@ import {
   type RecipeWithSimilarity,
 } from "./recipe-search-utils";
 
+interface MealPlanNutritionSummary {
+  // Daily targets and the share of them each planned dinner should cover
+  targets: NutritionTargets;
+  mealTargets: NutritionTargets;
+  days: Array<{
+    date: string;
+    recipeTitle: string | null;
+    // Per serving; null when the recipe's ingredients couldn't be estimated
+    totals: NutritionFacts | null;
+    deviations: NutritionDeviation[];
+  }>;
+  // Days still off target (or unknown) after swapping in database recipes
+  unresolvedDays: number;
+}
+
 interface HybridMealPlanResult {
   mealPlan: MealPlanStructure;
   recipesFromDatabase: number;
   recipesGenerated: number;
   costSavingsEstimate: string;
+  nutrition: MealPlanNutritionSummary | null;
+}
+
+/**
+ * Daily targets from the request, falling back to the user's saved goals
+ */
+async function resolveNutritionTargets(
+  request: MealPlanRequest,
+  userId: string
+): Promise<NutritionTargets> {
+  const requested = request.preferences.nutritionTargets;
+  if (requested?.dailyCalories || requested?.dailyProtein) {
+    return {
+      calories: requested.dailyCalories,
+      protein: requested.dailyProtein,
+    };
+  }
+  return getUserNutritionTargets(userId);
+}
+
+function getEstimatedServing(
+  recipe: RecipeWithSimilarity
+): NutritionFacts | null {
+  const nutrition = estimateRecipeNutrition(
+    recipe.ingredients,
+    recipe.servings
+  );
+  return nutrition.coverage > 0 ? nutrition.perServing : null;
+}
+
+function summarizePlanNutrition(
+  mealPlan: MealPlanStructure,
+  targets: NutritionTargets,
+  mealTargets: NutritionTargets
+): MealPlanNutritionSummary {
+  const days = mealPlan.days.map((day) => {
+    const dinner = day.meals.dinner;
+    const totals = dinner ? getEstimatedServing(dinner) : null;
+    return {
+      date: day.date,
+      recipeTitle: dinner?.title ?? null,
+      totals,
+      deviations: totals
+        ? getNutritionDeviations(totals, mealTargets, MEAL_TOLERANCE)
+        : [],
+    };
+  });
+
+  return {
+    targets,
+    mealTargets,
+    days,
+    unresolvedDays: days.filter(
+      (day) => !day.totals || day.deviations.length > 0
+    ).length,
+  };
 }
 
 /**
@@ -499,6 +614,26 @@ export async function generateHybridMealPlan(
 ): Promise<HybridMealPlanResult> {
   const numRecipes = request.numRecipes || 10;
 
+  // Plans hold one dinner per day, so recipes are held to a dinner's share
+  const nutritionTargets = await resolveNutritionTargets(request, userId);
+  const mealTargets = getMealNutritionTargets(nutritionTargets, "dinner");
+  const enforceNutrition = hasNutritionTargets(mealTargets);
+  const plannedRequest: MealPlanRequest = enforceNutrition
+    ? {
+        ...request,
+        preferences: {
+          ...request.preferences,
+          nutritionTargets: {
+            dailyCalories: nutritionTargets.calories,
+            dailyProtein: nutritionTargets.protein,
+          },
+        },
+      }
+    : request;
+  // On-target database recipes left over after selection, used to replace
+  // AI recipes that miss the targets
+  let spareCandidates: RecipeWithSimilarity[] = [];
+
   // PHASE 1: Database Recipe Search
   // Strategy: Always aim for 50/50 split (half DB, half AI)
   const totalRecipes = await getTotalRecipeCount();
@@ -568,6 +703,7 @@ export async function generateHybridMealPlan(
 
     let candidates = await searchRecipesByPreferences(request.preferences, {
       limit: searchLimit,
+      userId,
       excludeRecipeIds: recentlyUsed,
       minSimilarity: 0.3,
     });
@@ -614,8 +750,7 @@ export async function generateHybridMealPlan(
     }
 
     // STEP 4: Apply dietary restrictions filter
-    const { hasDietaryRestrictions, doesRecipeMeetDietaryRestrictions } =
-      await import("./recipe-search-utils");
+    const { hasDietaryRestrictions } = await import("./recipe-search-utils");
 
     if (
       hasDietaryRestrictions({
@@ -636,13 +771,21 @@ export async function generateHybridMealPlan(
       );
 
       const beforeCount = candidates.length;
-      candidates = candidates.filter((recipe) =>
-        doesRecipeMeetDietaryRestrictions(recipe, {
+      candidates = candidates.filter((recipe) => {
+        const violations = getDietaryViolations(recipe, {
           dietStyle: request.preferences.dietStyle,
           allergies: request.preferences.allergies,
           exclusions: request.preferences.exclusions,
-        })
-      );
+        });
+        if (violations.length > 0) {
+          console.log(
+            `  ⊘ Excluding "${recipe.title}": ${describeDietaryViolation(
+              violations[0]
+            )}`
+          );
+        }
+        return violations.length === 0;
+      });
 
       console.log(
         `Filtered ${beforeCount} → ${candidates.length} recipes for dietary compliance`
@@ -666,11 +809,20 @@ export async function generateHybridMealPlan(
     dbRecipes = selectDiverseRecipes(candidates, targetDbRecipes, {
       titleSimilarityThreshold: 0.6, // 60% word overlap
       ingredientOverlapThreshold: 0.7, // 70% ingredient overlap
+      nutritionTargets: mealTargets,
     });
 
     console.log(
       `\n✓ Selected ${dbRecipes.length} diverse recipes from database\n`
     );
+
+    if (enforceNutrition) {
+      const selectedIds = new Set(dbRecipes.map((r) => r.id));
+      spareCandidates = candidates.filter(
+        (c) =>
+          !selectedIds.has(c.id) && meetsMealNutritionTargets(c, mealTargets)
+      );
+    }
   }
 
   // PHASE 2: Generate remaining recipes with AI
@@ -687,7 +839,12 @@ export async function generateHybridMealPlan(
       // Let's re-fetch or assume we want to avoid the *DB* recipes we just selected + recent history.
       
       // Re-fetch recent IDs for context (simpler than passing variable out of block)
-      const recentIds = await getRecentlyUsedRecipes(userId, 7);
+      // Meals actually cooked stay off the menu longer than ones only planned
+      const [recentlyCooked, recentlyPlanned] = await Promise.all([
+        getRecentlyUsedRecipes(userId, 14, "cooked"),
+        getRecentlyUsedRecipes(userId, 7, "planned"),
+      ]);
+      const recentIds = [...new Set([...recentlyCooked, ...recentlyPlanned])];
       
       if (recentIds.length > 0) {
         const recentRecipes = await prisma.recipe.findMany({
@@ -705,7 +862,7 @@ export async function generateHybridMealPlan(
 
     // Generate remaining recipes with AI
     const modifiedRequest = {
-      ...request,
+      ...plannedRequest,
       numRecipes: remainingNeeded,
       recentlyUsedRecipes: allExclusions,
     };
@@ -733,6 +890,37 @@ export async function generateHybridMealPlan(
     );
   }
 
+  // Check AI recipes against the targets and swap misses for spare
+  // database recipes; anything left over is reported in the summary
+  if (enforceNutrition && aiGeneratedRecipes.length > 0) {
+    const keptRecipes: RecipeWithSimilarity[] = [];
+
+    for (const recipe of aiGeneratedRecipes) {
+      const estimate = getEstimatedServing(recipe);
+      const fits =
+        !estimate ||
+        meetsMealNutritionTargets(
+          {
+            caloriesPerServing: estimate.calories,
+            proteinPerServing: estimate.protein,
+          },
+          mealTargets
+        );
+      const replacement = fits ? undefined : spareCandidates.shift();
+
+      if (replacement) {
+        console.log(
+          `🥗 Replacing "${recipe.title}" with "${replacement.title}" to meet nutrition targets`
+        );
+        dbRecipes.push(replacement);
+      } else {
+        keptRecipes.push(recipe);
+      }
+    }
+
+    aiGeneratedRecipes.splice(0, aiGeneratedRecipes.length, ...keptRecipes);
+  }
+
   // PHASE 3: Combine and finalize
   const allRecipes = [...dbRecipes, ...aiGeneratedRecipes];
 
@@ -762,7 +950,7 @@ export async function generateHybridMealPlan(
 
     // Generate additional recipes to fill the gap
     const additionalRequest = {
-      ...request,
+      ...plannedRequest,
       numRecipes: stillNeeded,
     };
 
@@ -833,6 +1021,9 @@ export async function generateHybridMealPlan(
     recipesFromDatabase: dbRecipeCount,
     recipesGenerated: aiRecipeCount,
     costSavingsEstimate: `$${costSaved.toFixed(2)} saved`,
+    nutrition: enforceNutrition
+      ? summarizePlanNutrition(mealPlan, nutritionTargets, mealTargets)
+      : null,
   };
 }
 
@@ -0,0 +1,791 @@
+/**
+ * Allergen and diet taxonomy for recipe filtering
+ *
+ * Ingredients are matched against each class on whole words (with plurals),
+ * so "nut" no longer hits "nutmeg" or "butternut", while derived products
+ * such as pesto or tahini map to the allergens they contain.
+ */
+
+export type AllergenClass =
+  | "peanut"
+  | "tree_nut"
+  | "gluten"
+  | "dairy"
+  | "egg"
+  | "fish"
+  | "shellfish"
+  | "sesame"
+  | "soy"
+  | "mustard";
+
+// Non-allergen classes used by diet styles
+export type DietClass = "meat" | "honey" | "gelatin";
+
+export type IngredientClass = AllergenClass | DietClass;
+
+export const ALLERGEN_CLASSES: AllergenClass[] = [
+  "peanut",
+  "tree_nut",
+  "gluten",
+  "dairy",
+  "egg",
+  "fish",
+  "shellfish",
+  "sesame",
+  "soy",
+  "mustard",
+];
+
+// Bump when the taxonomy changes so stored classifications can be
+// recomputed by scripts/backfill-recipe-classification.ts
+export const CLASSIFICATION_VERSION = 1;
+
+interface IngredientClassDefinition {
+  label: string;
+  // How users name this class in their allergies/exclusions
+  aliases: string[];
+  // Ingredient words and derived products that contain it
+  terms: string[];
+  // Phrases that look like a term but aren't ("coconut milk" for dairy)
+  exceptions?: string[];
+  // Qualifiers that clear an ingredient line ("dairy-free butter")
+  freeFrom?: string[];
+}
+
+export const INGREDIENT_CLASSES: Record<
+  IngredientClass,
+  IngredientClassDefinition
+> = {
+  peanut: {
+    label: "peanuts",
+    aliases: ["peanut", "groundnut", "nut", "nuts"],
+    terms: [
+      "peanut",
+      "groundnut",
+      "peanut butter",
+      "peanut oil",
+      "satay",
+      "arachis oil",
+      "monkey nut",
+    ],
+    freeFrom: ["peanut-free", "peanut free"],
+  },
+  tree_nut: {
+    label: "tree nuts",
+    aliases: ["tree nut", "nut", "nuts"],
+    terms: [
+      "nut",
+      "almond",
+      "walnut",
+      "pecan",
+      "cashew",
+      "pistachio",
+      "hazelnut",
+      "filbert",
+      "macadamia",
+      "brazil nut",
+      "pine nut",
+      "pignoli",
+      "chestnut",
+      "praline",
+      "marzipan",
+      "frangipane",
+      "amaretti",
+      "nougat",
+      "gianduja",
+      "nutella",
+      "pesto",
+      "romesco",
+      "dukkah",
+      "baklava",
+      "amaretto",
+      "orgeat",
+    ],
+    exceptions: ["water chestnut"],
+    freeFrom: ["nut-free", "nut free"],
+  },
+  gluten: {
+    label: "gluten",
+    aliases: ["gluten", "wheat", "celiac", "coeliac"],
+    terms: [
+      "wheat",
+      "flour",
+      "barley",
+      "rye",
+      "spelt",
+      "farro",
+      "kamut",
+      "einkorn",
+      "semolina",
+      "durum",
+      "couscous",
+      "bulgur",
+      "freekeh",
+      "seitan",
+      "malt",
+      "bread",
+      "breadcrumb",
+      "panko",
+      "crouton",
+      "cracker",
+      "pasta",
+      "spaghetti",
+      "penne",
+      "macaroni",
+      "linguine",
+      "fettuccine",
+      "lasagna",
+      "lasagne",
+      "orzo",
+      "gnocchi",
+      "ravioli",
+      "tortellini",
+      "noodle",
+      "udon",
+      "ramen",
+      "pita",
+      "naan",
+      "baguette",
+      "brioche",
+      "bun",
+      "flour tortilla",
+      "pie crust",
+      "puff pastry",
+      "phyllo",
+      "filo",
+      "soy sauce",
+      "beer",
+    ],
+    exceptions: [
+      "almond flour",
+      "coconut flour",
+      "rice flour",
+      "chickpea flour",
+      "corn flour",
+      "cassava flour",
+      "tapioca flour",
+      "potato flour",
+      "buckwheat flour",
+      "rice noodle",
+      "glass noodle",
+      "cellophane noodle",
+      "rice paper",
+    ],
+    freeFrom: ["gluten-free", "gluten free"],
+  },
+  dairy: {
+    label: "dairy",
+    aliases: ["dairy", "milk", "lactose", "casein", "whey"],
+    terms: [
+      "milk",
+      "cheese",
+      "butter",
+      "buttermilk",
+      "cream",
+      "yogurt",
+      "yoghurt",
+      "kefir",
+      "ghee",
+      "whey",
+      "casein",
+      "lactose",
+      "parmesan",
+      "parmigiano",
+      "pecorino",
+      "cheddar",
+      "mozzarella",
+      "burrata",
+      "ricotta",
+      "mascarpone",
+      "feta",
+      "halloumi",
+      "paneer",
+      "gruyere",
+      "brie",
+      "creme fraiche",
+      "sour cream",
+      "half and half",
+      "custard",
+      "alfredo",
+      "bechamel",
+      "pesto",
+      "tzatziki",
+      "ice cream",
+    ],
+    exceptions: [
+      "peanut butter",
+      "almond butter",
+      "cashew butter",
+      "nut butter",
+      "seed butter",
+      "apple butter",
+      "cocoa butter",
+      "shea butter",
+      "coconut milk",
+      "coconut cream",
+      "almond milk",
+      "oat milk",
+      "soy milk",
+      "rice milk",
+      "cashew milk",
+      "cream of tartar",
+      "cream of coconut",
+    ],
+    freeFrom: [
+      "dairy-free",
+      "dairy free",
+      "non-dairy",
+      "nondairy",
+      "lactose-free",
+      "vegan",
+      "plant-based",
+    ],
+  },
+  egg: {
+    label: "eggs",
+    aliases: ["egg"],
+    terms: [
+      "egg",
+      "egg yolk",
+      "egg white",
+      "mayonnaise",
+      "mayo",
+      "aioli",
+      "meringue",
+      "custard",
+      "hollandaise",
+      "bearnaise",
+      "caesar dressing",
+      "albumen",
+    ],
+    freeFrom: ["egg-free", "egg free", "eggless", "vegan"],
+  },
+  fish: {
+    label: "fish",
+    aliases: ["fish", "seafood"],
+    terms: [
+      "fish",
+      "salmon",
+      "tuna",
+      "cod",
+      "haddock",
+      "halibut",
+      "tilapia",
+      "trout",
+      "mahi mahi",
+      "catfish",
+      "sardine",
+      "mackerel",
+      "herring",
+      "anchovy",
+      "bass",
+      "snapper",
+      "swordfish",
+      "bonito",
+      "fish sauce",
+      "worcestershire",
+      "caesar dressing",
+      "dashi",
+      "surimi",
+      "imitation crab",
+    ],
+  },
+  shellfish: {
+    label: "shellfish",
+    aliases: ["shellfish", "seafood", "crustacean", "mollusc", "mollusk"],
+    terms: [
+      "shellfish",
+      "shrimp",
+      "prawn",
+      "crab",
+      "lobster",
+      "crayfish",
+      "crawfish",
+      "langoustine",
+      "clam",
+      "mussel",
+      "oyster",
+      "scallop",
+      "squid",
+      "calamari",
+      "octopus",
+      "oyster sauce",
+      "shrimp paste",
+    ],
+    exceptions: ["crab apple", "oyster mushroom", "imitation crab"],
+  },
+  sesame: {
+    label: "sesame",
+    aliases: ["sesame"],
+    terms: [
+      "sesame",
+      "sesame oil",
+      "sesame seed",
+      "tahini",
+      "hummus",
+      "halva",
+      "halvah",
+      "furikake",
+      "gomasio",
+      "za'atar",
+      "zaatar",
+    ],
+  },
+  soy: {
+    label: "soy",
+    aliases: ["soy", "soya", "soybean"],
+    terms: [
+      "soy",
+      "soya",
+      "soybean",
+      "soy sauce",
+      "tamari",
+      "shoyu",
+      "miso",
+      "tofu",
+      "tempeh",
+      "edamame",
+      "natto",
+      "yuba",
+    ],
+    freeFrom: ["soy-free", "soy free"],
+  },
+  mustard: {
+    label: "mustard",
+    aliases: ["mustard"],
+    terms: ["mustard", "mustard seed", "dijon"],
+  },
+  meat: {
+    label: "meat",
+    aliases: ["meat"],
+    terms: [
+      "meat",
+      "chicken",
+      "beef",
+      "pork",
+      "lamb",
+      "mutton",
+      "goat",
+      "turkey",
+      "duck",
+      "goose",
+      "veal",
+      "venison",
+      "rabbit",
+      "bacon",
+      "pancetta",
+      "guanciale",
+      "sausage",
+      "ham",
+      "steak",
+      "ground meat",
+      "meatball",
+      "poultry",
+      "prosciutto",
+      "salami",
+      "pepperoni",
+      "chorizo",
+      "lard",
+      "bone broth",
+    ],
+    exceptions: ["goat cheese", "goat milk", "goat's milk"],
+    freeFrom: ["vegan", "vegetarian", "meatless", "plant-based"],
+  },
+  honey: {
+    label: "honey",
+    aliases: ["honey"],
+    terms: ["honey", "honeycomb"],
+  },
+  gelatin: {
+    label: "gelatin",
+    aliases: ["gelatin", "gelatine"],
+    terms: ["gelatin", "gelatine", "marshmallow"],
+    freeFrom: ["vegan"],
+  },
+};
+
+export type DietFlag =
+  "vegan" | "vegetarian" | "pescatarian" | "gluten-free" | "dairy-free";
+
+// Classes each diet style rules out; a recipe with none of them carries the
+// style as a diet flag
+export const DIET_STYLE_EXCLUSIONS: Record<DietFlag, IngredientClass[]> = {
+  vegan: ["meat", "fish", "shellfish", "dairy", "egg", "honey", "gelatin"],
+  vegetarian: ["meat", "fish", "shellfish", "gelatin"],
+  pescatarian: ["meat"],
+  "gluten-free": ["gluten"],
+  "dairy-free": ["dairy"],
+};
+
+const DIET_STYLE_ALIASES: Record<string, DietFlag> = {
+  "plant-based": "vegan",
+  pescetarian: "pescatarian",
+  celiac: "gluten-free",
+  "lactose-free": "dairy-free",
+};
+
+export interface DietaryViolation {
+  // Ingredient name as written in the recipe
+  ingredient: string;
+  reason: "diet" | "allergy" | "exclusion";
+  // The user's restriction, e.g. "vegan", "tree nuts", "mushrooms"
+  restriction: string;
+  // Taxonomy class that matched, when the restriction maps to one
+  ingredientClass?: IngredientClass;
+  // The word in the ingredient that triggered the match
+  term: string;
+}
+
+interface IngredientLike {
+  name?: string;
+  notes?: string;
+  canonicalId?: string;
+}
+
+function toSingular(value: string) {
+  if (value.endsWith("ies")) return `${value.slice(0, -3)}y`;
+  if (value.endsWith("oes")) return value.slice(0, -2);
+  if (value.endsWith("s") && !value.endsWith("ss")) return value.slice(0, -1);
+  return value;
+}
+
+function normalizeText(value: string) {
+  return value
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/_/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function escapeRegExp(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+const termPatterns = new Map<string, RegExp>();
+
+/**
+ * Whole-word pattern for a term, allowing plural endings
+ */
+function getTermPattern(term: string) {
+  let pattern = termPatterns.get(term);
+  if (!pattern) {
+    const escaped = escapeRegExp(term);
+    const plural = term.endsWith("y")
+      ? `(?:${escapeRegExp(term.slice(0, -1))}ies|${escaped}s)`
+      : `${escaped}(?:s|es)`;
+    pattern = new RegExp(`(?<![a-z])(?:${escaped}|${plural})(?![a-z])`, "i");
+    termPatterns.set(term, pattern);
+  }
+  return pattern;
+}
+
+const sortedTerms = new Map<IngredientClass, string[]>();
+
+function findTerm(text: string, ingredientClass: IngredientClass) {
+  let terms = sortedTerms.get(ingredientClass);
+  if (!terms) {
+    // Longest first so the explanation names "peanut butter" over "butter"
+    terms = [...INGREDIENT_CLASSES[ingredientClass].terms].sort(
+      (a, b) => b.length - a.length
+    );
+    sortedTerms.set(ingredientClass, terms);
+  }
+  return terms.find((term) => getTermPattern(term).test(text)) ?? null;
+}
+
+function removeExceptions(text: string, exceptions: string[] = []) {
+  let result = text;
+  for (const exception of exceptions) {
+    result = result.replace(new RegExp(getTermPattern(exception), "gi"), " ");
+  }
+  return result;
+}
+
+function getIngredientText(ingredient: IngredientLike) {
+  return normalizeText(
+    [ingredient.name, ingredient.canonicalId, ingredient.notes]
+      .filter(Boolean)
+      .join(" ")
+  );
+}
+
+/**
+ * The term that puts an ingredient in a class, or null if it doesn't belong
+ */
+export function matchIngredientClass(
+  ingredient: IngredientLike,
+  ingredientClass: IngredientClass
+): string | null {
+  const definition = INGREDIENT_CLASSES[ingredientClass];
+  const text = getIngredientText(ingredient);
+  if (!text) return null;
+
+  if (
+    definition.freeFrom?.some((phrase) => getTermPattern(phrase).test(text))
+  ) {
+    return null;
+  }
+
+  return findTerm(
+    removeExceptions(text, definition.exceptions),
+    ingredientClass
+  );
+}
+
+/**
+ * All classes an ingredient belongs to
+ */
+export function getIngredientClasses(
+  ingredient: IngredientLike
+): IngredientClass[] {
+  return (Object.keys(INGREDIENT_CLASSES) as IngredientClass[]).filter(
+    (ingredientClass) => matchIngredientClass(ingredient, ingredientClass)
+  );
+}
+
+/**
+ * Map a user-entered allergy or exclusion ("Tree nuts", "shellfish") to
+ * taxonomy classes; empty when it names a single ingredient instead
+ */
+export function resolveIngredientClasses(value: string): IngredientClass[] {
+  const text = normalizeText(value).replace(/-/g, " ");
+  const singular = toSingular(text);
+
+  return (Object.keys(INGREDIENT_CLASSES) as IngredientClass[]).filter(
+    (ingredientClass) => {
+      const { aliases, label } = INGREDIENT_CLASSES[ingredientClass];
+      return [...aliases, label].some(
+        (alias) => alias === text || alias === singular
+      );
+    }
+  );
+}
+
+/**
+ * The diet flag for a user's diet style, or null for styles we don't
+ * classify (keto, paleo, ...)
+ */
+export function normalizeDietStyle(
+  dietStyle: string | undefined | null
+): DietFlag | null {
+  if (!dietStyle) return null;
+  const style = normalizeText(dietStyle).replace(/[\s_]+/g, "-");
+  if (style in DIET_STYLE_EXCLUSIONS) return style as DietFlag;
+  return DIET_STYLE_ALIASES[style] ?? null;
+}
+
+/**
+ * Diet flags and allergens for a recipe's ingredient list
+ */
+export function classifyIngredients(ingredients: unknown): {
+  dietFlags: DietFlag[];
+  allergens: AllergenClass[];
+} {
+  const list = Array.isArray(ingredients)
+    ? (ingredients as IngredientLike[]).filter(
+        (ingredient) =>
+          ingredient && (ingredient.name || ingredient.canonicalId)
+      )
+    : [];
+
+  // Nothing to judge; don't claim an empty recipe is vegan
+  if (list.length === 0) {
+    return { dietFlags: [], allergens: [] };
+  }
+
+  const present = new Set<IngredientClass>();
+  for (const ingredient of list) {
+    for (const ingredientClass of getIngredientClasses(ingredient)) {
+      present.add(ingredientClass);
+    }
+  }
+
+  return {
+    dietFlags: (Object.keys(DIET_STYLE_EXCLUSIONS) as DietFlag[]).filter(
+      (flag) =>
+        !DIET_STYLE_EXCLUSIONS[flag].some((excluded) => present.has(excluded))
+    ),
+    allergens: ALLERGEN_CLASSES.filter((allergen) => present.has(allergen)),
+  };
+}
+
+/**
+ * Recipe columns to write alongside ingredients
+ */
+export function getRecipeClassificationFields(ingredients: unknown) {
+  return {
+    ...classifyIngredients(ingredients),
+    classificationVersion: CLASSIFICATION_VERSION,
+  };
+}
+
+function toRestrictionText(value: unknown) {
+  if (typeof value === "string") return value;
+  // Intake data sometimes stores { name } objects instead of strings
+  if (value && typeof value === "object" && "name" in value) {
+    return String((value as { name: unknown }).name ?? "");
+  }
+  return String(value ?? "");
+}
+
+/**
+ * Split restrictions into what stored classifications can answer (a diet
+ * flag to require, allergens to avoid) and what still needs an ingredient
+ * scan (free-text allergies/exclusions, meat/honey/gelatin)
+ */
+export function splitDietaryRestrictions(preferences: {
+  dietStyle?: string;
+  allergies?: string[];
+  exclusions?: string[];
+}) {
+  const avoidAllergens = new Set<AllergenClass>();
+  const remaining: { allergies: string[]; exclusions: string[] } = {
+    allergies: [],
+    exclusions: [],
+  };
+
+  for (const key of ["allergies", "exclusions"] as const) {
+    for (const value of preferences[key] ?? []) {
+      const restriction = toRestrictionText(value).trim();
+      if (!restriction) continue;
+
+      const classes = resolveIngredientClasses(restriction);
+      const allergens = classes.filter((c): c is AllergenClass =>
+        ALLERGEN_CLASSES.includes(c as AllergenClass)
+      );
+
+      if (classes.length > 0 && allergens.length === classes.length) {
+        allergens.forEach((allergen) => avoidAllergens.add(allergen));
+      } else {
+        remaining[key].push(restriction);
+      }
+    }
+  }
+
+  return {
+    dietFlag: normalizeDietStyle(preferences.dietStyle),
+    avoidAllergens: Array.from(avoidAllergens),
+    remaining,
+  };
+}
+
+/**
+ * Every ingredient that breaks the user's diet, allergies or exclusions,
+ * with the restriction and word that caused it
+ * Exclusions are also checked against the title and description, so
+ * excluding "mushroom" drops "Mushroom Risotto" whatever its ingredients say.
+ */
+export function getDietaryViolations(
+  recipe: {
+    ingredients?: unknown;
+    title?: string;
+    description?: string | null;
+  },
+  preferences: {
+    dietStyle?: string;
+    allergies?: string[];
+    exclusions?: string[];
+  }
+): DietaryViolation[] {
+  const ingredients = Array.isArray(recipe.ingredients)
+    ? (recipe.ingredients as IngredientLike[]).filter(
+        (ingredient) =>
+          ingredient && (ingredient.name || ingredient.canonicalId)
+      )
+    : [];
+  const headings: IngredientLike[] = [recipe.title, recipe.description]
+    .filter((text): text is string => Boolean(text))
+    .map((text) => ({ name: text }));
+  const violations: DietaryViolation[] = [];
+
+  const checkClasses = (
+    items: IngredientLike[],
+    classes: IngredientClass[],
+    reason: DietaryViolation["reason"],
+    restriction: string
+  ) => {
+    for (const ingredient of items) {
+      for (const ingredientClass of classes) {
+        const term = matchIngredientClass(ingredient, ingredientClass);
+        if (term) {
+          violations.push({
+            ingredient: ingredient.name || ingredient.canonicalId || "",
+            reason,
+            restriction,
+            ingredientClass,
+            term,
+          });
+          break;
+        }
+      }
+    }
+  };
+
+  const checkTerm = (
+    items: IngredientLike[],
+    value: string,
+    reason: DietaryViolation["reason"]
+  ) => {
+    const term = toSingular(normalizeText(value));
+    for (const ingredient of items) {
+      if (getTermPattern(term).test(getIngredientText(ingredient))) {
+        violations.push({
+          ingredient: ingredient.name || ingredient.canonicalId || "",
+          reason,
+          restriction: value,
+          term,
+        });
+      }
+    }
+  };
+
+  const style = normalizeDietStyle(preferences.dietStyle);
+  if (style) {
+    checkClasses(ingredients, DIET_STYLE_EXCLUSIONS[style], "diet", style);
+  }
+
+  for (const [reason, values] of [
+    ["allergy", preferences.allergies],
+    ["exclusion", preferences.exclusions],
+  ] as const) {
+    for (const value of values ?? []) {
+      const restriction = toRestrictionText(value).trim();
+      if (!restriction) continue;
+
+      const classes = resolveIngredientClasses(restriction);
+      const check = (items: IngredientLike[]) =>
+        classes.length > 0
+          ? checkClasses(items, classes, reason, restriction)
+          : checkTerm(items, restriction, reason);
+
+      const found = violations.length;
+      check(ingredients);
+      // Only name the title when no ingredient already explains the match
+      if (reason === "exclusion" && violations.length === found) {
+        check(headings);
+      }
+    }
+  }
+
+  return violations;
+}
+
+/**
+ * Human-readable reason a recipe was filtered out
+ */
+export function describeDietaryViolation(violation: DietaryViolation) {
+  const contains = violation.ingredientClass
+    ? `contains ${INGREDIENT_CLASSES[violation.ingredientClass].label} (${violation.term})`
+    : `matches "${violation.term}"`;
+
+  const rule =
+    violation.reason === "diet"
+      ? `not ${violation.restriction}`
+      : violation.reason === "allergy"
+        ? `allergy: ${violation.restriction}`
+        : `excluded: ${violation.restriction}`;
+
+  return `${violation.ingredient} ${contains} - ${rule}`;
+}
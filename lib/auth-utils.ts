@@ -1,10 +1,15 @@
 import { NextRequest } from "next/server";
+import { timingSafeEqual } from "crypto";
 import { auth } from "./auth";
 import { prisma } from "./prisma";
 import { errors } from "./api-errors";
 import { v4 as uuidv4 } from "uuid";
 import * as bcrypt from "bcrypt";
 import { generateFriendCode } from "./friend-code-generator";
+import { transferTokenBalance } from "./token-ledger-utils";
+import { transferCookEvents } from "./cook-log-utils";
+import { transferAchievements } from "./achievement-utils";
+import { transferNotificationPreferences } from "./notification-preference-utils";
 
 /**
  * Extract session token from request headers
@@ -196,6 +201,17 @@ export async function migrateGuestData(
         ),
       },
     });
+
+    // Inventory rows mirror the profile blob, so they follow it
+    if (guestProfile.inventory !== null) {
+      await prisma.inventoryItem.deleteMany({
+        where: { userId: targetUserId },
+      });
+      await prisma.inventoryItem.updateMany({
+        where: { userId: guestUserId },
+        data: { userId: targetUserId },
+      });
+    }
   }
 
   // Migrate recipes
@@ -204,6 +220,23 @@ export async function migrateGuestData(
     data: { userId: targetUserId },
   });
 
+  await transferTokenBalance(guestUserId, targetUserId);
+
+  // Cooks feed streaks and achievements, so they must survive the delete
+  await transferCookEvents(guestUserId, targetUserId);
+
+  // Unlocks too, or the account would be paid for them a second time
+  await transferAchievements(guestUserId, targetUserId);
+
+  // Migrate recipe notes
+  await prisma.recipeNote.updateMany({
+    where: { userId: guestUserId },
+    data: { userId: targetUserId },
+  });
+
+  // Reminder settings, unless the account already has its own
+  await transferNotificationPreferences(guestUserId, targetUserId);
+
   // Delete guest profile
   if (guestProfile) {
     await prisma.userProfile.delete({
@@ -279,6 +312,27 @@ export async function getOptionalAuth(request: NextRequest) {
   }
 }
 
+/**
+ * Check the request carries the admin API key as a bearer token
+ * Admin routes are for internal tooling; there are no admin accounts.
+ */
+export function requireAdmin(request: NextRequest) {
+  const adminKey = process.env.ADMIN_API_KEY;
+  if (!adminKey) {
+    throw errors.serviceUnavailable("Admin API is not configured");
+  }
+
+  const authHeader = request.headers.get("Authorization") ?? "";
+  const provided = Buffer.from(authHeader.replace(/^Bearer /, ""));
+  const expected = Buffer.from(adminKey);
+  if (
+    provided.length !== expected.length ||
+    !timingSafeEqual(provided, expected)
+  ) {
+    throw errors.unauthorized();
+  }
+}
+
 /**
  * Clean up expired sessions from the database
  */
@@ -5,6 +5,10 @@ import { prisma } from "./prisma";
 import { generateFriendCode } from "./friend-code-generator";
 import { Prisma } from "@prisma/client";
 import { ensureCookbookSlug } from "./cookbook-utils";
+import { transferTokenBalance } from "./token-ledger-utils";
+import { transferCookEvents } from "./cook-log-utils";
+import { transferAchievements } from "./achievement-utils";
+import { transferNotificationPreferences } from "./notification-preference-utils";
 
 /**
  * Helper function to ensure a user has a friend code
@@ -94,10 +98,24 @@ export const auth = betterAuth({
                 anonymousProfile.achievements as Prisma.InputJsonValue,
               streaks: anonymousProfile.streaks as Prisma.InputJsonValue,
               tokenState: anonymousProfile.tokenState as Prisma.InputJsonValue,
+              syncMeta:
+                (anonymousProfile.syncMeta as Prisma.InputJsonValue) ??
+                Prisma.DbNull,
               lastSyncedAt: anonymousProfile.lastSyncedAt,
               syncVersion: anonymousProfile.syncVersion,
             },
           });
+
+          // Inventory rows mirror the profile blob, so they follow it
+          if (anonymousProfile.inventory !== null) {
+            await prisma.inventoryItem.deleteMany({
+              where: { userId: registeredUser.id },
+            });
+            await prisma.inventoryItem.updateMany({
+              where: { userId: anonUser.id },
+              data: { userId: registeredUser.id },
+            });
+          }
         }
 
         // Migrate recipes
@@ -141,6 +159,24 @@ export const auth = betterAuth({
           data: { userId: registeredUser.id },
         });
 
+        // Tokens live in the ledger now, not just the profile blob
+        await transferTokenBalance(anonUser.id, registeredUser.id);
+
+        // Migrate cook log (streaks and achievements are derived from it)
+        await transferCookEvents(anonUser.id, registeredUser.id);
+
+        // Migrate achievements so their rewards aren't paid twice
+        await transferAchievements(anonUser.id, registeredUser.id);
+
+        // Migrate recipe notes
+        await prisma.recipeNote.updateMany({
+          where: { userId: anonUser.id },
+          data: { userId: registeredUser.id },
+        });
+
+        // Migrate notification settings, unless the account has its own
+        await transferNotificationPreferences(anonUser.id, registeredUser.id);
+
         // Copy friendCode to new user if anonymous had one
         // Or generate one if neither user has one
         if (anonUser.friendCode) {
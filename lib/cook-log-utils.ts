@@ -0,0 +1,154 @@
+import { prisma } from "./prisma";
+import { errors } from "./api-errors";
+import type { CookEvent } from "@prisma/client";
+import { v4 as uuidv4 } from "uuid";
+import { canViewRecipe } from "./recipe-utils";
+import { creditTokens, TOKEN_REWARDS } from "./token-ledger-utils";
+
+// Device clocks drift; anything further ahead than this is a bad date
+const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+export interface CookEventInput {
+  cookedAt?: Date;
+  servings?: number;
+  rating?: number;
+  photoUrl?: string;
+  clientEventId?: string;
+}
+
+/**
+ * Pay the cooking reward once per day, by when the cook was logged rather
+ * than the (device-supplied) cookedAt
+ */
+async function rewardCooking(userId: string, event: CookEvent) {
+  const day = event.createdAt.toISOString().slice(0, 10);
+  await creditTokens(userId, {
+    amount: TOKEN_REWARDS.meal_cooked,
+    type: "meal_cooked",
+    description: "Cooked a meal",
+    relatedId: event.recipeId,
+    idempotencyKey: `meal_cooked:${day}`,
+  });
+}
+
+// A retry gets the event it first created, provided it's for the same recipe
+function replayCookEvent(
+  event: CookEvent,
+  recipeId: string
+): { event: CookEvent; created: boolean } {
+  if (event.recipeId !== recipeId) {
+    throw errors.conflict("clientEventId was already used for another recipe");
+  }
+  return { event, created: false };
+}
+
+/**
+ * Log that the user cooked a recipe they can see
+ * Retries with the same clientEventId return the first event unchanged.
+ */
+export async function recordCookEvent(
+  recipeId: string,
+  userId: string,
+  input: CookEventInput = {}
+): Promise<{ event: CookEvent; created: boolean }> {
+  const recipe = await prisma.recipe.findUnique({
+    where: { id: recipeId },
+    select: { id: true, userId: true },
+  });
+
+  if (!recipe || !(await canViewRecipe(recipe, userId))) {
+    throw errors.notFound("Recipe not found");
+  }
+
+  const cookedAt = input.cookedAt ?? new Date();
+  if (cookedAt.getTime() > Date.now() + MAX_CLOCK_SKEW_MS) {
+    throw errors.badRequest("cookedAt can't be in the future");
+  }
+
+  const data = {
+    userId,
+    recipeId,
+    cookedAt,
+    servings: input.servings,
+    rating: input.rating,
+    photoUrl: input.photoUrl,
+    clientEventId: input.clientEventId,
+  };
+
+  if (!input.clientEventId) {
+    const event = await prisma.cookEvent.create({ data });
+    await rewardCooking(userId, event);
+    return { event, created: true };
+  }
+
+  const existing = await prisma.cookEvent.findUnique({
+    where: {
+      userId_clientEventId: { userId, clientEventId: input.clientEventId },
+    },
+  });
+  if (existing) {
+    return replayCookEvent(existing, recipeId);
+  }
+
+  // A concurrent retry may win the insert; our id tells us whose row it is
+  const id = uuidv4();
+  const event = await prisma.cookEvent.upsert({
+    where: {
+      userId_clientEventId: { userId, clientEventId: input.clientEventId },
+    },
+    create: { id, ...data },
+    update: {},
+  });
+  if (event.id !== id) {
+    return replayCookEvent(event, recipeId);
+  }
+
+  await rewardCooking(userId, event);
+  return { event, created: true };
+}
+
+/**
+ * The user's cook log, newest first
+ */
+export async function listCookEvents(
+  userId: string,
+  options: { recipeId?: string; limit?: number } = {}
+): Promise<CookEvent[]> {
+  const { recipeId, limit = 50 } = options;
+
+  return prisma.cookEvent.findMany({
+    where: { userId, ...(recipeId ? { recipeId } : {}) },
+    orderBy: { cookedAt: "desc" },
+    take: limit,
+  });
+}
+
+/**
+ * Move a guest's cook log to the account they signed in to
+ * A cook both accounts logged from the same device (same clientEventId) is
+ * kept once, as the account already has it.
+ */
+export async function transferCookEvents(
+  fromUserId: string,
+  toUserId: string
+): Promise<void> {
+  const logged = await prisma.cookEvent.findMany({
+    where: { userId: toUserId, clientEventId: { not: null } },
+    select: { clientEventId: true },
+  });
+
+  await prisma.$transaction([
+    prisma.cookEvent.deleteMany({
+      where: {
+        userId: fromUserId,
+        clientEventId: {
+          in: logged.map((event) => event.clientEventId as string),
+        },
+      },
+    }),
+    prisma.cookEvent.updateMany({
+      where: { userId: fromUserId },
+      data: { userId: toUserId },
+    }),
+  ]);
+}
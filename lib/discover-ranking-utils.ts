@@ -0,0 +1,291 @@
+import { errors } from "./api-errors";
+
+// How much each signal contributes to a "For You" score (sums to 1)
+export const FOR_YOU_WEIGHTS = {
+  similarity: 0.4,
+  popularity: 0.25,
+  friendAffinity: 0.2,
+  novelty: 0.15,
+} as const;
+
+// Vote-based popularity halves every this many days after publishing
+export const POPULARITY_HALF_LIFE_DAYS = 30;
+
+// A recipe cooked this many days ago is half as stale as one cooked today
+export const NOVELTY_RECOVERY_DAYS = 14;
+
+// Each earlier pick from the same cuisine scales a score by this much
+export const CUISINE_REPEAT_PENALTY = 0.85;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ForYouCandidate {
+  id: string;
+  cuisine: string;
+  createdAt: Date;
+  upvotes: number;
+  downvotes: number;
+  // Null when the recipe (or viewer) has no comparable embedding
+  similarity: number | null;
+  byFriend: boolean;
+  friendSaves: number;
+  lastUsedAt: Date | null;
+  savedByViewer: boolean;
+}
+
+export interface ForYouScore {
+  score: number;
+  similarity: number;
+  popularity: number;
+  friendAffinity: number;
+  novelty: number;
+}
+
+export interface ForYouCursor {
+  // Snapshot time; every page is ranked as of this moment
+  asOf: string;
+  offset: number;
+}
+
+/**
+ * Lower bound of the Wilson score interval for the upvote share
+ * Few votes give a cautious score, so 3/3 ranks below 90/100.
+ */
+export function wilsonLowerBound(
+  upvotes: number,
+  downvotes: number,
+  z = 1.96
+): number {
+  const n = upvotes + downvotes;
+  if (n === 0) return 0;
+
+  const p = upvotes / n;
+  const z2 = z * z;
+  return (
+    (p + z2 / (2 * n) - z * Math.sqrt((p * (1 - p) + z2 / (4 * n)) / n)) /
+    (1 + z2 / n)
+  );
+}
+
+function daysBetween(from: Date, to: Date): number {
+  return Math.max(0, (to.getTime() - from.getTime()) / DAY_MS);
+}
+
+/**
+ * Wilson score damped by the recipe's age
+ */
+export function getPopularityScore(
+  upvotes: number,
+  downvotes: number,
+  createdAt: Date,
+  now: Date
+): number {
+  const decay = Math.pow(
+    0.5,
+    daysBetween(createdAt, now) / POPULARITY_HALF_LIFE_DAYS
+  );
+  return wilsonLowerBound(upvotes, downvotes) * decay;
+}
+
+/**
+ * 1 for recipes the viewer hasn't cooked, recovering towards 1 as the last
+ * cook fades; 0 for recipes they've already saved
+ */
+export function getNoveltyScore(
+  lastUsedAt: Date | null,
+  savedByViewer: boolean,
+  now: Date
+): number {
+  if (savedByViewer) return 0;
+  if (!lastUsedAt) return 1;
+  return (
+    1 - Math.pow(0.5, daysBetween(lastUsedAt, now) / NOVELTY_RECOVERY_DAYS)
+  );
+}
+
+/**
+ * Written by a friend, or saved by a couple of them
+ */
+export function getFriendAffinityScore(
+  byFriend: boolean,
+  friendSaves: number
+): number {
+  return Math.min(1, (byFriend ? 1 : 0) + friendSaves * 0.5);
+}
+
+export function scoreForYouCandidate(
+  candidate: ForYouCandidate,
+  now: Date
+): ForYouScore {
+  const similarity = Math.max(0, candidate.similarity ?? 0);
+  const popularity = getPopularityScore(
+    candidate.upvotes,
+    candidate.downvotes,
+    candidate.createdAt,
+    now
+  );
+  const friendAffinity = getFriendAffinityScore(
+    candidate.byFriend,
+    candidate.friendSaves
+  );
+  const novelty = getNoveltyScore(
+    candidate.lastUsedAt,
+    candidate.savedByViewer,
+    now
+  );
+
+  const score =
+    FOR_YOU_WEIGHTS.similarity * similarity +
+    FOR_YOU_WEIGHTS.popularity * popularity +
+    FOR_YOU_WEIGHTS.friendAffinity * friendAffinity +
+    FOR_YOU_WEIGHTS.novelty * novelty;
+
+  return { score, similarity, popularity, friendAffinity, novelty };
+}
+
+/**
+ * Score candidates and order them, spreading cuisines out
+ * Greedy: each pick is the best score after penalizing cuisines already
+ * picked. Ties break on id so the same inputs always give the same order,
+ * which is what keeps offset cursors from repeating items.
+ */
+export function rankForYouCandidates<T extends ForYouCandidate>(
+  candidates: T[],
+  now: Date
+): Array<T & { ranking: ForYouScore }> {
+  const remaining = candidates.map((candidate) => ({
+    ...candidate,
+    ranking: scoreForYouCandidate(candidate, now),
+  }));
+  const cuisineCounts = new Map<string, number>();
+  const ranked: Array<T & { ranking: ForYouScore }> = [];
+
+  while (remaining.length > 0) {
+    let bestIndex = 0;
+    let bestScore = -Infinity;
+
+    remaining.forEach((candidate, index) => {
+      const cuisine = candidate.cuisine.toLowerCase();
+      const adjusted =
+        candidate.ranking.score *
+        Math.pow(CUISINE_REPEAT_PENALTY, cuisineCounts.get(cuisine) ?? 0);
+
+      if (
+        adjusted > bestScore ||
+        (adjusted === bestScore && candidate.id < remaining[bestIndex].id)
+      ) {
+        bestIndex = index;
+        bestScore = adjusted;
+      }
+    });
+
+    const [best] = remaining.splice(bestIndex, 1);
+    const cuisine = best.cuisine.toLowerCase();
+    cuisineCounts.set(cuisine, (cuisineCounts.get(cuisine) ?? 0) + 1);
+    ranked.push(best);
+  }
+
+  return ranked;
+}
+
+export function encodeForYouCursor(cursor: ForYouCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+export function decodeForYouCursor(value: string): ForYouCursor {
+  try {
+    const parsed = JSON.parse(
+      Buffer.from(value, "base64url").toString("utf8")
+    ) as ForYouCursor;
+
+    if (
+      typeof parsed.asOf !== "string" ||
+      isNaN(new Date(parsed.asOf).getTime()) ||
+      !Number.isInteger(parsed.offset) ||
+      parsed.offset < 0
+    ) {
+      throw new Error("Malformed cursor");
+    }
+
+    return parsed;
+  } catch {
+    throw errors.badRequest("Invalid discover cursor");
+  }
+}
+
+// Net upvotes a perfect taste-profile match is worth in the top-voted sample
+export const DISCOVER_TASTE_BOOST = 5;
+
+// Net votes; spelled out again in ORDER BY since Postgres won't read an
+// output alias inside an expression
+const NET_VOTES_SQL = `COALESCE(
+        SUM(CASE WHEN v."voteType" = 'upvote' THEN 1 ELSE 0 END) - 
+        SUM(CASE WHEN v."voteType" = 'downvote' THEN 1 ELSE 0 END), 
+        0
+      )`;
+
+/**
+ * SQL for the top-voted discover sample
+ * Conditions may use placeholders up to params.length; the taste vector and
+ * limit are numbered after them.
+ */
+export function buildTopRecipesQuery(options: {
+  conditions: string[];
+  params: unknown[];
+  limit: number;
+  tasteVector?: string | null; // Postgres vector literal
+  embeddingVersion: number;
+}): { query: string; params: unknown[] } {
+  const { conditions, limit, tasteVector, embeddingVersion } = options;
+  const params = [...options.params];
+
+  const whereClause =
+    conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+
+  // A close taste match is worth a few net upvotes
+  let orderBy = "score";
+  if (tasteVector) {
+    params.push(tasteVector);
+    orderBy = `${NET_VOTES_SQL} + ${DISCOVER_TASTE_BOOST} * CASE WHEN r.embedding IS NOT NULL AND r."embeddingVersion" = ${embeddingVersion} THEN 1 - (r.embedding <=> $${params.length}::vector) ELSE 0 END`;
+  }
+  params.push(limit);
+
+  const query = `
+    SELECT 
+      r.id,
+      r."userId",
+      r.title,
+      r.description,
+      r."imageUrl",
+      r.servings,
+      r."totalMinutes",
+      r.cuisine,
+      r.tags,
+      r.ingredients,
+      r.steps,
+      r.source,
+      r."classificationVersion",
+      r."createdAt",
+      r."updatedAt",
+      rp.slug,
+      rp."isPublished",
+      rp."publishedAt",
+      u."displayName" AS "ownerName",
+      COALESCE(SUM(CASE WHEN v."voteType" = 'upvote' THEN 1 ELSE 0 END), 0)::int AS upvotes,
+      COALESCE(SUM(CASE WHEN v."voteType" = 'downvote' THEN 1 ELSE 0 END), 0)::int AS downvotes,
+      ${NET_VOTES_SQL}::int AS score
+    FROM "Recipe" r
+    LEFT JOIN "RecipeVote" v ON r.id = v."recipeId"
+    LEFT JOIN "RecipePublication" rp ON rp."recipeId" = r.id AND rp."isPublished" = true
+    LEFT JOIN "User" u ON u.id = r."userId"
+    ${whereClause}
+    GROUP BY r.id, r."userId", r.title, r.description, r."imageUrl", r.servings, r."totalMinutes", 
+             r.cuisine, r.tags, r.ingredients, r.steps, r.source, r."classificationVersion",
+             r."createdAt", r."updatedAt",
+             rp.slug, rp."isPublished", rp."publishedAt", u."displayName"
+    ORDER BY ${orderBy} DESC, r."createdAt" DESC
+    LIMIT $${params.length}
+  `;
+
+  return { query, params };
+}
@@ -0,0 +1,311 @@
+import { prisma } from "./prisma";
+import {
+  embeddingToPostgresVector,
+  generatePreferencesEmbedding,
+  RECIPE_EMBEDDING_VERSION,
+} from "./embedding-utils";
+import { getFriendIds } from "./friend-utils";
+import { getTasteEmbedding } from "./taste-profile-utils";
+import {
+  buildDietarySqlFilter,
+  meetsDietarySqlFilter,
+  TASTE_SIMILARITY_WEIGHT,
+} from "./recipe-search-utils";
+import {
+  decodeForYouCursor,
+  encodeForYouCursor,
+  rankForYouCandidates,
+  type ForYouScore,
+} from "./discover-ranking-utils";
+
+// Recipes scored per request; pages are cut from this ranked pool
+const FOR_YOU_POOL_SIZE = 300;
+
+interface ChefIntakePreferences {
+  dietStyle?: string;
+  goals?: string[];
+  allergies?: string[];
+  exclusions?: string[];
+  cuisinePreferences?: Array<{ cuisine: string; level: string }>;
+  cookingSkillLevel?: string;
+  maxDinnerMinutes?: number;
+  preferencesExplanation?: string;
+}
+
+export interface ForYouRecipe {
+  id: string;
+  userId: string;
+  title: string;
+  description: string | null;
+  imageUrl: string | null;
+  servings: number | null;
+  totalMinutes: number | null;
+  cuisine: string;
+  tags: unknown;
+  ingredients: unknown;
+  steps: unknown;
+  source: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+  ownerName: string | null;
+  slug: string | null;
+  isPublished: boolean | null;
+  publishedAt: Date | null;
+  upvotes: number;
+  downvotes: number;
+  score: number;
+  ranking: ForYouScore;
+}
+
+/**
+ * Preference embedding blended with the taste profile, as a vector literal
+ * Either half can be missing; null when there's nothing to compare against.
+ */
+async function getViewerVectors(
+  viewerId: string,
+  chefIntake: ChefIntakePreferences | null
+) {
+  let preferencesVector: string | null = null;
+  if (chefIntake) {
+    try {
+      preferencesVector = embeddingToPostgresVector(
+        await generatePreferencesEmbedding(chefIntake)
+      );
+    } catch (error) {
+      console.error("⚠️  Failed to embed preferences for discover:", error);
+    }
+  }
+
+  return {
+    preferencesVector,
+    tasteVector: await getTasteEmbedding(viewerId),
+  };
+}
+
+/**
+ * Other users' recipes ranked for the viewer by preference/taste similarity,
+ * decayed vote score, friend affinity, novelty and cuisine spread
+ *
+ * Every page is ranked against the snapshot time stored in the cursor
+ * (recipes, votes, saves and cooks after it are ignored), so scrolling
+ * doesn't repeat or skip items as new activity comes in. Votes keep no
+ * history, so one flipped after the snapshot drops out of the counts and a
+ * deleted one is gone; either can still nudge a score between pages.
+ */
+export async function getForYouRecipes(
+  viewerId: string | undefined,
+  options: { count?: number; cursor?: string } = {}
+): Promise<{ recipes: ForYouRecipe[]; nextCursor: string | null }> {
+  const { count = 10 } = options;
+  const cursor = options.cursor
+    ? decodeForYouCursor(options.cursor)
+    : { asOf: new Date().toISOString(), offset: 0 };
+  const asOf = new Date(cursor.asOf);
+
+  const profile = viewerId
+    ? await prisma.userProfile.findUnique({
+        where: { userId: viewerId },
+        select: { chefIntake: true },
+      })
+    : null;
+  const chefIntake =
+    (profile?.chefIntake as ChefIntakePreferences | null) ?? null;
+
+  const conditions = [`r."createdAt" <= $1`];
+  const params: unknown[] = [asOf];
+  let paramIndex = 2;
+
+  if (viewerId) {
+    conditions.push(`r."userId" <> $${paramIndex++}`);
+    params.push(viewerId);
+  }
+
+  let dietary: ReturnType<typeof buildDietarySqlFilter> | null = null;
+  if (chefIntake) {
+    dietary = buildDietarySqlFilter(chefIntake, paramIndex, "r");
+    conditions.push(...dietary.conditions);
+    params.push(...dietary.params);
+    paramIndex = dietary.nextParamIndex;
+  }
+
+  const { preferencesVector, tasteVector } = viewerId
+    ? await getViewerVectors(viewerId, chefIntake)
+    : { preferencesVector: null, tasteVector: null };
+
+  const similarityTerms: string[] = [];
+  if (preferencesVector) {
+    similarityTerms.push(
+      `${tasteVector ? 1 - TASTE_SIMILARITY_WEIGHT : 1} * (1 - (r.embedding <=> $${paramIndex++}::vector))`
+    );
+    params.push(preferencesVector);
+  }
+  if (tasteVector) {
+    similarityTerms.push(
+      `${preferencesVector ? TASTE_SIMILARITY_WEIGHT : 1} * (1 - (r.embedding <=> $${paramIndex++}::vector))`
+    );
+    params.push(tasteVector);
+  }
+  const similarity =
+    similarityTerms.length > 0
+      ? `CASE WHEN r.embedding IS NOT NULL AND r."embeddingVersion" = ${RECIPE_EMBEDDING_VERSION} THEN ${similarityTerms.join(" + ")} END`
+      : "NULL::float";
+
+  const candidates = await prisma.$queryRawUnsafe<
+    Array<
+      Omit<ForYouRecipe, "ranking"> & {
+        classificationVersion: number | null;
+        similarity: number | null;
+      }
+    >
+  >(
+    `
+    WITH votes AS (
+      SELECT "recipeId",
+        COUNT(*) FILTER (WHERE "voteType" = 'upvote')::int AS upvotes,
+        COUNT(*) FILTER (WHERE "voteType" = 'downvote')::int AS downvotes
+      FROM "RecipeVote"
+      WHERE "updatedAt" <= $1
+      GROUP BY "recipeId"
+    )
+    SELECT
+      r.id,
+      r."userId",
+      r.title,
+      r.description,
+      r."imageUrl",
+      r.servings,
+      r."totalMinutes",
+      r.cuisine,
+      r.tags,
+      r.ingredients,
+      r.steps,
+      r.source,
+      r."classificationVersion",
+      r."createdAt",
+      r."updatedAt",
+      rp.slug,
+      rp."isPublished",
+      rp."publishedAt",
+      u."displayName" AS "ownerName",
+      COALESCE(v.upvotes, 0) AS upvotes,
+      COALESCE(v.downvotes, 0) AS downvotes,
+      COALESCE(v.upvotes - v.downvotes, 0) AS score,
+      ${similarity} AS similarity
+    FROM "Recipe" r
+    LEFT JOIN votes v ON v."recipeId" = r.id
+    LEFT JOIN "RecipePublication" rp ON rp."recipeId" = r.id AND rp."isPublished" = true
+    LEFT JOIN "User" u ON u.id = r."userId"
+    WHERE ${conditions.join(" AND ")}
+    ORDER BY similarity DESC NULLS LAST, score DESC, r.id
+    LIMIT $${paramIndex}
+  `,
+    ...params,
+    FOR_YOU_POOL_SIZE
+  );
+
+  const pool = dietary
+    ? candidates.filter((recipe) => meetsDietarySqlFilter(recipe, dietary))
+    : candidates;
+  const poolIds = pool.map((recipe) => recipe.id);
+
+  const friendIds = viewerId ? await getFriendIds(viewerId) : [];
+  const [saves, usages, cooks] = viewerId
+    ? await Promise.all([
+        prisma.feedActivity.findMany({
+          where: {
+            activityType: "recipe_saved",
+            userId: { in: [viewerId, ...friendIds] },
+            recipeId: { in: poolIds },
+            createdAt: { lte: asOf },
+          },
+          select: { userId: true, recipeId: true },
+        }),
+        prisma.recipeUsage.groupBy({
+          by: ["recipeId"],
+          where: {
+            userId: viewerId,
+            recipeId: { in: poolIds },
+            usedAt: { lte: asOf },
+          },
+          _max: { usedAt: true },
+        }),
+        prisma.cookEvent.groupBy({
+          by: ["recipeId"],
+          where: {
+            userId: viewerId,
+            recipeId: { in: poolIds },
+            cookedAt: { lte: asOf },
+          },
+          _max: { cookedAt: true },
+        }),
+      ])
+    : [[], [], []];
+
+  const friendSet = new Set(friendIds);
+  const friendSaves = new Map<string, number>();
+  const viewerSaves = new Set<string>();
+  for (const save of saves) {
+    if (!save.recipeId) continue;
+    if (save.userId === viewerId) {
+      viewerSaves.add(save.recipeId);
+    } else {
+      friendSaves.set(save.recipeId, (friendSaves.get(save.recipeId) ?? 0) + 1);
+    }
+  }
+  // Planned or cooked, whichever was more recent
+  const lastUsed = new Map(
+    usages.map((usage) => [usage.recipeId, usage._max.usedAt])
+  );
+  for (const cook of cooks) {
+    const planned = lastUsed.get(cook.recipeId);
+    if (cook._max.cookedAt && (!planned || cook._max.cookedAt > planned)) {
+      lastUsed.set(cook.recipeId, cook._max.cookedAt);
+    }
+  }
+
+  const ranked = rankForYouCandidates(
+    pool.map((recipe) => ({
+      ...recipe,
+      createdAt: new Date(recipe.createdAt),
+      byFriend: friendSet.has(recipe.userId),
+      friendSaves: friendSaves.get(recipe.id) ?? 0,
+      lastUsedAt: lastUsed.get(recipe.id) ?? null,
+      savedByViewer: viewerSaves.has(recipe.id),
+    })),
+    asOf
+  );
+
+  const page = ranked.slice(cursor.offset, cursor.offset + count);
+  const nextOffset = cursor.offset + page.length;
+
+  return {
+    recipes: page.map((recipe) => ({
+      id: recipe.id,
+      userId: recipe.userId,
+      title: recipe.title,
+      description: recipe.description,
+      imageUrl: recipe.imageUrl,
+      servings: recipe.servings,
+      totalMinutes: recipe.totalMinutes,
+      cuisine: recipe.cuisine,
+      tags: recipe.tags,
+      ingredients: recipe.ingredients,
+      steps: recipe.steps,
+      source: recipe.source,
+      createdAt: recipe.createdAt,
+      updatedAt: recipe.updatedAt,
+      ownerName: recipe.ownerName,
+      slug: recipe.slug,
+      isPublished: recipe.isPublished,
+      publishedAt: recipe.publishedAt,
+      upvotes: recipe.upvotes,
+      downvotes: recipe.downvotes,
+      score: recipe.score,
+      ranking: recipe.ranking,
+    })),
+    nextCursor:
+      nextOffset < ranked.length
+        ? encodeForYouCursor({ asOf: cursor.asOf, offset: nextOffset })
+        : null,
+  };
+}
@@ -0,0 +1,194 @@
+import { prisma } from "./prisma";
+import type { EmbeddingJob } from "@prisma/client";
+import {
+  generateRecipeEmbedding,
+  RECIPE_EMBEDDING_VERSION,
+} from "./embedding-utils";
+
+export const DEFAULT_EMBEDDING_BATCH_SIZE = 50;
+
+// Missing, unversioned or built from an older recipe-text format
+const STALE_EMBEDDING_CONDITION = `(embedding IS NULL OR "embeddingVersion" IS DISTINCT FROM $1)`;
+
+interface EmbeddableRecipe {
+  id: string;
+  title: string;
+  description: string | null;
+  tags: unknown;
+  ingredients: unknown;
+}
+
+/**
+ * Embed one recipe and stamp it with the current version
+ */
+export async function embedRecipe(recipe: EmbeddableRecipe): Promise<void> {
+  const embedding = await generateRecipeEmbedding({
+    title: recipe.title,
+    description: recipe.description,
+    tags: recipe.tags,
+    ingredients: recipe.ingredients,
+  });
+
+  await prisma.$executeRawUnsafe(
+    `UPDATE "Recipe" SET embedding = $1::vector, "embeddingVersion" = $2 WHERE id = $3`,
+    `[${embedding.join(",")}]`,
+    RECIPE_EMBEDDING_VERSION,
+    recipe.id
+  );
+}
+
+/**
+ * Re-embed a recipe after its text changed
+ * Failures are logged rather than thrown; the recipe stays stale and the
+ * next embedding job picks it up.
+ */
+export async function reembedRecipe(recipeId: string): Promise<boolean> {
+  try {
+    const recipe = await prisma.recipe.findUnique({
+      where: { id: recipeId },
+      select: {
+        id: true,
+        title: true,
+        description: true,
+        tags: true,
+        ingredients: true,
+      },
+    });
+    if (!recipe) return false;
+
+    await embedRecipe(recipe);
+    return true;
+  } catch (error) {
+    console.error(`⚠️  Failed to re-embed recipe ${recipeId}:`, error);
+    return false;
+  }
+}
+
+export async function countStaleEmbeddings(): Promise<number> {
+  const [{ count }] = await prisma.$queryRawUnsafe<Array<{ count: number }>>(
+    `SELECT COUNT(*)::int AS count FROM "Recipe" WHERE ${STALE_EMBEDDING_CONDITION}`,
+    RECIPE_EMBEDDING_VERSION
+  );
+  return count;
+}
+
+/**
+ * The unfinished job for the current version, or a new one
+ */
+export async function getOrCreateEmbeddingJob(): Promise<EmbeddingJob> {
+  const existing = await prisma.embeddingJob.findFirst({
+    where: {
+      targetVersion: RECIPE_EMBEDDING_VERSION,
+      status: { not: "completed" },
+    },
+    orderBy: { createdAt: "desc" },
+  });
+
+  if (existing) return existing;
+
+  return prisma.embeddingJob.create({
+    data: {
+      targetVersion: RECIPE_EMBEDDING_VERSION,
+      total: await countStaleEmbeddings(),
+    },
+  });
+}
+
+/**
+ * Embed the next batch of stale recipes after the job's cursor
+ * Recipes that fail are counted and skipped so one bad row can't stall the
+ * job; they stay stale for the next run.
+ */
+export async function runEmbeddingJobBatch(
+  job: EmbeddingJob,
+  batchSize = DEFAULT_EMBEDDING_BATCH_SIZE
+): Promise<EmbeddingJob> {
+  const recipes = await prisma.$queryRawUnsafe<EmbeddableRecipe[]>(
+    `
+    SELECT id, title, description, tags, ingredients
+    FROM "Recipe"
+    WHERE ${STALE_EMBEDDING_CONDITION} AND id > $2
+    ORDER BY id
+    LIMIT $3
+  `,
+    job.targetVersion,
+    job.cursor ?? "",
+    batchSize
+  );
+
+  if (recipes.length === 0) {
+    return prisma.embeddingJob.update({
+      where: { id: job.id },
+      data: { status: "completed", finishedAt: new Date() },
+    });
+  }
+
+  let processed = 0;
+  let failed = 0;
+  let lastError: string | undefined;
+
+  for (const recipe of recipes) {
+    try {
+      await embedRecipe(recipe);
+      processed++;
+    } catch (error) {
+      failed++;
+      lastError = `${recipe.id}: ${error instanceof Error ? error.message : String(error)}`;
+      console.error(`  ✗ Failed to embed "${recipe.title}":`, error);
+    }
+  }
+
+  return prisma.embeddingJob.update({
+    where: { id: job.id },
+    data: {
+      status: "running",
+      startedAt: job.startedAt ?? new Date(),
+      cursor: recipes[recipes.length - 1].id,
+      processed: { increment: processed },
+      failed: { increment: failed },
+      ...(lastError ? { lastError } : {}),
+    },
+  });
+}
+
+/**
+ * Work through stale recipes batch by batch, saving progress after each
+ * Stops early after `maxBatches`; calling again resumes from the cursor.
+ */
+export async function runEmbeddingJob(
+  options: {
+    batchSize?: number;
+    maxBatches?: number;
+    onProgress?: (job: EmbeddingJob) => void;
+  } = {}
+): Promise<EmbeddingJob> {
+  const {
+    batchSize = DEFAULT_EMBEDDING_BATCH_SIZE,
+    maxBatches,
+    onProgress,
+  } = options;
+
+  let job = await getOrCreateEmbeddingJob();
+  let batches = 0;
+
+  try {
+    while (job.status !== "completed") {
+      if (maxBatches !== undefined && batches >= maxBatches) break;
+
+      job = await runEmbeddingJobBatch(job, batchSize);
+      batches++;
+      onProgress?.(job);
+    }
+  } catch (error) {
+    await prisma.embeddingJob.update({
+      where: { id: job.id },
+      data: {
+        status: "failed",
+        lastError: error instanceof Error ? error.message : String(error),
+      },
+    });
+    throw error;
+  }
+
+  return job;
+}
@@ -40,6 +40,11 @@ export async function generateEmbedding(text: string): Promise<number[]> {
   return Array.from(output.data as Float32Array);
 }
 
+// Stored in Recipe.embeddingVersion. Bump whenever the model or the recipe
+// text built below changes; lib/embedding-job-utils.ts re-embeds older rows
+// and search ignores them until then.
+export const RECIPE_EMBEDDING_VERSION = 1;
+
 /**
  * Generate embedding for a recipe
  * Combines title, description, tags, and ingredients for semantic richness
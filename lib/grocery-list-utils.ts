@@ -0,0 +1,496 @@
+import { prisma } from "./prisma";
+import { errors } from "./api-errors";
+import {
+  isMetricUnit,
+  normalizeIngredientQuantity,
+  normalizeUnit,
+  pickDisplayUnit,
+  toBaseUnit,
+  type UnitFamily,
+} from "./unit-utils";
+import type {
+  GroceryItem,
+  IngredientJSON,
+  MealPlanJSON,
+  TemplateMealPlanDay,
+} from "./types";
+
+export type GroceryCategory =
+  | "produce"
+  | "meat & seafood"
+  | "dairy & eggs"
+  | "bakery"
+  | "frozen"
+  | "spices & seasonings"
+  | "pantry"
+  | "beverages"
+  | "other";
+
+const CATEGORY_ORDER: GroceryCategory[] = [
+  "produce",
+  "meat & seafood",
+  "dairy & eggs",
+  "bakery",
+  "frozen",
+  "spices & seasonings",
+  "pantry",
+  "beverages",
+  "other",
+];
+
+// First matching category wins, so more specific words come first
+const CATEGORY_KEYWORDS: Array<[GroceryCategory, string[]]> = [
+  ["frozen", ["frozen", "ice cream"]],
+  [
+    "pantry",
+    ["stock", "broth", "bouillon", "peanut butter", "coconut milk"],
+  ],
+  [
+    "spices & seasonings",
+    [
+      "salt",
+      "pepper flakes",
+      "black pepper",
+      "peppercorn",
+      "cumin",
+      "paprika",
+      "oregano",
+      "cinnamon",
+      "nutmeg",
+      "turmeric",
+      "chili powder",
+      "curry powder",
+      "garam masala",
+      "bay leaf",
+      "thyme",
+      "rosemary",
+      "spice",
+      "seasoning",
+      "vanilla",
+    ],
+  ],
+  [
+    "meat & seafood",
+    [
+      "chicken",
+      "beef",
+      "pork",
+      "lamb",
+      "turkey",
+      "bacon",
+      "sausage",
+      "ham",
+      "steak",
+      "fish",
+      "salmon",
+      "tuna",
+      "cod",
+      "shrimp",
+      "prawn",
+      "crab",
+      "mussel",
+      "clam",
+      "scallop",
+    ],
+  ],
+  [
+    "dairy & eggs",
+    [
+      "milk",
+      "cheese",
+      "butter",
+      "cream",
+      "yogurt",
+      "egg",
+      "parmesan",
+      "mozzarella",
+      "cheddar",
+      "feta",
+      "ricotta",
+    ],
+  ],
+  ["bakery", ["bread", "bun", "tortilla", "pita", "bagel", "baguette", "roll"]],
+  [
+    "beverages",
+    ["wine", "beer", "juice", "coffee", "tea", "soda", "sparkling water"],
+  ],
+  [
+    "pantry",
+    [
+      "flour",
+      "sugar",
+      "oil",
+      "vinegar",
+      "rice",
+      "pasta",
+      "noodle",
+      "bean",
+      "lentil",
+      "chickpea",
+      "sauce",
+      "honey",
+      "syrup",
+      "oats",
+      "nut",
+      "seed",
+      "canned",
+      "baking",
+      "yeast",
+      "cocoa",
+      "chocolate",
+      "mustard",
+      "ketchup",
+      "mayo",
+    ],
+  ],
+  [
+    "produce",
+    [
+      "onion",
+      "garlic",
+      "tomato",
+      "potato",
+      "carrot",
+      "celery",
+      "pepper",
+      "lettuce",
+      "spinach",
+      "kale",
+      "cabbage",
+      "broccoli",
+      "cauliflower",
+      "zucchini",
+      "cucumber",
+      "mushroom",
+      "lemon",
+      "lime",
+      "apple",
+      "banana",
+      "berry",
+      "berries",
+      "orange",
+      "avocado",
+      "ginger",
+      "herb",
+      "basil",
+      "parsley",
+      "cilantro",
+      "mint",
+      "scallion",
+      "leek",
+      "squash",
+      "corn",
+      "pea",
+    ],
+  ],
+];
+
+export interface GeneratedGroceryItem extends GroceryItem {
+  canonicalId?: string;
+  recipes: Array<{ id: string; title: string }>;
+}
+
+export interface GroceryListResult {
+  items: GeneratedGroceryItem[];
+  // Ingredients fully covered by inventory, with what is on hand
+  coveredByInventory: GeneratedGroceryItem[];
+  // Recipes referenced by the plan that could not be loaded
+  missingRecipeIds: string[];
+}
+
+type PlannedRecipe = {
+  recipe: {
+    id: string;
+    title: string;
+    servings: number | null;
+    ingredients: IngredientJSON[];
+  };
+  // Servings the plan asks for; null keeps the recipe's own yield
+  servings: number | null;
+};
+
+type InventoryStock = {
+  name: string;
+  canonicalId: string | null;
+  quantity: number;
+  unit: string;
+};
+
+type Bucket = {
+  key: string;
+  name: string;
+  canonicalId?: string;
+  // "family:<volume|mass|count>", "unit:<raw unit>" or "none"
+  measure: string;
+  family: UnitFamily | null;
+  unit: string;
+  quantity: number | null;
+  metric: boolean;
+  recipes: Map<string, string>;
+};
+
+export function getIngredientKey(ingredient: {
+  name: string;
+  canonicalId?: string | null;
+}) {
+  return (
+    ingredient.canonicalId ||
+    ingredient.name
+      .toLowerCase()
+      .replace(/[^\w\s]/g, "")
+      .trim()
+      .replace(/\s+/g, "_")
+  );
+}
+
+export function categorizeIngredient(name: string): GroceryCategory {
+  const lower = name.toLowerCase();
+
+  for (const [category, keywords] of CATEGORY_KEYWORDS) {
+    if (
+      keywords.some((keyword) =>
+        new RegExp(`\\b${keyword}(e?s)?\\b`).test(lower)
+      )
+    ) {
+      return category;
+    }
+  }
+
+  return "other";
+}
+
+function roundQuantity(value: number) {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Sum what the user has on hand in the bucket's measure
+ */
+function stockFor(bucket: Bucket, stock: InventoryStock[]) {
+  let total = 0;
+  let found = false;
+
+  for (const item of stock) {
+    if (bucket.family) {
+      const base = toBaseUnit(item.quantity, item.unit);
+      if (base && base.family === bucket.family) {
+        total += base.quantity;
+        found = true;
+      }
+    } else if (normalizeUnit(item.unit) === bucket.unit) {
+      total += item.quantity;
+      found = true;
+    }
+  }
+
+  return found ? total : null;
+}
+
+function toGroceryItem(
+  bucket: Bucket,
+  quantity: number | null
+): GeneratedGroceryItem {
+  let display: { quantity?: number; unit?: string } = {};
+  if (quantity !== null) {
+    display = bucket.family
+      ? pickDisplayUnit(quantity, bucket.family, bucket.metric)
+      : { quantity, unit: bucket.unit };
+    display.quantity = roundQuantity(display.quantity!);
+  }
+
+  return {
+    id: `${bucket.key}:${bucket.measure}`,
+    name: bucket.name,
+    category: categorizeIngredient(bucket.name),
+    ...(display.quantity !== undefined ? { quantity: display.quantity } : {}),
+    ...(display.unit ? { unit: display.unit } : {}),
+    acquired: false,
+    ...(bucket.canonicalId ? { canonicalId: bucket.canonicalId } : {}),
+    recipes: Array.from(bucket.recipes, ([id, title]) => ({ id, title })),
+  };
+}
+
+/**
+ * Combine planned recipes' ingredients into one shopping list
+ *
+ * Ingredients are grouped by canonicalId (or normalized name). Quantities in
+ * convertible units are summed through ml/g; anything else is summed per unit,
+ * and ingredients without a usable quantity are listed once without one.
+ * Inventory is then subtracted where its unit is compatible.
+ */
+export function aggregateGroceryItems(
+  planned: PlannedRecipe[],
+  inventory: InventoryStock[] = []
+): Omit<GroceryListResult, "missingRecipeIds"> {
+  const buckets = new Map<string, Bucket>();
+
+  for (const { recipe, servings } of planned) {
+    const scale =
+      servings && recipe.servings ? servings / recipe.servings : 1;
+
+    for (const ingredient of recipe.ingredients) {
+      if (!ingredient?.name) continue;
+
+      const key = getIngredientKey(ingredient);
+      const amount = normalizeIngredientQuantity(ingredient);
+      const qty = amount ? (amount.quantityMax ?? amount.quantity) : null;
+      const unit = amount?.unit ?? "";
+      const family =
+        !amount || amount.family === "other" ? null : amount.family;
+      const measure =
+        qty === null ? "none" : family ? `family:${family}` : `unit:${unit}`;
+
+      const bucketKey = `${key}|${measure}`;
+      let bucket = buckets.get(bucketKey);
+      if (!bucket) {
+        bucket = {
+          key,
+          name: ingredient.name.trim(),
+          canonicalId: ingredient.canonicalId,
+          measure,
+          family,
+          unit,
+          quantity: qty === null ? null : 0,
+          metric: true,
+          recipes: new Map(),
+        };
+        buckets.set(bucketKey, bucket);
+      }
+
+      if (qty !== null && bucket.quantity !== null) {
+        const amount = qty * scale;
+        bucket.quantity += family
+          ? toBaseUnit(amount, unit)!.quantity
+          : amount;
+        if (family && !isMetricUnit(unit)) {
+          bucket.metric = false;
+        }
+      }
+
+      bucket.recipes.set(recipe.id, recipe.title);
+    }
+  }
+
+  const stockByKey = new Map<string, InventoryStock[]>();
+  for (const item of inventory) {
+    const key = getIngredientKey(item);
+    stockByKey.set(key, [...(stockByKey.get(key) ?? []), item]);
+  }
+
+  const items: GeneratedGroceryItem[] = [];
+  const coveredByInventory: GeneratedGroceryItem[] = [];
+
+  for (const bucket of buckets.values()) {
+    const stock = stockByKey.get(bucket.key) ?? [];
+
+    if (bucket.quantity === null) {
+      // Nothing to compare against, so having any is enough
+      if (stock.length > 0) {
+        coveredByInventory.push(toGroceryItem(bucket, null));
+      } else {
+        items.push(toGroceryItem(bucket, null));
+      }
+      continue;
+    }
+
+    const onHand = stockFor(bucket, stock);
+    const remaining =
+      onHand === null ? bucket.quantity : bucket.quantity - onHand;
+
+    if (onHand !== null && remaining <= bucket.quantity * 0.01) {
+      coveredByInventory.push(toGroceryItem(bucket, bucket.quantity));
+    } else {
+      items.push(toGroceryItem(bucket, remaining));
+    }
+  }
+
+  const byCategory = (a: GeneratedGroceryItem, b: GeneratedGroceryItem) =>
+    CATEGORY_ORDER.indexOf(a.category as GroceryCategory) -
+      CATEGORY_ORDER.indexOf(b.category as GroceryCategory) ||
+    a.name.localeCompare(b.name);
+
+  return {
+    items: items.sort(byCategory),
+    coveredByInventory: coveredByInventory.sort(byCategory),
+  };
+}
+
+type MealSlot = { recipeId: string; servings?: number };
+
+function mealSlotsFromTemplate(days: TemplateMealPlanDay[]): MealSlot[] {
+  return days.flatMap((day) =>
+    [day.meals.breakfast, day.meals.lunch, day.meals.dinner]
+      .filter((meal) => meal?.recipeId)
+      .map((meal) => ({ recipeId: meal!.recipeId, servings: meal!.servings }))
+  );
+}
+
+function mealSlotsFromWeek(week: MealPlanJSON): MealSlot[] {
+  return week.days.flatMap((day) =>
+    [day.meals.breakfast, day.meals.lunch, day.meals.dinner]
+      .filter((meal) => meal?.id)
+      .map((meal) => ({ recipeId: meal!.id, servings: meal!.servings }))
+  );
+}
+
+/**
+ * Build a grocery list for a stored meal plan template or a device week
+ */
+export async function generateGroceryList(
+  userId: string,
+  source: { mealPlanId: string } | { week: MealPlanJSON },
+  options: { subtractInventory?: boolean } = {}
+): Promise<GroceryListResult> {
+  let slots: MealSlot[];
+
+  if ("mealPlanId" in source) {
+    const mealPlan = await prisma.mealPlan.findUnique({
+      where: { id: source.mealPlanId },
+      select: { days: true },
+    });
+    if (!mealPlan) {
+      throw errors.notFound("Meal plan not found");
+    }
+    slots = mealSlotsFromTemplate(
+      mealPlan.days as unknown as TemplateMealPlanDay[]
+    );
+  } else {
+    slots = mealSlotsFromWeek(source.week);
+  }
+
+  const recipeIds = Array.from(new Set(slots.map((slot) => slot.recipeId)));
+  const recipes = await prisma.recipe.findMany({
+    where: { id: { in: recipeIds } },
+    select: { id: true, title: true, servings: true, ingredients: true },
+  });
+  const recipesById = new Map(recipes.map((recipe) => [recipe.id, recipe]));
+
+  const planned: PlannedRecipe[] = [];
+  for (const slot of slots) {
+    const recipe = recipesById.get(slot.recipeId);
+    if (!recipe) continue;
+
+    planned.push({
+      recipe: {
+        ...recipe,
+        ingredients: Array.isArray(recipe.ingredients)
+          ? (recipe.ingredients as unknown as IngredientJSON[])
+          : [],
+      },
+      servings: slot.servings ?? null,
+    });
+  }
+
+  const inventory =
+    options.subtractInventory === false
+      ? []
+      : await prisma.inventoryItem.findMany({
+          where: { userId },
+          select: { name: true, canonicalId: true, quantity: true, unit: true },
+        });
+
+  return {
+    ...aggregateGroceryItems(planned, inventory),
+    missingRecipeIds: recipeIds.filter((id) => !recipesById.has(id)),
+  };
+}
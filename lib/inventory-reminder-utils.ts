@@ -0,0 +1,241 @@
+import { prisma } from "./prisma";
+import { sendPushToUser } from "./push-notifications";
+import { searchRecipeByQuery } from "./recipe-search-utils";
+import {
+  getNotificationPreferences,
+  isValidTimezone,
+  isWithinQuietHours,
+  markExpiryReminderSent,
+} from "./notification-preference-utils";
+
+// Upper bound for a user's look-ahead window
+export const MAX_EXPIRY_REMINDER_DAYS = 14;
+
+// At most one reminder per user in this window, even if the job runs hourly
+const MIN_HOURS_BETWEEN_REMINDERS = 20;
+
+// Item names listed in the push body before "and N more"
+const MAX_NAMED_ITEMS = 3;
+
+type ExpiringItem = {
+  id: string;
+  name: string;
+  expiresAt: Date;
+};
+
+export type ExpiryReminderResult = {
+  usersChecked: number;
+  sent: number;
+  failed: number;
+  skipped: {
+    optedOut: number;
+    quietHours: number;
+    recentlyReminded: number;
+    nothingExpiring: number;
+    noDevices: number;
+  };
+};
+
+function localDateKey(date: Date, timezone: string) {
+  // en-CA formats as YYYY-MM-DD
+  return new Intl.DateTimeFormat("en-CA", {
+    timeZone: isValidTimezone(timezone) ? timezone : "UTC",
+  }).format(date);
+}
+
+function describeExpiry(expiresAt: Date, now: Date, timezone: string) {
+  const today = localDateKey(now, timezone);
+  const tomorrow = localDateKey(
+    new Date(now.getTime() + 24 * 60 * 60 * 1000),
+    timezone
+  );
+  const day = localDateKey(expiresAt, timezone);
+
+  if (day <= today) return "today";
+  if (day === tomorrow) return "tomorrow";
+
+  const days = Math.ceil(
+    (expiresAt.getTime() - now.getTime()) / (24 * 60 * 60 * 1000)
+  );
+  return `in ${days} days`;
+}
+
+/**
+ * Build the grouped push for a user's expiring items, soonest first
+ */
+export function buildExpiryReminder(
+  items: ExpiringItem[],
+  options: {
+    now: Date;
+    timezone: string;
+    suggestion?: { id: string; title: string } | null;
+  }
+) {
+  const sorted = [...items].sort(
+    (a, b) => a.expiresAt.getTime() - b.expiresAt.getTime()
+  );
+
+  const named = sorted
+    .slice(0, MAX_NAMED_ITEMS)
+    .map(
+      (item) =>
+        `${item.name} (${describeExpiry(item.expiresAt, options.now, options.timezone)})`
+    );
+  const remaining = sorted.length - named.length;
+
+  let body = named.join(", ");
+  if (remaining > 0) {
+    body += ` and ${remaining} more`;
+  }
+  body += ".";
+  if (options.suggestion) {
+    body += ` Use it up: ${options.suggestion.title}`;
+  }
+
+  return {
+    title:
+      sorted.length === 1
+        ? "1 item expiring soon"
+        : `${sorted.length} items expiring soon`,
+    body,
+    data: {
+      type: "inventory_expiring",
+      itemIds: sorted.map((item) => item.id),
+      ...(options.suggestion ? { recipeId: options.suggestion.id } : {}),
+    },
+  };
+}
+
+async function findUseItUpRecipe(userId: string, items: ExpiringItem[]) {
+  try {
+    const [recipe] = await searchRecipeByQuery(
+      `Recipe using ${items.map((item) => item.name).join(", ")}`,
+      { limit: 1, minSimilarity: 0.5, visibleToUserId: userId }
+    );
+    return recipe ? { id: recipe.id, title: recipe.title } : null;
+  } catch (error) {
+    console.error("Failed to find use-it-up recipe", error);
+    return null;
+  }
+}
+
+/**
+ * Remind one user, or say why they were skipped
+ */
+async function remindUser(
+  userId: string,
+  now: Date,
+  dryRun: boolean
+): Promise<"sent" | keyof ExpiryReminderResult["skipped"]> {
+  const preferences = await getNotificationPreferences(userId);
+
+  if (!preferences.expiryReminders) {
+    return "optedOut";
+  }
+
+  if (isWithinQuietHours(preferences, now)) {
+    return "quietHours";
+  }
+
+  if (
+    preferences.lastExpiryReminderAt &&
+    now.getTime() - preferences.lastExpiryReminderAt.getTime() <
+      MIN_HOURS_BETWEEN_REMINDERS * 60 * 60 * 1000
+  ) {
+    return "recentlyReminded";
+  }
+
+  const days = Math.min(
+    Math.max(preferences.expiryReminderDays, 0),
+    MAX_EXPIRY_REMINDER_DAYS
+  );
+  const items = (await prisma.inventoryItem.findMany({
+    where: {
+      userId,
+      expiresAt: {
+        gte: now,
+        lte: new Date(now.getTime() + days * 24 * 60 * 60 * 1000),
+      },
+    },
+    select: { id: true, name: true, expiresAt: true },
+  })) as ExpiringItem[];
+
+  if (items.length === 0) {
+    return "nothingExpiring";
+  }
+
+  const deviceCount = await prisma.pushToken.count({
+    where: { userId, enabled: true },
+  });
+  if (deviceCount === 0) {
+    return "noDevices";
+  }
+
+  const suggestion = await findUseItUpRecipe(userId, items);
+  const reminder = buildExpiryReminder(items, {
+    now,
+    timezone: preferences.timezone,
+    suggestion,
+  });
+
+  if (dryRun) {
+    console.log(`[dry run] ${userId}: ${reminder.title} - ${reminder.body}`);
+  } else {
+    await sendPushToUser(userId, reminder);
+    await markExpiryReminderSent(userId, now);
+  }
+
+  return "sent";
+}
+
+/**
+ * Send one grouped push per user listing inventory items that expire within
+ * their reminder window. Users who opted out, are inside quiet hours or were
+ * reminded recently are skipped; quiet-hour users get picked up on a later run.
+ */
+export async function sendExpiryReminders(
+  options: { now?: Date; dryRun?: boolean } = {}
+): Promise<ExpiryReminderResult> {
+  const now = options.now ?? new Date();
+  const horizon = new Date(
+    now.getTime() + MAX_EXPIRY_REMINDER_DAYS * 24 * 60 * 60 * 1000
+  );
+
+  const result: ExpiryReminderResult = {
+    usersChecked: 0,
+    sent: 0,
+    failed: 0,
+    skipped: {
+      optedOut: 0,
+      quietHours: 0,
+      recentlyReminded: 0,
+      nothingExpiring: 0,
+      noDevices: 0,
+    },
+  };
+
+  const users = await prisma.inventoryItem.findMany({
+    where: { expiresAt: { gte: now, lte: horizon } },
+    distinct: ["userId"],
+    select: { userId: true },
+  });
+
+  for (const { userId } of users) {
+    result.usersChecked++;
+
+    // One user's failure shouldn't hold up everyone else's reminder
+    try {
+      const outcome = await remindUser(userId, now, options.dryRun ?? false);
+      if (outcome === "sent") {
+        result.sent++;
+      } else {
+        result.skipped[outcome]++;
+      }
+    } catch (error) {
+      console.error(`Failed to send expiry reminder to ${userId}`, error);
+      result.failed++;
+    }
+  }
+
+  return result;
+}
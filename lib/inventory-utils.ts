@@ -0,0 +1,239 @@
+import { prisma } from "./prisma";
+import { errors } from "./api-errors";
+import { applySyncPayload } from "./profile-sync-utils";
+import type { InventoryItem, InventoryLocation } from "./types";
+import type {
+  InventoryItem as InventoryItemRecord,
+  Prisma,
+} from "@prisma/client";
+
+const INVENTORY_LOCATIONS: InventoryLocation[] = ["pantry", "fridge", "freezer"];
+
+export interface InventoryItemInput {
+  id?: string;
+  name: string;
+  canonicalId?: string | null;
+  location?: InventoryLocation;
+  quantity?: number;
+  unit?: string;
+  expiresAt?: string | null;
+  photoUri?: string | null;
+}
+
+/**
+ * Convert a database row to the JSON shape devices use
+ */
+export function formatInventoryItem(item: InventoryItemRecord): InventoryItem {
+  return {
+    id: item.id,
+    name: item.name,
+    canonicalId: item.canonicalId ?? undefined,
+    location: item.location,
+    quantity: item.quantity,
+    unit: item.unit,
+    expiresAt: item.expiresAt?.toISOString(),
+    photoUri: item.photoUri ?? undefined,
+    addedAt: item.addedAt.toISOString(),
+  };
+}
+
+function parseOptionalDate(value: string | null | undefined) {
+  if (value === undefined) return undefined;
+  if (value === null) return null;
+
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw errors.badRequest(`Invalid date: ${value}`);
+  }
+  return date;
+}
+
+/**
+ * Rewrite UserProfile.inventory from the table so synced devices pick up
+ * changes made through the inventory API
+ */
+async function mirrorInventoryToProfile(userId: string) {
+  // Read the version first: a sync that lands after this point is merged
+  // with the list below rather than overwritten by it
+  const profile = await prisma.userProfile.findUnique({
+    where: { userId },
+    select: { syncVersion: true },
+  });
+  const items = await prisma.inventoryItem.findMany({
+    where: { userId },
+    orderBy: { addedAt: "asc" },
+  });
+
+  await applySyncPayload(
+    userId,
+    { inventory: items.map(formatInventoryItem) },
+    profile?.syncVersion,
+    {
+      // A sync may have landed in between; the table follows the merged list
+      write: (tx, sections) =>
+        replaceInventoryFromSync(
+          tx,
+          userId,
+          sections.inventory as InventoryItem[]
+        ),
+    }
+  );
+}
+
+/**
+ * List a user's inventory, optionally filtered by location or expiry
+ */
+export async function listInventory(
+  userId: string,
+  filters: {
+    location?: InventoryLocation;
+    expiringBefore?: Date;
+  } = {}
+) {
+  return prisma.inventoryItem.findMany({
+    where: {
+      userId,
+      ...(filters.location ? { location: filters.location } : {}),
+      ...(filters.expiringBefore
+        ? { expiresAt: { not: null, lte: filters.expiringBefore } }
+        : {}),
+    },
+    orderBy: [{ location: "asc" }, { name: "asc" }],
+  });
+}
+
+export async function getInventoryItem(userId: string, itemId: string) {
+  const item = await prisma.inventoryItem.findUnique({
+    where: { userId_id: { userId, id: itemId } },
+  });
+
+  if (!item) {
+    throw errors.notFound("Inventory item not found");
+  }
+
+  return item;
+}
+
+export async function createInventoryItem(
+  userId: string,
+  input: InventoryItemInput
+) {
+  if (input.id) {
+    const existing = await prisma.inventoryItem.findUnique({
+      where: { userId_id: { userId, id: input.id } },
+      select: { id: true },
+    });
+    if (existing) {
+      throw errors.conflict("An inventory item with this id already exists");
+    }
+  }
+
+  const item = await prisma.inventoryItem.create({
+    data: {
+      ...(input.id ? { id: input.id } : {}),
+      userId,
+      name: input.name.trim(),
+      canonicalId: input.canonicalId || null,
+      location: input.location ?? "pantry",
+      quantity: input.quantity ?? 1,
+      unit: input.unit ?? "",
+      expiresAt: parseOptionalDate(input.expiresAt) ?? null,
+      photoUri: input.photoUri || null,
+    },
+  });
+
+  await mirrorInventoryToProfile(userId);
+
+  return item;
+}
+
+export async function updateInventoryItem(
+  userId: string,
+  itemId: string,
+  input: Partial<Omit<InventoryItemInput, "id">>
+) {
+  await getInventoryItem(userId, itemId);
+
+  const expiresAt = parseOptionalDate(input.expiresAt);
+
+  const item = await prisma.inventoryItem.update({
+    where: { userId_id: { userId, id: itemId } },
+    data: {
+      ...(input.name !== undefined ? { name: input.name.trim() } : {}),
+      ...(input.canonicalId !== undefined
+        ? { canonicalId: input.canonicalId || null }
+        : {}),
+      ...(input.location !== undefined ? { location: input.location } : {}),
+      ...(input.quantity !== undefined ? { quantity: input.quantity } : {}),
+      ...(input.unit !== undefined ? { unit: input.unit } : {}),
+      ...(expiresAt !== undefined ? { expiresAt } : {}),
+      ...(input.photoUri !== undefined
+        ? { photoUri: input.photoUri || null }
+        : {}),
+    },
+  });
+
+  await mirrorInventoryToProfile(userId);
+
+  return item;
+}
+
+export async function deleteInventoryItem(userId: string, itemId: string) {
+  await getInventoryItem(userId, itemId);
+
+  await prisma.inventoryItem.delete({
+    where: { userId_id: { userId, id: itemId } },
+  });
+
+  await mirrorInventoryToProfile(userId);
+}
+
+/**
+ * Replace the user's inventory rows with the merged list from a sync
+ * Runs inside the transaction that stores the profile, so the table and
+ * UserProfile.inventory can't drift apart
+ */
+export async function replaceInventoryFromSync(
+  tx: Prisma.TransactionClient,
+  userId: string,
+  items: InventoryItem[]
+) {
+  const validItems = items.filter(
+    (item) => item && typeof item.id === "string" && item.name
+  );
+
+  // Rewritten wholesale so a big pantry is a handful of queries, not one
+  // per item, inside the profile transaction
+  const existing = await tx.inventoryItem.findMany({
+    where: { userId },
+    select: { id: true, createdAt: true },
+  });
+  const createdAt = new Map(existing.map((item) => [item.id, item.createdAt]));
+
+  await tx.inventoryItem.deleteMany({ where: { userId } });
+  await tx.inventoryItem.createMany({
+    data: validItems.map((item) => ({
+      id: item.id,
+      userId,
+      name: item.name,
+      canonicalId: item.canonicalId || null,
+      location: INVENTORY_LOCATIONS.includes(item.location)
+        ? item.location
+        : ("pantry" as const),
+      quantity: Number.isFinite(Number(item.quantity))
+        ? Number(item.quantity)
+        : 1,
+      unit: item.unit ?? "",
+      expiresAt: safeDate(item.expiresAt),
+      photoUri: item.photoUri || null,
+      addedAt: safeDate(item.addedAt) ?? new Date(),
+      createdAt: createdAt.get(item.id),
+    })),
+  });
+}
+
+function safeDate(value: string | undefined): Date | null {
+  if (!value) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
@@ -119,6 +119,7 @@ export async function enrichMealPlanWithRecipes(
       tags: true,
       ingredients: true,
       steps: true,
+      nutrition: true,
     },
   });
 
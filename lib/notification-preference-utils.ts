@@ -0,0 +1,134 @@
+import { prisma } from "./prisma";
+import { errors } from "./api-errors";
+
+export type NotificationPreferences = {
+  expiryReminders: boolean;
+  expiryReminderDays: number;
+  quietHoursStart: number | null;
+  quietHoursEnd: number | null;
+  timezone: string;
+  lastExpiryReminderAt: Date | null;
+};
+
+const DEFAULT_PREFERENCES: NotificationPreferences = {
+  expiryReminders: true,
+  expiryReminderDays: 2,
+  quietHoursStart: null,
+  quietHoursEnd: null,
+  timezone: "UTC",
+  lastExpiryReminderAt: null,
+};
+
+export function isValidTimezone(timezone: string) {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Minutes after local midnight for `date` in the given zone
+ */
+export function getLocalMinutes(date: Date, timezone: string) {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: isValidTimezone(timezone) ? timezone : "UTC",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(date);
+
+  const hour = Number(parts.find((part) => part.type === "hour")?.value ?? 0);
+  const minute = Number(
+    parts.find((part) => part.type === "minute")?.value ?? 0
+  );
+
+  return hour * 60 + minute;
+}
+
+/**
+ * Whether `now` falls inside the user's quiet hours
+ * Windows that cross midnight (e.g. 22:00-07:00) are supported
+ */
+export function isWithinQuietHours(
+  preferences: Pick<
+    NotificationPreferences,
+    "quietHoursStart" | "quietHoursEnd" | "timezone"
+  >,
+  now: Date = new Date()
+) {
+  const { quietHoursStart: start, quietHoursEnd: end } = preferences;
+  if (start === null || end === null || start === end) {
+    return false;
+  }
+
+  const minutes = getLocalMinutes(now, preferences.timezone);
+
+  return start < end
+    ? minutes >= start && minutes < end
+    : minutes >= start || minutes < end;
+}
+
+export async function getNotificationPreferences(
+  userId: string
+): Promise<NotificationPreferences> {
+  const preference = await prisma.notificationPreference.findUnique({
+    where: { userId },
+  });
+
+  if (!preference) {
+    return { ...DEFAULT_PREFERENCES };
+  }
+
+  return {
+    expiryReminders: preference.expiryReminders,
+    expiryReminderDays: preference.expiryReminderDays,
+    quietHoursStart: preference.quietHoursStart,
+    quietHoursEnd: preference.quietHoursEnd,
+    timezone: preference.timezone,
+    lastExpiryReminderAt: preference.lastExpiryReminderAt,
+  };
+}
+
+export async function updateNotificationPreferences(
+  userId: string,
+  input: Partial<Omit<NotificationPreferences, "lastExpiryReminderAt">>
+): Promise<NotificationPreferences> {
+  if (input.timezone !== undefined && !isValidTimezone(input.timezone)) {
+    throw errors.badRequest(`Unknown timezone: ${input.timezone}`);
+  }
+
+  await prisma.notificationPreference.upsert({
+    where: { userId },
+    create: { userId, ...input },
+    update: input,
+  });
+
+  return getNotificationPreferences(userId);
+}
+
+export async function markExpiryReminderSent(userId: string, sentAt: Date) {
+  await prisma.notificationPreference.upsert({
+    where: { userId },
+    create: { userId, lastExpiryReminderAt: sentAt },
+    update: { lastExpiryReminderAt: sentAt },
+  });
+}
+
+// A guest's settings only fill in for an account that never chose its own
+export async function transferNotificationPreferences(
+  fromUserId: string,
+  toUserId: string
+) {
+  const existing = await prisma.notificationPreference.findUnique({
+    where: { userId: toUserId },
+    select: { id: true },
+  });
+  if (existing) return;
+
+  await prisma.notificationPreference.updateMany({
+    where: { userId: fromUserId },
+    data: { userId: toUserId },
+  });
+}
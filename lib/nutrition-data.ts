@@ -0,0 +1,140 @@
+/**
+ * Local ingredient nutrient table, keyed by canonicalId
+ * Values are per 100 g of the ingredient as typically bought (raw unless the
+ * name says otherwise), rounded from USDA FoodData Central.
+ * `each` is the weight in grams of one item for count-based amounts,
+ * `units` covers common non-standard units ("clove", "slice", "can") and
+ * `density` (g/ml) covers cup/spoon amounts the unit library has no hint for.
+ */
+
+export interface NutrientProfile {
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+  fiber: number;
+  each?: number;
+  units?: Record<string, number>;
+  density?: number;
+}
+
+export const NUTRIENT_TABLE: Record<string, NutrientProfile> = {
+  // Produce
+  onion: { calories: 40, protein: 1.1, carbs: 9.3, fat: 0.1, fiber: 1.7, each: 110, density: 0.68 },
+  red_onion: { calories: 40, protein: 1.1, carbs: 9.3, fat: 0.1, fiber: 1.7, each: 110 },
+  shallot: { calories: 72, protein: 2.5, carbs: 16.8, fat: 0.1, fiber: 3.2, each: 25 },
+  garlic: { calories: 149, protein: 6.4, carbs: 33, fat: 0.5, fiber: 2.1, each: 40, units: { clove: 3, head: 40 }, density: 0.57 },
+  tomato: { calories: 18, protein: 0.9, carbs: 3.9, fat: 0.2, fiber: 1.2, each: 120, density: 0.76 },
+  cherry_tomato: { calories: 18, protein: 0.9, carbs: 3.9, fat: 0.2, fiber: 1.2, each: 17, density: 0.63 },
+  potato: { calories: 77, protein: 2, carbs: 17, fat: 0.1, fiber: 2.2, each: 170 },
+  sweet_potato: { calories: 86, protein: 1.6, carbs: 20, fat: 0.1, fiber: 3, each: 130 },
+  carrot: { calories: 41, protein: 0.9, carbs: 9.6, fat: 0.2, fiber: 2.8, each: 60, density: 0.54 },
+  celery: { calories: 16, protein: 0.7, carbs: 3, fat: 0.2, fiber: 1.6, each: 40, units: { stalk: 40, rib: 40 }, density: 0.42 },
+  bell_pepper: { calories: 26, protein: 1, carbs: 6, fat: 0.3, fiber: 2.1, each: 120, density: 0.63 },
+  jalapeno: { calories: 29, protein: 0.9, carbs: 6.5, fat: 0.4, fiber: 2.8, each: 14 },
+  spinach: { calories: 23, protein: 2.9, carbs: 3.6, fat: 0.4, fiber: 2.2, units: { bunch: 340 }, density: 0.13 },
+  kale: { calories: 35, protein: 2.9, carbs: 4.4, fat: 1.5, fiber: 4.1, units: { bunch: 200 }, density: 0.07 },
+  lettuce: { calories: 15, protein: 1.4, carbs: 2.9, fat: 0.2, fiber: 1.3, each: 500, units: { head: 500 }, density: 0.2 },
+  broccoli: { calories: 34, protein: 2.8, carbs: 6.6, fat: 0.4, fiber: 2.6, each: 300, units: { head: 300, floret: 10 }, density: 0.38 },
+  cauliflower: { calories: 25, protein: 1.9, carbs: 5, fat: 0.3, fiber: 2, each: 575, units: { head: 575 }, density: 0.45 },
+  zucchini: { calories: 17, protein: 1.2, carbs: 3.1, fat: 0.3, fiber: 1, each: 200 },
+  cucumber: { calories: 15, protein: 0.7, carbs: 3.6, fat: 0.1, fiber: 0.5, each: 300 },
+  mushroom: { calories: 22, protein: 3.1, carbs: 3.3, fat: 0.3, fiber: 1, each: 18, density: 0.3 },
+  cabbage: { calories: 25, protein: 1.3, carbs: 5.8, fat: 0.1, fiber: 2.5, each: 900, units: { head: 900 } },
+  green_bean: { calories: 31, protein: 1.8, carbs: 7, fat: 0.2, fiber: 2.7, density: 0.46 },
+  pea: { calories: 81, protein: 5.4, carbs: 14.5, fat: 0.4, fiber: 5.7, density: 0.61 },
+  corn: { calories: 86, protein: 3.3, carbs: 19, fat: 1.4, fiber: 2, each: 90, units: { ear: 90 }, density: 0.65 },
+  avocado: { calories: 160, protein: 2, carbs: 8.5, fat: 14.7, fiber: 6.7, each: 150 },
+  lemon: { calories: 29, protein: 1.1, carbs: 9.3, fat: 0.3, fiber: 2.8, each: 60 },
+  lime: { calories: 30, protein: 0.7, carbs: 10.5, fat: 0.2, fiber: 2.8, each: 45 },
+  lemon_juice: { calories: 22, protein: 0.4, carbs: 6.9, fat: 0.2, fiber: 0.3, density: 1.03 },
+  lime_juice: { calories: 25, protein: 0.4, carbs: 8.4, fat: 0.1, fiber: 0.4, density: 1.03 },
+  apple: { calories: 52, protein: 0.3, carbs: 13.8, fat: 0.2, fiber: 2.4, each: 180 },
+  banana: { calories: 89, protein: 1.1, carbs: 22.8, fat: 0.3, fiber: 2.6, each: 118 },
+  blueberry: { calories: 57, protein: 0.7, carbs: 14.5, fat: 0.3, fiber: 2.4, density: 0.62 },
+  strawberry: { calories: 32, protein: 0.7, carbs: 7.7, fat: 0.3, fiber: 2, each: 12, density: 0.64 },
+  ginger: { calories: 80, protein: 1.8, carbs: 17.8, fat: 0.8, fiber: 2, units: { inch: 15, knob: 15 }, density: 0.4 },
+  basil: { calories: 23, protein: 3.2, carbs: 2.7, fat: 0.6, fiber: 1.6, units: { leaf: 0.5, bunch: 30, sprig: 2 }, density: 0.1 },
+  parsley: { calories: 36, protein: 3, carbs: 6.3, fat: 0.8, fiber: 3.3, units: { bunch: 60, sprig: 1 }, density: 0.25 },
+  cilantro: { calories: 23, protein: 2.1, carbs: 3.7, fat: 0.5, fiber: 2.8, units: { bunch: 50, sprig: 1 }, density: 0.07 },
+  scallion: { calories: 32, protein: 1.8, carbs: 7.3, fat: 0.2, fiber: 2.6, each: 15, density: 0.42 },
+
+  // Meat & seafood
+  chicken_breast: { calories: 120, protein: 22.5, carbs: 0, fat: 2.6, fiber: 0, each: 175 },
+  chicken_thigh: { calories: 177, protein: 19.7, carbs: 0, fat: 10.9, fiber: 0, each: 110 },
+  chicken: { calories: 143, protein: 20, carbs: 0, fat: 6.3, fiber: 0 },
+  ground_beef: { calories: 254, protein: 17.2, carbs: 0, fat: 20, fiber: 0, density: 0.95 },
+  beef: { calories: 198, protein: 19.4, carbs: 0, fat: 12.7, fiber: 0 },
+  steak: { calories: 198, protein: 19.4, carbs: 0, fat: 12.7, fiber: 0, each: 225 },
+  pork: { calories: 185, protein: 19.6, carbs: 0, fat: 11.2, fiber: 0 },
+  bacon: { calories: 417, protein: 12.6, carbs: 1.3, fat: 40, fiber: 0, units: { slice: 28, strip: 28, rasher: 28 } },
+  sausage: { calories: 301, protein: 12.4, carbs: 1.4, fat: 27, fiber: 0, each: 75, units: { link: 75 } },
+  ground_turkey: { calories: 148, protein: 19.7, carbs: 0, fat: 7.7, fiber: 0 },
+  salmon: { calories: 208, protein: 20, carbs: 0, fat: 13.4, fiber: 0, each: 170, units: { fillet: 170 } },
+  tuna: { calories: 116, protein: 25.5, carbs: 0, fat: 0.8, fiber: 0, units: { can: 140 } },
+  cod: { calories: 82, protein: 17.8, carbs: 0, fat: 0.7, fiber: 0, each: 170, units: { fillet: 170 } },
+  shrimp: { calories: 85, protein: 20.1, carbs: 0, fat: 0.5, fiber: 0, each: 12, density: 0.62 },
+
+  // Dairy & eggs
+  egg: { calories: 143, protein: 12.6, carbs: 0.7, fat: 9.5, fiber: 0, each: 50 },
+  milk: { calories: 61, protein: 3.2, carbs: 4.8, fat: 3.3, fiber: 0 },
+  butter: { calories: 717, protein: 0.9, carbs: 0.1, fat: 81.1, fiber: 0, units: { stick: 113 } },
+  heavy_cream: { calories: 340, protein: 2.8, carbs: 2.7, fat: 36, fiber: 0, density: 1.0 },
+  sour_cream: { calories: 198, protein: 2.4, carbs: 4.6, fat: 19.4, fiber: 0, density: 1.0 },
+  greek_yogurt: { calories: 97, protein: 9, carbs: 3.9, fat: 5, fiber: 0, density: 1.05 },
+  yogurt: { calories: 61, protein: 3.5, carbs: 4.7, fat: 3.3, fiber: 0 },
+  cheddar_cheese: { calories: 403, protein: 24.9, carbs: 1.3, fat: 33.1, fiber: 0, units: { slice: 28 }, density: 0.48 },
+  mozzarella_cheese: { calories: 280, protein: 27.5, carbs: 3.1, fat: 17.1, fiber: 0, units: { ball: 125 }, density: 0.47 },
+  parmesan_cheese: { calories: 431, protein: 38.5, carbs: 4.1, fat: 28.6, fiber: 0, density: 0.42 },
+  feta_cheese: { calories: 264, protein: 14.2, carbs: 4.1, fat: 21.3, fiber: 0, density: 0.63 },
+  cream_cheese: { calories: 342, protein: 5.9, carbs: 4.1, fat: 34.2, fiber: 0, density: 0.98 },
+
+  // Grains, legumes & bakery
+  all_purpose_flour: { calories: 364, protein: 10.3, carbs: 76.3, fat: 1, fiber: 2.7, density: 0.53 },
+  flour: { calories: 364, protein: 10.3, carbs: 76.3, fat: 1, fiber: 2.7 },
+  rice: { calories: 360, protein: 6.6, carbs: 79.3, fat: 0.6, fiber: 1 },
+  brown_rice: { calories: 367, protein: 7.5, carbs: 76.2, fat: 3.2, fiber: 3.6, density: 0.8 },
+  pasta: { calories: 371, protein: 13, carbs: 74.7, fat: 1.5, fiber: 3.2, density: 0.42 },
+  spaghetti: { calories: 371, protein: 13, carbs: 74.7, fat: 1.5, fiber: 3.2, density: 0.42 },
+  noodle: { calories: 384, protein: 14.2, carbs: 71.3, fat: 4.4, fiber: 3.3, density: 0.42 },
+  rolled_oats: { calories: 379, protein: 13.2, carbs: 67.7, fat: 6.5, fiber: 10.1 },
+  quinoa: { calories: 368, protein: 14.1, carbs: 64.2, fat: 6.1, fiber: 7, density: 0.72 },
+  bread: { calories: 265, protein: 9, carbs: 49, fat: 3.2, fiber: 2.7, units: { slice: 30, loaf: 500 } },
+  tortilla: { calories: 306, protein: 8.2, carbs: 50.4, fat: 8, fiber: 3.5, each: 45 },
+  breadcrumbs: { calories: 395, protein: 13.4, carbs: 71.9, fat: 5.3, fiber: 4.5, density: 0.45 },
+  black_beans: { calories: 91, protein: 6, carbs: 16.6, fat: 0.3, fiber: 6.9, units: { can: 240 }, density: 0.73 },
+  chickpeas: { calories: 139, protein: 7, carbs: 22.5, fat: 2.6, fiber: 6.4, units: { can: 240 }, density: 0.69 },
+  kidney_beans: { calories: 84, protein: 5.2, carbs: 15.5, fat: 0.5, fiber: 6.3, units: { can: 240 }, density: 0.75 },
+  lentils: { calories: 352, protein: 24.6, carbs: 63.4, fat: 1.1, fiber: 10.7, density: 0.81 },
+  tofu: { calories: 76, protein: 8.1, carbs: 1.9, fat: 4.8, fiber: 0.3, units: { block: 400 }, density: 1.04 },
+
+  // Pantry
+  olive_oil: { calories: 884, protein: 0, carbs: 0, fat: 100, fiber: 0 },
+  vegetable_oil: { calories: 884, protein: 0, carbs: 0, fat: 100, fiber: 0, density: 0.92 },
+  sesame_oil: { calories: 884, protein: 0, carbs: 0, fat: 100, fiber: 0, density: 0.92 },
+  sugar: { calories: 387, protein: 0, carbs: 100, fat: 0, fiber: 0 },
+  brown_sugar: { calories: 380, protein: 0.1, carbs: 98.1, fat: 0, fiber: 0 },
+  honey: { calories: 304, protein: 0.3, carbs: 82.4, fat: 0, fiber: 0.2 },
+  maple_syrup: { calories: 260, protein: 0, carbs: 67, fat: 0.1, fiber: 0 },
+  soy_sauce: { calories: 53, protein: 8.1, carbs: 4.9, fat: 0.6, fiber: 0.8, density: 1.15 },
+  tomato_paste: { calories: 82, protein: 4.3, carbs: 18.9, fat: 0.5, fiber: 4.1, units: { can: 170 }, density: 1.1 },
+  crushed_tomatoes: { calories: 32, protein: 1.6, carbs: 7.3, fat: 0.3, fiber: 1.9, units: { can: 400 }, density: 1.03 },
+  diced_tomatoes: { calories: 32, protein: 1.6, carbs: 7.3, fat: 0.3, fiber: 1.9, units: { can: 400 }, density: 1.03 },
+  coconut_milk: { calories: 230, protein: 2.3, carbs: 5.5, fat: 23.8, fiber: 2.2, units: { can: 400 }, density: 0.97 },
+  chicken_broth: { calories: 6, protein: 0.6, carbs: 0.4, fat: 0.2, fiber: 0, density: 1.0 },
+  vegetable_broth: { calories: 6, protein: 0.2, carbs: 1, fat: 0.1, fiber: 0, density: 1.0 },
+  peanut_butter: { calories: 588, protein: 25, carbs: 20, fat: 50, fiber: 6 },
+  almonds: { calories: 579, protein: 21.2, carbs: 21.6, fat: 49.9, fiber: 12.5, density: 0.6 },
+  walnuts: { calories: 654, protein: 15.2, carbs: 13.7, fat: 65.2, fiber: 6.7, density: 0.5 },
+  cocoa_powder: { calories: 228, protein: 19.6, carbs: 57.9, fat: 13.7, fiber: 37 },
+  dark_chocolate: { calories: 546, protein: 4.9, carbs: 61, fat: 31, fiber: 7, density: 0.7 },
+  cornstarch: { calories: 381, protein: 0.3, carbs: 91.3, fat: 0.1, fiber: 0.9 },
+  vinegar: { calories: 18, protein: 0, carbs: 0.04, fat: 0, fiber: 0, density: 1.0 },
+  mayonnaise: { calories: 680, protein: 1, carbs: 0.6, fat: 75, fiber: 0, density: 0.93 },
+  dijon_mustard: { calories: 66, protein: 4.4, carbs: 5.8, fat: 4, fiber: 3.3, density: 1.05 },
+
+  // Seasonings (small amounts, but they add up in some recipes)
+  salt: { calories: 0, protein: 0, carbs: 0, fat: 0, fiber: 0, units: { pinch: 0.4 } },
+  black_pepper: { calories: 251, protein: 10.4, carbs: 64, fat: 3.3, fiber: 25.3, units: { pinch: 0.1 }, density: 0.45 },
+  water: { calories: 0, protein: 0, carbs: 0, fat: 0, fiber: 0, density: 1.0 },
+};
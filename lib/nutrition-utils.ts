@@ -0,0 +1,446 @@
+import { prisma } from "./prisma";
+import type { Prisma } from "@prisma/client";
+import { NUTRIENT_TABLE, type NutrientProfile } from "./nutrition-data";
+import { normalizeIngredientQuantity } from "./unit-utils";
+import type {
+  ChefIntake,
+  IngredientJSON,
+  NutritionFacts,
+  NutritionGoal,
+  RecipeNutrition,
+  TemplateMealPlanDay,
+} from "./types";
+
+// Bump when the nutrient table or estimation changes so stored values can be
+// recomputed by scripts/backfill-recipe-nutrition.ts
+export const NUTRITION_VERSION = 1;
+
+// How far a day may drift from a target before it counts as missed
+const GOAL_TOLERANCE = 0.1;
+
+// Single meals are judged more loosely than whole days
+export const MEAL_TOLERANCE = 0.25;
+
+const MEAL_SLOTS = ["breakfast", "lunch", "dinner"] as const;
+
+export type MealSlot = (typeof MEAL_SLOTS)[number];
+
+// Rough split of a day's intake, used to turn daily goals into meal targets
+export const MEAL_SHARE_OF_DAY: Record<MealSlot, number> = {
+  breakfast: 0.25,
+  lunch: 0.35,
+  dinner: 0.4,
+};
+
+export interface NutritionTargets {
+  calories?: number;
+  protein?: number;
+  carbs?: number;
+  fat?: number;
+}
+
+export interface NutritionDeviation {
+  nutrient: keyof NutritionTargets;
+  target: number;
+  actual: number;
+  // actual - target
+  difference: number;
+}
+
+export interface MealPlanDayNutrition {
+  dayNumber: number;
+  totals: NutritionFacts;
+  meals: Partial<
+    Record<MealSlot, { recipeId: string; nutrition: NutritionFacts | null }>
+  >;
+  // Meals whose recipe has no nutrition estimate yet
+  incompleteMeals: number;
+  deviations: NutritionDeviation[];
+}
+
+export function emptyNutrition(): NutritionFacts {
+  return { calories: 0, protein: 0, carbs: 0, fat: 0, fiber: 0 };
+}
+
+function roundNutrition(facts: NutritionFacts): NutritionFacts {
+  return {
+    calories: Math.round(facts.calories),
+    protein: Math.round(facts.protein * 10) / 10,
+    carbs: Math.round(facts.carbs * 10) / 10,
+    fat: Math.round(facts.fat * 10) / 10,
+    fiber: Math.round(facts.fiber * 10) / 10,
+  };
+}
+
+export function scaleNutrition(
+  facts: NutritionFacts,
+  factor: number
+): NutritionFacts {
+  return roundNutrition({
+    calories: facts.calories * factor,
+    protein: facts.protein * factor,
+    carbs: facts.carbs * factor,
+    fat: facts.fat * factor,
+    fiber: facts.fiber * factor,
+  });
+}
+
+export function sumNutrition(items: NutritionFacts[]): NutritionFacts {
+  const total = emptyNutrition();
+  for (const item of items) {
+    total.calories += item.calories;
+    total.protein += item.protein;
+    total.carbs += item.carbs;
+    total.fat += item.fat;
+    total.fiber += item.fiber;
+  }
+  return roundNutrition(total);
+}
+
+function toKey(value: string) {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z\s_]/g, " ")
+    .trim()
+    .replace(/[\s_]+/g, "_");
+}
+
+// Possible singulars of a plural: "limes", "tomatoes", "leaves", "knives"
+function singularForms(word: string): string[] {
+  return [
+    word.replace(/s$/, ""),
+    word.replace(/es$/, ""),
+    word.replace(/ves$/, "f"),
+    word.replace(/ves$/, "fe"),
+  ];
+}
+
+/**
+ * Look up nutrient data for an ingredient
+ * Tries the canonicalId, then the name, dropping leading words and trailing
+ * plurals so "boneless skinless chicken breasts" finds chicken_breast
+ */
+export function findNutrientProfile(ingredient: {
+  name: string;
+  canonicalId?: string;
+}): NutrientProfile | null {
+  for (const source of [ingredient.canonicalId, ingredient.name]) {
+    if (!source) continue;
+
+    const words = toKey(source).split("_").filter(Boolean);
+    for (let start = 0; start < words.length; start++) {
+      const key = words.slice(start).join("_");
+      for (const candidate of [key, ...singularForms(key), `${key}s`]) {
+        if (NUTRIENT_TABLE[candidate]) return NUTRIENT_TABLE[candidate];
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Weight in grams of an ingredient line, or null if we can't tell
+ */
+export function getIngredientGrams(
+  ingredient: IngredientJSON,
+  profile: NutrientProfile
+): number | null {
+  const amount =
+    ingredient.normalized ?? normalizeIngredientQuantity(ingredient);
+  if (!amount) return null;
+
+  if (amount.grams !== undefined) {
+    return amount.grams;
+  }
+
+  const quantity = amount.quantityMax ?? amount.quantity;
+
+  if (amount.family === "count" && profile.each) {
+    return (amount.baseQuantity ?? quantity) * profile.each;
+  }
+
+  if (amount.family === "other" && profile.units) {
+    for (const unit of [amount.unit, ...singularForms(amount.unit)]) {
+      const weight = profile.units[unit];
+      if (weight !== undefined) return quantity * weight;
+    }
+  }
+
+  // Table densities cover solids measured by volume (chopped nuts, greens)
+  if (
+    amount.family === "volume" &&
+    amount.baseQuantity !== undefined &&
+    profile.density
+  ) {
+    return amount.baseQuantity * profile.density;
+  }
+
+  return null;
+}
+
+/**
+ * Estimate per-serving nutrition for a recipe's ingredients
+ * Ingredients without an amount ("salt to taste") are ignored; those with an
+ * amount we can't price are listed in `unmatched` and lower `coverage`.
+ */
+export function estimateRecipeNutrition(
+  ingredients: unknown,
+  servings: number | null | undefined
+): RecipeNutrition {
+  const list = Array.isArray(ingredients)
+    ? (ingredients as IngredientJSON[])
+    : [];
+  const servingCount = servings && servings > 0 ? servings : 1;
+
+  const total = emptyNutrition();
+  const unmatched: string[] = [];
+  let measured = 0;
+  let matched = 0;
+
+  for (const ingredient of list) {
+    if (!ingredient?.name) continue;
+
+    const amount =
+      ingredient.normalized ?? normalizeIngredientQuantity(ingredient);
+    if (!amount) continue;
+    measured++;
+
+    const profile = findNutrientProfile(ingredient);
+    const grams = profile ? getIngredientGrams(ingredient, profile) : null;
+
+    if (!profile || grams === null) {
+      unmatched.push(ingredient.name);
+      continue;
+    }
+
+    matched++;
+    const ratio = grams / 100;
+    total.calories += profile.calories * ratio;
+    total.protein += profile.protein * ratio;
+    total.carbs += profile.carbs * ratio;
+    total.fat += profile.fat * ratio;
+    total.fiber += profile.fiber * ratio;
+  }
+
+  return {
+    perServing: scaleNutrition(total, 1 / servingCount),
+    servings: servingCount,
+    coverage: measured === 0 ? 0 : Math.round((matched / measured) * 100) / 100,
+    unmatched,
+    version: NUTRITION_VERSION,
+  };
+}
+
+/**
+ * Recipe columns to write alongside ingredients/servings
+ */
+export function getRecipeNutritionFields(
+  ingredients: unknown,
+  servings: number | null | undefined
+) {
+  const nutrition = estimateRecipeNutrition(ingredients, servings);
+  // Kept even with zero coverage so the backfill knows it has been tried
+  const hasData = nutrition.coverage > 0;
+
+  return {
+    nutrition: nutrition as unknown as Prisma.InputJsonValue,
+    caloriesPerServing: hasData ? nutrition.perServing.calories : null,
+    proteinPerServing: hasData ? nutrition.perServing.protein : null,
+  };
+}
+
+/**
+ * Collapse a user's nutrition goals into numeric daily targets
+ * Later goals win when several set the same nutrient
+ */
+export function getNutritionTargets(
+  goals: NutritionGoal[] | undefined | null
+): NutritionTargets {
+  const targets: NutritionTargets = {};
+  for (const goal of goals ?? []) {
+    if (goal.dailyCalories) targets.calories = goal.dailyCalories;
+    if (goal.dailyProtein) targets.protein = goal.dailyProtein;
+    if (goal.dailyCarbs) targets.carbs = goal.dailyCarbs;
+    if (goal.dailyFat) targets.fat = goal.dailyFat;
+  }
+  return targets;
+}
+
+/**
+ * Daily targets from the user's saved intake goals
+ */
+export async function getUserNutritionTargets(
+  userId: string
+): Promise<NutritionTargets> {
+  const profile = await prisma.userProfile.findUnique({
+    where: { userId },
+    select: { chefIntake: true },
+  });
+  const chefIntake = profile?.chefIntake as ChefIntake | null;
+  return getNutritionTargets(chefIntake?.nutritionGoals);
+}
+
+export function hasNutritionTargets(targets: NutritionTargets) {
+  return Object.values(targets).some((value) => !!value);
+}
+
+/**
+ * Portion of the daily calorie and protein targets one meal should cover
+ */
+export function getMealNutritionTargets(
+  targets: NutritionTargets,
+  slot: MealSlot
+): NutritionTargets {
+  const share = MEAL_SHARE_OF_DAY[slot];
+  const mealTargets: NutritionTargets = {};
+  if (targets.calories) {
+    mealTargets.calories = Math.round(targets.calories * share);
+  }
+  if (targets.protein) {
+    mealTargets.protein = Math.round(targets.protein * share);
+  }
+  return mealTargets;
+}
+
+/**
+ * Whether a recipe's stored per-serving values meet meal targets
+ * Recipes without an estimate never qualify when targets are set
+ */
+export function meetsMealNutritionTargets(
+  recipe: {
+    caloriesPerServing: number | null;
+    proteinPerServing: number | null;
+  },
+  targets: NutritionTargets
+) {
+  if (targets.calories && recipe.caloriesPerServing === null) return false;
+  if (targets.protein && recipe.proteinPerServing === null) return false;
+
+  return (
+    getNutritionDeviations(
+      {
+        ...emptyNutrition(),
+        calories: recipe.caloriesPerServing ?? 0,
+        protein: recipe.proteinPerServing ?? 0,
+      },
+      targets,
+      MEAL_TOLERANCE
+    ).length === 0
+  );
+}
+
+/**
+ * Compare totals against targets
+ * Calories must land within the tolerance either way, protein is a floor,
+ * carbs and fat are ceilings
+ */
+export function getNutritionDeviations(
+  totals: NutritionFacts,
+  targets: NutritionTargets,
+  tolerance = GOAL_TOLERANCE
+): NutritionDeviation[] {
+  const deviations: NutritionDeviation[] = [];
+
+  for (const nutrient of ["calories", "protein", "carbs", "fat"] as const) {
+    const target = targets[nutrient];
+    if (!target) continue;
+
+    const actual = totals[nutrient];
+    const tooLow = actual < target * (1 - tolerance);
+    const tooHigh = actual > target * (1 + tolerance);
+
+    const missed =
+      nutrient === "calories"
+        ? tooLow || tooHigh
+        : nutrient === "protein"
+          ? tooLow
+          : tooHigh;
+
+    if (missed) {
+      deviations.push({
+        nutrient,
+        target,
+        actual,
+        difference: Math.round((actual - target) * 10) / 10,
+      });
+    }
+  }
+
+  return deviations;
+}
+
+/**
+ * Per-day nutrition for a meal plan template, one serving per meal
+ */
+export async function getMealPlanNutrition(
+  days: TemplateMealPlanDay[],
+  targets: NutritionTargets
+) {
+  const recipeIds = new Set<string>();
+  for (const day of days) {
+    for (const slot of MEAL_SLOTS) {
+      const recipeId = day.meals[slot]?.recipeId;
+      if (recipeId) recipeIds.add(recipeId);
+    }
+  }
+
+  const recipes = await prisma.recipe.findMany({
+    where: { id: { in: Array.from(recipeIds) } },
+    select: { id: true, nutrition: true },
+  });
+  const nutritionById = new Map(
+    recipes.map((recipe) => {
+      const nutrition = recipe.nutrition as RecipeNutrition | null;
+      return [
+        recipe.id,
+        nutrition && nutrition.coverage > 0 ? nutrition.perServing : null,
+      ];
+    })
+  );
+
+  const dayNutrition: MealPlanDayNutrition[] = days.map((day) => {
+    const meals: MealPlanDayNutrition["meals"] = {};
+    const facts: NutritionFacts[] = [];
+    let incompleteMeals = 0;
+
+    for (const slot of MEAL_SLOTS) {
+      const recipeId = day.meals[slot]?.recipeId;
+      if (!recipeId) continue;
+
+      const nutrition = nutritionById.get(recipeId) ?? null;
+      meals[slot] = { recipeId, nutrition };
+      if (nutrition) {
+        facts.push(nutrition);
+      } else {
+        incompleteMeals++;
+      }
+    }
+
+    const totals = sumNutrition(facts);
+
+    return {
+      dayNumber: day.dayNumber,
+      totals,
+      meals,
+      incompleteMeals,
+      deviations: getNutritionDeviations(totals, targets),
+    };
+  });
+
+  const average =
+    dayNutrition.length > 0
+      ? scaleNutrition(
+          sumNutrition(dayNutrition.map((day) => day.totals)),
+          1 / dayNutrition.length
+        )
+      : emptyNutrition();
+
+  return {
+    targets,
+    days: dayNutrition,
+    dailyAverage: average,
+    daysOnTarget: dayNutrition.filter((day) => day.deviations.length === 0)
+      .length,
+  };
+}
@@ -47,6 +47,7 @@ export async function createPost(data: {
       photoUrl: data.photoUrl,
       rating: data.rating,
       review: data.review,
+      recipeRevision: recipe.revision,
     },
     include: {
       user: {
@@ -345,10 +346,31 @@ export async function getPostWithDetails(
     (like) => like.userId === currentUserId
   );
 
+  // The recipe may have been edited since; show what was actually cooked
+  const cookedRevision =
+    post.recipeRevision !== null && post.recipeRevision !== post.recipe.revision
+      ? await prisma.recipeRevision.findUnique({
+          where: {
+            recipeId_revision: {
+              recipeId: post.recipeId,
+              revision: post.recipeRevision,
+            },
+          },
+          select: {
+            revision: true,
+            title: true,
+            servings: true,
+            ingredients: true,
+            steps: true,
+          },
+        })
+      : null;
+
   return {
     ...post,
     likeCount: post.likes.length,
     commentCount: post.comments.length,
     isLikedByCurrentUser,
+    cookedRevision,
   } as unknown as RecipePost;
 }
@@ -0,0 +1,118 @@
+import { prisma } from "./prisma";
+import { errors } from "./api-errors";
+import { Prisma } from "@prisma/client";
+import { mergeSyncPayload, type ProfileSections, type SyncMeta } from "./sync-utils";
+import type { SyncPayload, SyncResponse } from "./types";
+
+// Attempts before giving up when another device syncs at the same moment
+const MAX_SYNC_ATTEMPTS = 3;
+
+/**
+ * Merge uploaded sections into the user's profile and bump syncVersion
+ *
+ * Omitting `baseVersion` keeps the legacy behavior where everything sent
+ * overwrites the server copy. Server-side writers pass the version they
+ * read, like devices do, so a sync landing in between isn't overwritten.
+ */
+export async function applySyncPayload(
+  userId: string,
+  payload: Omit<SyncPayload, "baseVersion">,
+  baseVersion?: number,
+  options: {
+    // Adjust merged sections before they're stored, e.g. to replace
+    // device-reported progress with server-derived values
+    reconcile?: (sections: ProfileSections) => {
+      sections: ProfileSections;
+      changed: boolean;
+    };
+    // Extra writes committed with the profile, e.g. the inventory table
+    write?: (
+      tx: Prisma.TransactionClient,
+      sections: ProfileSections
+    ) => Promise<void>;
+  } = {}
+): Promise<{ response: SyncResponse; sections: ProfileSections }> {
+  for (let attempt = 0; attempt < MAX_SYNC_ATTEMPTS; attempt++) {
+    // Fetch or create user profile
+    let profile = await prisma.userProfile.findUnique({
+      where: { userId },
+    });
+
+    if (!profile) {
+      profile = await prisma.userProfile.create({
+        data: {
+          userId,
+        },
+      });
+    }
+
+    const effectiveBase = Math.min(
+      baseVersion ?? profile.syncVersion,
+      profile.syncVersion
+    );
+    const nextVersion = profile.syncVersion + 1;
+
+    const merge = mergeSyncPayload({
+      current: {
+        chefIntake: profile.chefIntake,
+        inventory: profile.inventory,
+        mealPlans: profile.mealPlans,
+        groceryList: profile.groceryList,
+        achievements: profile.achievements,
+        streaks: profile.streaks,
+        tokenState: profile.tokenState,
+      },
+      meta: profile.syncMeta as SyncMeta | null,
+      payload,
+      baseVersion: effectiveBase,
+      nextVersion,
+    });
+
+    const { sections, changed } = options.reconcile
+      ? options.reconcile(merge.sections)
+      : { sections: merge.sections, changed: false };
+
+    const syncedAt = new Date();
+
+    // Only write if nobody else bumped the version since we read it
+    const written = await prisma.$transaction(async (tx) => {
+      const { count } = await tx.userProfile.updateMany({
+        where: { userId, syncVersion: profile.syncVersion },
+        data: {
+          ...(sections as Prisma.UserProfileUpdateManyMutationInput),
+          syncMeta: merge.meta as Prisma.InputJsonValue,
+          lastSyncedAt: syncedAt,
+          syncVersion: nextVersion,
+        },
+      });
+
+      if (count === 0) {
+        return false;
+      }
+
+      await options.write?.(tx, sections);
+      return true;
+    });
+
+    if (!written) {
+      continue;
+    }
+
+    return {
+      response: {
+        syncedAt: syncedAt.toISOString(),
+        version: nextVersion,
+        conflicts: merge.conflicts,
+        // Send the merged result back when it isn't just what the device had
+        ...(effectiveBase < profile.syncVersion || changed
+          ? { profile: sections as SyncResponse["profile"] }
+          : {}),
+      },
+      sections,
+    };
+  }
+
+  throw errors.conflict(
+    "Profile was updated by another device during sync, please retry"
+  );
+}
@@ -0,0 +1,31 @@
+// Standard RRF damping constant; higher values flatten rank differences
+export const RRF_K = 60;
+
+/**
+ * Merge ranked lists with reciprocal rank fusion
+ * Each item scores sum(1 / (k + rank)) over the lists it appears in, so
+ * something ranked well by both keyword and embedding search wins.
+ */
+export function fuseRankings<T extends { id: string }>(
+  rankings: T[][],
+  k = RRF_K
+): Array<{ item: T; score: number; ranks: Array<number | null> }> {
+  const fused = new Map<
+    string,
+    { item: T; score: number; ranks: Array<number | null> }
+  >();
+
+  rankings.forEach((ranking, listIndex) => {
+    ranking.forEach((item, index) => {
+      let entry = fused.get(item.id);
+      if (!entry) {
+        entry = { item, score: 0, ranks: rankings.map(() => null) };
+        fused.set(item.id, entry);
+      }
+      entry.score += 1 / (k + index + 1);
+      entry.ranks[listIndex] = index + 1;
+    });
+  });
+
+  return Array.from(fused.values()).sort((a, b) => b.score - a.score);
+}
@@ -0,0 +1,310 @@
+import { prisma } from "./prisma";
+import { errors } from "./api-errors";
+import { Prisma, type Recipe } from "@prisma/client";
+import { getFriendIds } from "./friend-utils";
+
+// Forks of forks deeper than this are left out of the lineage tree
+const MAX_LINEAGE_DEPTH = 20;
+
+export interface ForkAttribution {
+  // Null when the parent was deleted or the viewer can't see it
+  adaptedFrom: {
+    id: string;
+    title: string;
+    slug: string | null;
+    author: { id: string; displayName: string | null };
+  } | null;
+  originalAuthor: { id: string; displayName: string | null } | null;
+}
+
+export interface RemixCounts {
+  direct: number;
+  total: number;
+}
+
+export interface LineageRow {
+  id: string;
+  forkedFromId: string | null;
+  forkedFromRevision: number | null;
+  userId: string;
+  title: string;
+  createdAt: Date;
+  ownerName: string | null;
+  slug: string | null;
+  isPublished: boolean | null;
+}
+
+export interface RecipeLineageNode {
+  id: string;
+  // Title, author and slug are withheld on recipes the viewer can't see
+  hidden: boolean;
+  title: string | null;
+  author: { id: string; displayName: string | null } | null;
+  slug: string | null;
+  forkedFromRevision: number | null;
+  createdAt: Date;
+  remixCount: number;
+  forks: RecipeLineageNode[];
+}
+
+/**
+ * Copy someone's recipe into the user's collection, remembering where it
+ * came from
+ */
+export async function forkRecipe(
+  recipe: Recipe,
+  userId: string
+): Promise<Recipe> {
+  return prisma.$transaction(async (tx) => {
+    const fork = await tx.recipe.create({
+      data: {
+        userId,
+        title: recipe.title,
+        description: recipe.description,
+        imageUrl: recipe.imageUrl,
+        servings: recipe.servings,
+        totalMinutes: recipe.totalMinutes,
+        cuisine: recipe.cuisine,
+        tags:
+          recipe.tags !== undefined && recipe.tags !== null
+            ? (recipe.tags as Prisma.InputJsonValue)
+            : Prisma.JsonNull,
+        ingredients: recipe.ingredients as Prisma.InputJsonValue,
+        steps:
+          recipe.steps !== undefined && recipe.steps !== null
+            ? (recipe.steps as Prisma.InputJsonValue)
+            : Prisma.JsonNull,
+        source: "discover-import",
+        sourceUrl: recipe.sourceUrl,
+        nutrition:
+          recipe.nutrition !== null
+            ? (recipe.nutrition as Prisma.InputJsonValue)
+            : Prisma.JsonNull,
+        caloriesPerServing: recipe.caloriesPerServing,
+        proteinPerServing: recipe.proteinPerServing,
+        dietFlags: recipe.dietFlags,
+        allergens: recipe.allergens,
+        classificationVersion: recipe.classificationVersion,
+        forkedFromId: recipe.id,
+        forkedFromRevision: recipe.revision,
+        originalAuthorId: recipe.originalAuthorId ?? recipe.userId,
+      },
+    });
+
+    // Share the original's vector so the copy is searchable (and counts
+    // towards the saver's taste profile) without re-embedding; in the same
+    // transaction so a copy is never left without one
+    await tx.$executeRaw`
+      UPDATE "Recipe" AS copy
+      SET embedding = original.embedding,
+        "embeddingVersion" = original."embeddingVersion"
+      FROM "Recipe" AS original
+      WHERE copy.id = ${fork.id} AND original.id = ${recipe.id}
+    `;
+
+    return fork;
+  });
+}
+
+/**
+ * Who a recipe was adapted from, for "adapted from" credits
+ * The parent is only named when the viewer is allowed to see it; the
+ * original author is always credited.
+ */
+export async function getForkAttribution(
+  recipe: Pick<Recipe, "forkedFromId" | "originalAuthorId">,
+  viewerId: string | undefined
+): Promise<ForkAttribution | null> {
+  if (!recipe.forkedFromId && !recipe.originalAuthorId) {
+    return null;
+  }
+
+  const [parent, originalAuthor] = await Promise.all([
+    recipe.forkedFromId
+      ? prisma.recipe.findUnique({
+          where: { id: recipe.forkedFromId },
+          select: {
+            id: true,
+            title: true,
+            userId: true,
+            user: { select: { id: true, displayName: true } },
+            publication: { select: { slug: true, isPublished: true } },
+          },
+        })
+      : null,
+    recipe.originalAuthorId
+      ? prisma.user.findUnique({
+          where: { id: recipe.originalAuthorId },
+          select: { id: true, displayName: true },
+        })
+      : null,
+  ]);
+
+  let adaptedFrom: ForkAttribution["adaptedFrom"] = null;
+  if (parent) {
+    const isPublished = !!parent.publication?.isPublished;
+    const friendIds =
+      viewerId && !isPublished && viewerId !== parent.userId
+        ? await getFriendIds(viewerId)
+        : [];
+
+    if (
+      isPublished ||
+      viewerId === parent.userId ||
+      friendIds.includes(parent.userId)
+    ) {
+      adaptedFrom = {
+        id: parent.id,
+        title: parent.title,
+        slug: isPublished ? (parent.publication?.slug ?? null) : null,
+        author: parent.user,
+      };
+    }
+  }
+
+  return { adaptedFrom, originalAuthor };
+}
+
+/**
+ * Direct forks and all descendants (forks of forks too) per recipe
+ */
+export async function getRemixCounts(
+  recipeIds: string[]
+): Promise<Map<string, RemixCounts>> {
+  const counts = new Map<string, RemixCounts>(
+    recipeIds.map((id) => [id, { direct: 0, total: 0 }])
+  );
+  if (recipeIds.length === 0) return counts;
+
+  const rows = await prisma.$queryRaw<
+    Array<{ rootId: string; direct: number; total: number }>
+  >`
+    WITH RECURSIVE descendants AS (
+      SELECT r."forkedFromId" AS "rootId", r.id, 1 AS depth
+      FROM "Recipe" r
+      WHERE r."forkedFromId" IN (${Prisma.join(recipeIds)})
+      UNION ALL
+      SELECT d."rootId", r.id, d.depth + 1
+      FROM "Recipe" r
+      JOIN descendants d ON r."forkedFromId" = d.id
+      WHERE d.depth < ${MAX_LINEAGE_DEPTH}
+    )
+    SELECT "rootId",
+      COUNT(*) FILTER (WHERE depth = 1)::int AS direct,
+      COUNT(*)::int AS total
+    FROM descendants
+    GROUP BY "rootId"
+  `;
+
+  for (const row of rows) {
+    counts.set(row.rootId, { direct: row.direct, total: row.total });
+  }
+
+  return counts;
+}
+
+/**
+ * Nest lineage rows under the root, newest forks last
+ * Rows whose parent isn't in the set are dropped.
+ */
+export function buildLineageTree(
+  rows: LineageRow[],
+  rootId: string,
+  canView: (row: LineageRow) => boolean
+): RecipeLineageNode | null {
+  const children = new Map<string, LineageRow[]>();
+  for (const row of rows) {
+    if (!row.forkedFromId || row.id === rootId) continue;
+    const siblings = children.get(row.forkedFromId) ?? [];
+    siblings.push(row);
+    children.set(row.forkedFromId, siblings);
+  }
+
+  const toNode = (row: LineageRow): RecipeLineageNode => {
+    const forks = (children.get(row.id) ?? [])
+      .sort(
+        (a, b) =>
+          a.createdAt.getTime() - b.createdAt.getTime() ||
+          a.id.localeCompare(b.id)
+      )
+      .map(toNode);
+    const visible = canView(row);
+
+    return {
+      id: row.id,
+      hidden: !visible,
+      title: visible ? row.title : null,
+      author: visible ? { id: row.userId, displayName: row.ownerName } : null,
+      slug: visible && row.isPublished ? row.slug : null,
+      forkedFromRevision: row.forkedFromRevision,
+      createdAt: row.createdAt,
+      remixCount: forks.reduce((sum, fork) => sum + 1 + fork.remixCount, 0),
+      forks,
+    };
+  };
+
+  const root = rows.find((row) => row.id === rootId);
+  return root ? toNode(root) : null;
+}
+
+/**
+ * The whole fork tree a recipe belongs to, from the oldest surviving
+ * ancestor down
+ */
+export async function getRecipeLineage(
+  recipeId: string,
+  viewerId: string | undefined
+): Promise<{ root: RecipeLineageNode; recipeId: string }> {
+  const [top] = await prisma.$queryRaw<Array<{ id: string }>>`
+    WITH RECURSIVE ancestors AS (
+      SELECT id, "forkedFromId", 0 AS depth
+      FROM "Recipe"
+      WHERE id = ${recipeId}
+      UNION ALL
+      SELECT r.id, r."forkedFromId", a.depth + 1
+      FROM "Recipe" r
+      JOIN ancestors a ON r.id = a."forkedFromId"
+      WHERE a.depth < ${MAX_LINEAGE_DEPTH}
+    )
+    SELECT id FROM ancestors ORDER BY depth DESC LIMIT 1
+  `;
+
+  if (!top) {
+    throw errors.notFound("Recipe not found");
+  }
+
+  const rows = await prisma.$queryRaw<LineageRow[]>`
+    WITH RECURSIVE tree AS (
+      SELECT id, 0 AS depth FROM "Recipe" WHERE id = ${top.id}
+      UNION ALL
+      SELECT r.id, t.depth + 1
+      FROM "Recipe" r
+      JOIN tree t ON r."forkedFromId" = t.id
+      WHERE t.depth < ${MAX_LINEAGE_DEPTH}
+    )
+    SELECT r.id, r."forkedFromId", r."forkedFromRevision", r."userId",
+      r.title, r."createdAt", u."displayName" AS "ownerName",
+      rp.slug, rp."isPublished"
+    FROM tree t
+    JOIN "Recipe" r ON r.id = t.id
+    LEFT JOIN "User" u ON u.id = r."userId"
+    LEFT JOIN "RecipePublication" rp ON rp."recipeId" = r.id
+  `;
+
+  const friendIds = new Set(viewerId ? await getFriendIds(viewerId) : []);
+  const canView = (row: LineageRow) =>
+    row.userId === viewerId || !!row.isPublished || friendIds.has(row.userId);
+
+  // Asking about a recipe you can't see shouldn't reveal its family
+  const requested = rows.find((row) => row.id === recipeId);
+  if (!requested || !canView(requested)) {
+    throw errors.notFound("Recipe not found");
+  }
+
+  const root = buildLineageTree(rows, top.id, canView);
+  if (!root) {
+    throw errors.notFound("Recipe not found");
+  }
+
+  return { root, recipeId };
+}
@@ -0,0 +1,147 @@
+import { prisma } from "./prisma";
+import { errors } from "./api-errors";
+import type { Recipe, RecipeNote } from "@prisma/client";
+import { canViewRecipe } from "./recipe-utils";
+import type { StepJSON } from "./types";
+
+// Pin a note to one ingredient or one step; neither means the whole recipe
+export interface RecipeNoteAnchor {
+  ingredientIndex?: number | null;
+  stepOrder?: number | null;
+}
+
+export interface RecipeNoteInput extends RecipeNoteAnchor {
+  text: string;
+}
+
+/**
+ * Check an anchor points at something in the recipe as it is now
+ */
+function validateNoteAnchor(
+  recipe: Pick<Recipe, "ingredients" | "steps">,
+  anchor: RecipeNoteAnchor
+) {
+  const { ingredientIndex, stepOrder } = anchor;
+
+  if (ingredientIndex != null && stepOrder != null) {
+    throw errors.badRequest(
+      "A note can be pinned to an ingredient or a step, not both"
+    );
+  }
+
+  if (ingredientIndex != null) {
+    const ingredients = Array.isArray(recipe.ingredients)
+      ? recipe.ingredients
+      : [];
+    if (ingredientIndex >= ingredients.length) {
+      throw errors.badRequest(`Recipe has no ingredient ${ingredientIndex}`);
+    }
+  }
+
+  if (stepOrder != null) {
+    const steps = Array.isArray(recipe.steps)
+      ? (recipe.steps as unknown as StepJSON[])
+      : [];
+    if (!steps.some((step) => step?.order === stepOrder)) {
+      throw errors.badRequest(`Recipe has no step ${stepOrder}`);
+    }
+  }
+}
+
+/**
+ * A recipe the user may annotate: their own, a friend's or a published one
+ */
+async function getNotableRecipe(recipeId: string, userId: string) {
+  const recipe = await prisma.recipe.findUnique({ where: { id: recipeId } });
+
+  if (!recipe || !(await canViewRecipe(recipe, userId))) {
+    throw errors.notFound("Recipe not found");
+  }
+
+  return recipe;
+}
+
+// Someone else's note looks the same as a missing one
+async function getOwnNote(noteId: string, recipeId: string, userId: string) {
+  const note = await prisma.recipeNote.findUnique({ where: { id: noteId } });
+
+  if (!note || note.recipeId !== recipeId || note.userId !== userId) {
+    throw errors.notFound("Note not found");
+  }
+
+  return note;
+}
+
+/**
+ * The user's own notes on a recipe, oldest first
+ */
+export async function listRecipeNotes(
+  recipeId: string,
+  userId: string
+): Promise<RecipeNote[]> {
+  return prisma.recipeNote.findMany({
+    where: { recipeId, userId },
+    orderBy: { createdAt: "asc" },
+  });
+}
+
+export async function createRecipeNote(
+  recipeId: string,
+  userId: string,
+  input: RecipeNoteInput
+): Promise<RecipeNote> {
+  const recipe = await getNotableRecipe(recipeId, userId);
+  validateNoteAnchor(recipe, input);
+
+  return prisma.recipeNote.create({
+    data: {
+      recipeId,
+      userId,
+      text: input.text,
+      ingredientIndex: input.ingredientIndex ?? null,
+      stepOrder: input.stepOrder ?? null,
+    },
+  });
+}
+
+/**
+ * Edit a note's text or move its anchor
+ * Passing an anchor replaces the old one; omitting both keeps it.
+ */
+export async function updateRecipeNote(
+  noteId: string,
+  recipeId: string,
+  userId: string,
+  input: Partial<RecipeNoteInput>
+): Promise<RecipeNote> {
+  const note = await getOwnNote(noteId, recipeId, userId);
+  const moving =
+    input.ingredientIndex !== undefined || input.stepOrder !== undefined;
+
+  if (moving) {
+    const recipe = await getNotableRecipe(recipeId, userId);
+    validateNoteAnchor(recipe, input);
+  }
+
+  return prisma.recipeNote.update({
+    where: { id: note.id },
+    data: {
+      ...(input.text !== undefined ? { text: input.text } : {}),
+      ...(moving
+        ? {
+            ingredientIndex: input.ingredientIndex ?? null,
+            stepOrder: input.stepOrder ?? null,
+          }
+        : {}),
+    },
+  });
+}
+
+export async function deleteRecipeNote(
+  noteId: string,
+  recipeId: string,
+  userId: string
+): Promise<void> {
+  const note = await getOwnNote(noteId, recipeId, userId);
+  await prisma.recipeNote.delete({ where: { id: note.id } });
+}
@@ -1,6 +1,7 @@
 import { prisma } from "./prisma";
 import { errors } from "./api-errors";
 import { getRecipeVoteStatsWithUserVote } from "./recipe-utils";
+import { getForkAttribution } from "./recipe-fork-utils";
 import { Prisma } from "@prisma/client";
 
 const MAX_SLUG_ATTEMPTS = 25;
@@ -160,16 +161,17 @@ export async function getPublicRecipeBySlug(slug: string, currentUserId?: string
     throw errors.notFound("Recipe not found");
   }
 
-  const votes = await getRecipeVoteStatsWithUserVote(
-    publication.recipeId,
-    currentUserId ?? null
-  );
+  const [votes, attribution] = await Promise.all([
+    getRecipeVoteStatsWithUserVote(publication.recipeId, currentUserId ?? null),
+    getForkAttribution(publication.recipe, currentUserId),
+  ]);
 
   return {
     publication,
     recipe: publication.recipe,
     author: publication.author,
     votes,
+    attribution,
   };
 }
 
@@ -0,0 +1,124 @@
+import type { IngredientJSON, StepJSON } from "./types";
+
+// The parts of a recipe that get a new revision when they change
+export interface RecipeRevisionContent {
+  title: string;
+  servings: number | null;
+  ingredients: unknown;
+  steps: unknown;
+}
+
+export interface RecipeRevisionDiff {
+  from: number;
+  to: number;
+  title?: { from: string; to: string };
+  servings?: { from: number | null; to: number | null };
+  ingredients: {
+    added: IngredientJSON[];
+    removed: IngredientJSON[];
+    changed: Array<{ from: IngredientJSON; to: IngredientJSON }>;
+  };
+  steps: {
+    added: StepJSON[];
+    removed: StepJSON[];
+    changed: Array<{ order: number; from: string; to: string }>;
+  };
+}
+
+export function asArray<T>(value: unknown): T[] {
+  return Array.isArray(value) ? (value as T[]) : [];
+}
+
+function ingredientKey(ingredient: IngredientJSON) {
+  return ingredient.canonicalId || ingredient.name.trim().toLowerCase();
+}
+
+// Repeats of the same ingredient ("salt" for the dough and the topping) pair
+// up in order, so the second one is compared with the second one
+function keyByOccurrence(ingredients: IngredientJSON[]) {
+  const seen = new Map<string, number>();
+  return ingredients.map((ingredient) => {
+    const key = ingredientKey(ingredient);
+    const count = (seen.get(key) ?? 0) + 1;
+    seen.set(key, count);
+    return [`${key}#${count}`, ingredient] as const;
+  });
+}
+
+// What a reader would notice; `normalized` is derived from qty/unit
+function ingredientAmount(ingredient: IngredientJSON) {
+  return JSON.stringify([
+    ingredient.qty ?? null,
+    ingredient.unit ?? null,
+    ingredient.notes ?? null,
+  ]);
+}
+
+/**
+ * Field-by-field changes between two versions of a recipe
+ * Ingredients are matched by canonical id (or name) and how many times it
+ * has appeared so far, steps by position.
+ */
+export function diffRevisionContent(
+  from: RecipeRevisionContent,
+  to: RecipeRevisionContent,
+  revisions: { from: number; to: number }
+): RecipeRevisionDiff {
+  const diff: RecipeRevisionDiff = {
+    ...revisions,
+    ingredients: { added: [], removed: [], changed: [] },
+    steps: { added: [], removed: [], changed: [] },
+  };
+
+  if (from.title !== to.title) {
+    diff.title = { from: from.title, to: to.title };
+  }
+  if (from.servings !== to.servings) {
+    diff.servings = { from: from.servings, to: to.servings };
+  }
+
+  const fromIngredients = new Map(
+    keyByOccurrence(
+      asArray<IngredientJSON>(from.ingredients).filter(
+        (ingredient) => ingredient?.name
+      )
+    )
+  );
+  const toIngredients = keyByOccurrence(
+    asArray<IngredientJSON>(to.ingredients).filter(
+      (ingredient) => ingredient?.name
+    )
+  );
+
+  for (const [key, ingredient] of toIngredients) {
+    const previous = fromIngredients.get(key);
+    if (!previous) {
+      diff.ingredients.added.push(ingredient);
+    } else if (
+      ingredientAmount(previous) !== ingredientAmount(ingredient) ||
+      previous.name !== ingredient.name
+    ) {
+      diff.ingredients.changed.push({ from: previous, to: ingredient });
+    }
+    fromIngredients.delete(key);
+  }
+  diff.ingredients.removed.push(...fromIngredients.values());
+
+  const fromSteps = asArray<StepJSON>(from.steps);
+  const toSteps = asArray<StepJSON>(to.steps);
+  toSteps.forEach((step, index) => {
+    const previous = fromSteps[index];
+    if (!previous) {
+      diff.steps.added.push(step);
+    } else if (previous.text !== step.text) {
+      diff.steps.changed.push({
+        order: step.order,
+        from: previous.text,
+        to: step.text,
+      });
+    }
+  });
+  diff.steps.removed.push(...fromSteps.slice(toSteps.length));
+
+  return diff;
+}
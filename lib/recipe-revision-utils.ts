@@ -0,0 +1,242 @@
+import { prisma } from "./prisma";
+import { errors } from "./api-errors";
+import type { Prisma, Recipe } from "@prisma/client";
+import {
+  buildRecipeUpdateData,
+  canViewRecipe,
+  type RecipeEditInput,
+} from "./recipe-utils";
+import {
+  asArray,
+  diffRevisionContent,
+  type RecipeRevisionContent,
+  type RecipeRevisionDiff,
+} from "./recipe-revision-diff-utils";
+
+export type {
+  RecipeRevisionContent,
+  RecipeRevisionDiff,
+} from "./recipe-revision-diff-utils";
+
+export interface RecipeRevisionSummary {
+  revision: number;
+  title: string;
+  servings: number | null;
+  ingredientCount: number;
+  stepCount: number;
+  editedById: string | null;
+  restoredFromRevision: number | null;
+  createdAt: Date;
+  isCurrent: boolean;
+}
+
+export function getRevisionContent(
+  recipe: RecipeRevisionContent
+): RecipeRevisionContent {
+  return {
+    title: recipe.title,
+    servings: recipe.servings,
+    ingredients: recipe.ingredients,
+    steps: recipe.steps ?? null,
+  };
+}
+
+function isSameContent(a: RecipeRevisionContent, b: RecipeRevisionContent) {
+  return (
+    JSON.stringify(getRevisionContent(a)) ===
+    JSON.stringify(getRevisionContent(b))
+  );
+}
+
+/**
+ * Apply an edit and record it as a new revision
+ * The first edit also stores the untouched original, so history always
+ * starts from what the recipe looked like before anyone changed it. Edits
+ * that leave the tracked fields alone don't create a revision.
+ */
+export async function updateRecipeWithRevision(
+  recipe: Recipe,
+  data: Prisma.RecipeUpdateInput,
+  options: { editedById: string; restoredFromRevision?: number }
+): Promise<Recipe> {
+  const next = { ...recipe, ...data } as RecipeRevisionContent;
+  if (isSameContent(recipe, next)) {
+    return prisma.recipe.update({ where: { id: recipe.id }, data });
+  }
+
+  return prisma.$transaction(async (tx) => {
+    const baseline = await tx.recipeRevision.findUnique({
+      where: {
+        recipeId_revision: { recipeId: recipe.id, revision: recipe.revision },
+      },
+      select: { id: true },
+    });
+
+    if (!baseline) {
+      await tx.recipeRevision.create({
+        data: {
+          recipeId: recipe.id,
+          revision: recipe.revision,
+          title: recipe.title,
+          servings: recipe.servings,
+          ingredients: recipe.ingredients as Prisma.InputJsonValue,
+          steps: (recipe.steps ?? undefined) as
+            Prisma.InputJsonValue | undefined,
+        },
+      });
+    }
+
+    // Guard on the revision we read so concurrent edits can't both win
+    const { count } = await tx.recipe.updateMany({
+      where: { id: recipe.id, revision: recipe.revision },
+      data: {
+        ...data,
+        revision: { increment: 1 },
+      } as Prisma.RecipeUpdateManyMutationInput,
+    });
+    if (count === 0) {
+      throw errors.conflict("Recipe was changed by another edit, try again");
+    }
+
+    const updated = await tx.recipe.findUniqueOrThrow({
+      where: { id: recipe.id },
+    });
+
+    await tx.recipeRevision.create({
+      data: {
+        recipeId: recipe.id,
+        revision: updated.revision,
+        editedById: options.editedById,
+        title: updated.title,
+        servings: updated.servings,
+        ingredients: updated.ingredients as Prisma.InputJsonValue,
+        steps: (updated.steps ?? undefined) as
+          Prisma.InputJsonValue | undefined,
+        restoredFromRevision: options.restoredFromRevision,
+      },
+    });
+
+    return updated;
+  });
+}
+
+/**
+ * A recipe whose history the viewer may read
+ * Hidden recipes look missing rather than forbidden.
+ */
+export async function getRecipeForHistory(
+  recipeId: string,
+  viewerId: string | undefined
+): Promise<Recipe> {
+  const recipe = await prisma.recipe.findUnique({ where: { id: recipeId } });
+
+  if (!recipe || !(await canViewRecipe(recipe, viewerId))) {
+    throw errors.notFound("Recipe not found");
+  }
+
+  return recipe;
+}
+
+/**
+ * Revisions newest first; a never-edited recipe has just its current state
+ */
+export async function listRecipeRevisions(
+  recipe: Recipe
+): Promise<RecipeRevisionSummary[]> {
+  const rows = await prisma.recipeRevision.findMany({
+    where: { recipeId: recipe.id },
+    orderBy: { revision: "desc" },
+  });
+
+  const summaries = rows.map((row) => ({
+    revision: row.revision,
+    title: row.title,
+    servings: row.servings,
+    ingredientCount: asArray(row.ingredients).length,
+    stepCount: asArray(row.steps).length,
+    editedById: row.editedById,
+    restoredFromRevision: row.restoredFromRevision,
+    createdAt: row.createdAt,
+    isCurrent: row.revision === recipe.revision,
+  }));
+
+  if (summaries.length === 0) {
+    summaries.push({
+      revision: recipe.revision,
+      title: recipe.title,
+      servings: recipe.servings,
+      ingredientCount: asArray(recipe.ingredients).length,
+      stepCount: asArray(recipe.steps).length,
+      editedById: null,
+      restoredFromRevision: null,
+      createdAt: recipe.createdAt,
+      isCurrent: true,
+    });
+  }
+
+  return summaries;
+}
+
+/**
+ * Content of one revision; the current one comes straight from the recipe
+ */
+export async function getRecipeRevision(
+  recipe: Recipe,
+  revision: number
+): Promise<RecipeRevisionContent & { revision: number }> {
+  if (revision === recipe.revision) {
+    return { revision, ...getRevisionContent(recipe) };
+  }
+
+  const row = await prisma.recipeRevision.findUnique({
+    where: { recipeId_revision: { recipeId: recipe.id, revision } },
+  });
+
+  if (!row) {
+    throw errors.notFound(`Revision ${revision} not found`);
+  }
+
+  return { revision, ...getRevisionContent(row) };
+}
+
+export async function diffRecipeRevisions(
+  recipe: Recipe,
+  from: number,
+  to: number = recipe.revision
+): Promise<RecipeRevisionDiff> {
+  const [before, after] = await Promise.all([
+    getRecipeRevision(recipe, from),
+    getRecipeRevision(recipe, to),
+  ]);
+  return diffRevisionContent(before, after, { from, to });
+}
+
+/**
+ * Bring back an earlier revision's content as a new revision
+ * History is never rewritten, so restoring can itself be undone.
+ */
+export async function restoreRecipeRevision(
+  recipe: Recipe,
+  revision: number,
+  userId: string
+): Promise<{ recipe: Recipe; embeddingStale: boolean }> {
+  if (revision === recipe.revision) {
+    throw errors.badRequest(`Revision ${revision} is already current`);
+  }
+
+  const content = await getRecipeRevision(recipe, revision);
+  const edit: RecipeEditInput = {
+    title: content.title,
+    ingredients: asArray(content.ingredients),
+    steps: asArray(content.steps),
+    ...(content.servings !== null ? { servings: content.servings } : {}),
+  };
+  const { data, embeddingStale } = buildRecipeUpdateData(recipe, edit);
+
+  const updated = await updateRecipeWithRevision(recipe, data, {
+    editedById: userId,
+    restoredFromRevision: revision,
+  });
+
+  return { recipe: updated, embeddingStale };
+}
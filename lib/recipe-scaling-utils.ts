@@ -0,0 +1,245 @@
+import {
+  formatQuantity,
+  getUnitFamily,
+  isMetricUnit,
+  normalizeIngredientQuantity,
+  normalizeUnit,
+  parseQuantityText,
+  pickDisplayUnit,
+  roundQuantityForUnit,
+  toBaseUnit,
+} from "./unit-utils";
+import { errors } from "./api-errors";
+import type { IngredientJSON, StepJSON } from "./types";
+
+export const MAX_SCALED_SERVINGS = 100;
+
+// Units we are happy to swap for a neighbour (48 tsp -> 1 cup)
+const PROMOTABLE_UNITS = new Set([
+  "tsp",
+  "tbsp",
+  "cup",
+  "oz",
+  "lb",
+  "g",
+  "kg",
+  "ml",
+  "l",
+]);
+
+export type StepScalingFlag = "pan_size" | "cook_time";
+
+export interface ScaledIngredient extends IngredientJSON {
+  // Display text for qty, e.g. "1 1/2" or "2-3"
+  qtyText?: string;
+  original: { qty?: number | string; unit?: string };
+}
+
+export interface ScaledStep extends StepJSON {
+  originalText: string;
+  // Things the cook should check by hand at the new size
+  flags: StepScalingFlag[];
+}
+
+export interface ScaledRecipe {
+  originalServings: number;
+  servings: number;
+  factor: number;
+  ingredients: ScaledIngredient[];
+  steps: ScaledStep[];
+}
+
+const PAN_SIZE_PATTERNS = [
+  /\b\d+(?:\.\d+)?\s*(?:x|×|by)\s*\d+(?:\.\d+)?\b/i,
+  /\b\d+(?:\.\d+)?\s*(?:-|\s)?(?:inch|in\.|"|cm)\s+(?:\w+\s+)?(?:pan|tin|dish|skillet|pot|mou?ld|ramekin)/i,
+  /\b(?:sheet pan|baking sheet|baking dish|loaf pan|cake pan|springform|muffin tin|casserole|bundt)\b/i,
+];
+
+const COOK_TIME_PATTERN =
+  /\b\d+(?:\.\d+)?(?:\s*(?:-|–|to)\s*\d+(?:\.\d+)?)?\s*(?:minutes?|mins?|hours?|hrs?|seconds?|secs?)\b/i;
+
+// Amount followed by a convertible unit inside step text, e.g. "2 cups"
+const STEP_AMOUNT = String.raw`(?:\d+\s+\d+\/\d+|\d+\/\d+|\d*[½⅓⅔¼¾⅛⅜⅝⅞]|\d+(?:\.\d+)?)`;
+const STEP_QUANTITY_PATTERN = new RegExp(
+  String.raw`(${STEP_AMOUNT}(?:\s*(?:-|–|to)\s*${STEP_AMOUNT})?)(\s*)` +
+    String.raw`(cups?|tablespoons?|tbsps?|teaspoons?|tsps?|fluid ounces?|fl\.? oz|ounces?|oz|pounds?|lbs?|grams?|g|kilograms?|kg|milliliters?|millilitres?|ml|liters?|litres?|l)\b`,
+  "gi"
+);
+
+/**
+ * Scale an amount and pick the unit to show it in
+ */
+function scaleAmount(
+  quantity: number,
+  quantityMax: number | undefined,
+  unit: string,
+  factor: number
+) {
+  const normalized = normalizeUnit(unit);
+  let min = quantity * factor;
+  let max = quantityMax !== undefined ? quantityMax * factor : undefined;
+  let displayUnit = normalized;
+  let promoted = false;
+
+  const family = getUnitFamily(normalized);
+  if (family && family !== "count" && PROMOTABLE_UNITS.has(normalized)) {
+    const base = toBaseUnit(max ?? min, normalized)!.quantity;
+    const display = pickDisplayUnit(base, family, isMetricUnit(normalized));
+
+    if (display.unit !== normalized) {
+      const ratio = display.quantity / (max ?? min);
+      min *= ratio;
+      if (max !== undefined) max *= ratio;
+      displayUnit = display.unit;
+      promoted = true;
+    }
+  }
+
+  min = roundQuantityForUnit(min, displayUnit);
+  if (max !== undefined) max = roundQuantityForUnit(max, displayUnit);
+
+  const text =
+    max !== undefined && max !== min
+      ? `${formatQuantity(min, displayUnit)}-${formatQuantity(max, displayUnit)}`
+      : formatQuantity(min, displayUnit);
+
+  return { min, max, text, unit: displayUnit, promoted };
+}
+
+function scaleIngredient(
+  ingredient: IngredientJSON,
+  factor: number
+): ScaledIngredient {
+  const original = { qty: ingredient.qty, unit: ingredient.unit };
+  const parsed = parseQuantityText(ingredient.qty);
+
+  if (!parsed) {
+    return { ...ingredient, original };
+  }
+
+  const unitText = ingredient.unit || parsed.unitText || "";
+  const scaled = scaleAmount(
+    parsed.quantity,
+    parsed.quantityMax,
+    unitText,
+    factor
+  );
+
+  const result: ScaledIngredient = {
+    ...ingredient,
+    qty:
+      scaled.max !== undefined && scaled.max !== scaled.min
+        ? scaled.text
+        : scaled.min,
+    unit: scaled.promoted ? scaled.unit : unitText || undefined,
+    qtyText: scaled.text,
+    original,
+  };
+
+  const normalized = normalizeIngredientQuantity(result);
+  if (normalized) {
+    result.normalized = normalized;
+  } else {
+    delete result.normalized;
+  }
+
+  return result;
+}
+
+/**
+ * Rewrite amounts with units inside a step ("whisk in 2 tbsp butter")
+ */
+function scaleStepText(text: string, factor: number) {
+  return text.replace(
+    STEP_QUANTITY_PATTERN,
+    (match, amount: string, space: string, unit: string) => {
+      const parsed = parseQuantityText(amount);
+      if (!parsed || !getUnitFamily(unit)) return match;
+
+      const scaled = scaleAmount(
+        parsed.quantity,
+        parsed.quantityMax,
+        unit,
+        factor
+      );
+      return `${scaled.text}${space || " "}${scaled.promoted ? scaled.unit : unit}`;
+    }
+  );
+}
+
+export function getStepScalingFlags(text: string): StepScalingFlag[] {
+  const flags: StepScalingFlag[] = [];
+  if (PAN_SIZE_PATTERNS.some((pattern) => pattern.test(text))) {
+    flags.push("pan_size");
+  }
+  if (COOK_TIME_PATTERN.test(text)) {
+    flags.push("cook_time");
+  }
+  return flags;
+}
+
+/**
+ * Scale a recipe's ingredients and step text to a new serving count
+ *
+ * Ingredients without a usable amount ("salt to taste") are returned as-is.
+ * Steps mentioning pan sizes or cooking times are flagged, since those rarely
+ * scale linearly.
+ */
+export function scaleRecipe(
+  recipe: { servings: number; ingredients: unknown; steps: unknown },
+  servings: number
+): ScaledRecipe {
+  const factor = servings / recipe.servings;
+  const ingredients = Array.isArray(recipe.ingredients)
+    ? (recipe.ingredients as IngredientJSON[])
+    : [];
+  const steps = Array.isArray(recipe.steps) ? (recipe.steps as StepJSON[]) : [];
+
+  return {
+    originalServings: recipe.servings,
+    servings,
+    factor: Math.round(factor * 10000) / 10000,
+    ingredients: ingredients
+      .filter((ingredient) => ingredient?.name)
+      .map((ingredient) => scaleIngredient(ingredient, factor)),
+    steps: steps.map((step) => ({
+      ...step,
+      text: factor === 1 ? step.text : scaleStepText(step.text, factor),
+      originalText: step.text,
+      flags: factor === 1 ? [] : getStepScalingFlags(step.text),
+    })),
+  };
+}
+
+/**
+ * Scale a stored recipe, rejecting ones without a serving count
+ */
+export function scaleStoredRecipe<
+  T extends { servings: number | null; ingredients: unknown; steps: unknown },
+>(recipe: T, servings: number) {
+  if (!recipe.servings || recipe.servings <= 0) {
+    throw errors.badRequest("Recipe has no serving count to scale from");
+  }
+
+  const scaled = scaleRecipe(
+    { ...recipe, servings: recipe.servings },
+    servings
+  );
+
+  return {
+    recipe: {
+      ...recipe,
+      servings: scaled.servings,
+      ingredients: scaled.ingredients,
+      steps: scaled.steps,
+    },
+    scaling: {
+      originalServings: scaled.originalServings,
+      servings: scaled.servings,
+      factor: scaled.factor,
+      flaggedSteps: scaled.steps
+        .filter((step) => step.flags.length > 0)
+        .map((step) => step.order),
+    },
+  };
+}
@@ -4,8 +4,21 @@ import {
   embeddingToPostgresVector,
   cosineSimilarity,
   postgresVectorToEmbedding,
+  RECIPE_EMBEDDING_VERSION,
 } from "./embedding-utils";
 import { Prisma } from "@prisma/client";
+import { getFriendIds } from "./friend-utils";
+import { fuseRankings } from "./rank-fusion-utils";
+import { getTasteEmbedding } from "./taste-profile-utils";
+import {
+  getDietaryViolations,
+  splitDietaryRestrictions,
+} from "./allergen-utils";
+import {
+  hasNutritionTargets,
+  meetsMealNutritionTargets,
+  type NutritionTargets,
+} from "./nutrition-utils";
 
 export interface RecipeWithSimilarity {
   id: string;
@@ -20,11 +33,21 @@ export interface RecipeWithSimilarity {
   ingredients: unknown;
   steps: unknown;
   source: string | null;
+  caloriesPerServing: number | null;
+  proteinPerServing: number | null;
+  classificationVersion: number | null;
   createdAt: Date;
   updatedAt: Date;
   similarity: number;
 }
 
+// Vectors from an older recipe-text format aren't comparable with fresh
+// query embeddings, so they're skipped until re-embedded
+const CURRENT_EMBEDDING_CONDITION = `embedding IS NOT NULL AND "embeddingVersion" = ${RECIPE_EMBEDDING_VERSION}`;
+
+// Share of preference search similarity that comes from the taste profile
+export const TASTE_SIMILARITY_WEIGHT = 0.3;
+
 interface SearchPreferences {
   dietStyle?: string;
   goals?: string[];
@@ -42,6 +65,7 @@ interface SearchPreferences {
 
 /**
  * Search for recipes by user preferences using semantic similarity
+ * With a userId, similarity also blends in the user's taste profile.
  */
 export async function searchRecipesByPreferences(
   preferences: SearchPreferences,
@@ -85,14 +109,28 @@ export async function searchRecipesByPreferences(
     params.push(...excludeRecipeIds);
   }
 
-  // Only search recipes with embeddings
-  conditions.push("embedding IS NOT NULL");
+  // Diet style and allergens use the stored classification
+  const dietary = buildDietarySqlFilter(preferences, paramIndex);
+  conditions.push(...dietary.conditions);
+  params.push(...dietary.params);
+  paramIndex = dietary.nextParamIndex;
+
+  // Only search recipes with current-version embeddings
+  conditions.push(CURRENT_EMBEDDING_CONDITION);
+
+  // Lean towards what the user has actually liked, not just what they said
+  let similarity = "1 - (embedding <=> $1::vector)";
+  const tasteVector = userId ? await getTasteEmbedding(userId) : null;
+  if (tasteVector) {
+    similarity = `${1 - TASTE_SIMILARITY_WEIGHT} * (${similarity}) + ${TASTE_SIMILARITY_WEIGHT} * (1 - (embedding <=> $${paramIndex++}::vector))`;
+    params.push(tasteVector);
+  }
 
   const whereClause =
     conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
 
-  // Use cosine distance operator (<=>)
-  // Lower distance = more similar
+  // Cosine distance operator (<=>) turned into similarity
+  // Higher similarity = closer match
   const query = `
     SELECT 
       id,
@@ -107,12 +145,15 @@ export async function searchRecipesByPreferences(
       ingredients,
       steps,
       source,
+      "caloriesPerServing",
+      "proteinPerServing",
+      "classificationVersion",
       "createdAt",
       "updatedAt",
-      1 - (embedding <=> $1::vector) as similarity
+      ${similarity} as similarity
     FROM "Recipe"
     ${whereClause}
-    ORDER BY embedding <=> $1::vector
+    ORDER BY similarity DESC
     LIMIT $${paramIndex}
   `;
 
@@ -123,57 +164,69 @@ export async function searchRecipesByPreferences(
     ...params
   );
 
-  // Filter by allergies and exclusions (check ingredients)
+  // Filter restrictions the classification can't answer (check ingredients)
   const filtered = recipes.filter((recipe) => {
     // Apply similarity threshold
     if (recipe.similarity < minSimilarity) {
       return false;
     }
 
-    // Check for allergens
-    if (preferences.allergies && preferences.allergies.length > 0) {
-      if (containsAllergens(recipe, preferences.allergies)) {
-        return false;
-      }
-    }
-
-    // Check for exclusions
-    if (preferences.exclusions && preferences.exclusions.length > 0) {
-      if (containsExclusions(recipe, preferences.exclusions)) {
-        return false;
-      }
-    }
-
-    return true;
+    return meetsDietarySqlFilter(recipe, dietary);
   });
 
   return filtered;
 }
 
+// "planned" is meal-plan inclusion (RecipeUsage), "cooked" is the cook log
+export type RecentRecipeActivity = "planned" | "cooked" | "all";
+
 /**
  * Get recently used recipes for a user (last N days)
  */
 export async function getRecentlyUsedRecipes(
   userId: string,
-  days: number = 14
+  days: number = 14,
+  activity: RecentRecipeActivity = "all"
 ): Promise<string[]> {
   const cutoffDate = new Date();
   cutoffDate.setDate(cutoffDate.getDate() - days);
 
-  const usages = await prisma.recipeUsage.findMany({
-    where: {
-      userId,
-      usedAt: {
-        gte: cutoffDate,
-      },
-    },
-    select: {
-      recipeId: true,
-    },
-    distinct: ["recipeId"],
-  });
-
-  return usages.map((u) => u.recipeId);
+  const [planned, cooked] = await Promise.all([
+    activity !== "cooked"
+      ? prisma.recipeUsage.findMany({
+          where: {
+            userId,
+            usedAt: {
+              gte: cutoffDate,
+            },
+          },
+          select: {
+            recipeId: true,
+          },
+          distinct: ["recipeId"],
+        })
+      : [],
+    activity !== "planned"
+      ? prisma.cookEvent.findMany({
+          where: {
+            userId,
+            cookedAt: {
+              gte: cutoffDate,
+            },
+          },
+          orderBy: { cookedAt: "desc" },
+          select: {
+            recipeId: true,
+          },
+          distinct: ["recipeId"],
+        })
+      : [],
+  ]);
+
+  // Cooked first so callers that truncate keep what was actually eaten
+  return [
+    ...new Set([...cooked, ...planned].map((usage) => usage.recipeId)),
+  ];
 }
 
 /**
@@ -193,71 +246,6 @@ export async function recordRecipeUsage(
   });
 }
 
-/**
- * Check if recipe contains allergens
- */
-function containsAllergens(
-  recipe: RecipeWithSimilarity,
-  allergens: string[]
-): boolean {
-  const ingredients = recipe.ingredients as Array<{ name: string }> | undefined;
-  if (!ingredients) return false;
-
-  const allergenPatterns = allergens.map((a) =>
-    a.toLowerCase().replace(/\s+/g, "")
-  );
-
-  for (const ingredient of ingredients) {
-    const ingredientName = ingredient.name.toLowerCase().replace(/\s+/g, "");
-
-    for (const allergen of allergenPatterns) {
-      if (ingredientName.includes(allergen)) {
-        return true;
-      }
-    }
-  }
-
-  return false;
-}
-
-/**
- * Check if recipe contains excluded ingredients
- */
-function containsExclusions(
-  recipe: RecipeWithSimilarity,
-  exclusions: string[]
-): boolean {
-  const ingredients = recipe.ingredients as Array<{ name: string }> | undefined;
-  if (!ingredients) return false;
-
-  // Check title and description for exclusions too
-  const fullText = `${recipe.title} ${recipe.description || ""}`.toLowerCase();
-
-  const exclusionPatterns = exclusions.map((e) =>
-    e.toLowerCase().replace(/\s+/g, "")
-  );
-
-  // Check in title/description
-  for (const exclusion of exclusionPatterns) {
-    if (fullText.replace(/\s+/g, "").includes(exclusion)) {
-      return true;
-    }
-  }
-
-  // Check in ingredients
-  for (const ingredient of ingredients) {
-    const ingredientName = ingredient.name.toLowerCase().replace(/\s+/g, "");
-
-    for (const exclusion of exclusionPatterns) {
-      if (ingredientName.includes(exclusion)) {
-        return true;
-      }
-    }
-  }
-
-  return false;
-}
-
 /**
  * Check for duplicate recipes
  * Returns true if the recipe is too similar to existing ones
@@ -449,13 +437,26 @@ export function selectDiverseRecipes(
   options: {
     titleSimilarityThreshold?: number;
     ingredientOverlapThreshold?: number;
+    // Per-meal targets; recipes that miss them are never selected
+    nutritionTargets?: NutritionTargets;
   } = {}
 ): RecipeWithSimilarity[] {
   const {
     titleSimilarityThreshold = 0.6, // 60% word overlap
     ingredientOverlapThreshold = 0.7, // 70% ingredient overlap
+    nutritionTargets,
   } = options;
 
+  if (nutritionTargets && hasNutritionTargets(nutritionTargets)) {
+    const beforeCount = candidates.length;
+    candidates = candidates.filter((candidate) =>
+      meetsMealNutritionTargets(candidate, nutritionTargets)
+    );
+    console.log(
+      `  🥗 ${candidates.length}/${beforeCount} candidates meet nutrition targets`
+    );
+  }
+
   if (candidates.length === 0) return [];
   if (candidates.length <= count) return candidates;
 
@@ -589,6 +590,8 @@ export async function searchRecipesByTags(
       ingredients,
       steps,
       source,
+      "caloriesPerServing",
+      "proteinPerServing",
       "createdAt",
       "updatedAt",
       0.8 as similarity
@@ -637,6 +640,8 @@ export async function getRandomRecipes(
       ingredients,
       steps,
       source,
+      "caloriesPerServing",
+      "proteinPerServing",
       "createdAt",
       "updatedAt",
       0.5 as similarity
@@ -663,9 +668,16 @@ export async function searchRecipeByQuery(
     limit?: number;
     excludeRecipeIds?: string[];
     minSimilarity?: number;
+    // Only the user's own recipes and published ones
+    visibleToUserId?: string;
   } = {}
 ): Promise<RecipeWithSimilarity[]> {
-  const { limit = 10, excludeRecipeIds = [], minSimilarity = 0.6 } = options;
+  const {
+    limit = 10,
+    excludeRecipeIds = [],
+    minSimilarity = 0.6,
+    visibleToUserId,
+  } = options;
 
   // For single recipe search, we generate embedding directly from the query
   const { generateEmbedding } = await import("./embedding-utils");
@@ -673,7 +685,7 @@ export async function searchRecipeByQuery(
   const vectorStr = embeddingToPostgresVector(queryEmbedding);
 
   // Build WHERE conditions
-  const conditions: string[] = ["embedding IS NOT NULL"];
+  const conditions: string[] = [CURRENT_EMBEDDING_CONDITION];
   const params: any[] = [vectorStr];
   let paramIndex = 2;
 
@@ -684,6 +696,13 @@ export async function searchRecipeByQuery(
     params.push(...excludeRecipeIds);
   }
 
+  if (visibleToUserId) {
+    conditions.push(
+      `("userId" = $${paramIndex++} OR id IN (SELECT "recipeId" FROM "RecipePublication" WHERE "isPublished" = true))`
+    );
+    params.push(visibleToUserId);
+  }
+
   const whereClause = `WHERE ${conditions.join(" AND ")}`;
 
   const query_sql = `
@@ -700,6 +719,8 @@ export async function searchRecipeByQuery(
       ingredients,
       steps,
       source,
+      "caloriesPerServing",
+      "proteinPerServing",
       "createdAt",
       "updatedAt",
       1 - (embedding <=> $1::vector) as similarity
@@ -719,155 +740,399 @@ export async function searchRecipeByQuery(
   return recipes.filter((r) => r.similarity >= minSimilarity);
 }
 
+export type RecipeSearchScope = "all" | "mine" | "friends" | "public";
+
+export interface RecipeSearchFilters {
+  cuisine?: string;
+  maxMinutes?: number;
+  diet?: string;
+  scope?: RecipeSearchScope;
+}
+
+export interface RecipeSearchResult
+  extends Omit<RecipeWithSimilarity, "similarity"> {
+  // Fused score; only meaningful for ordering
+  score: number;
+  similarity: number | null;
+  keywordRank: number | null;
+  semanticRank: number | null;
+}
+
+// Candidates pulled from each ranking before fusing
+const SEARCH_CANDIDATE_POOL = 50;
+
+// Below this the embedding match is noise rather than a weak hit
+const MIN_SEMANTIC_SIMILARITY = 0.2;
+
 /**
- * Dietary restriction keywords for filtering
+ * WHERE conditions shared by the keyword and embedding halves of
+ * searchRecipes; $1 is left for the query text or vector
  */
-const MEAT_KEYWORDS = [
-  "chicken",
-  "beef",
-  "pork",
-  "lamb",
-  "turkey",
-  "duck",
-  "veal",
-  "bacon",
-  "sausage",
-  "ham",
-  "steak",
-  "ground meat",
-  "meatball",
-  "meat",
-  "poultry",
-  "prosciutto",
-  "salami",
-  "pepperoni",
-  "chorizo",
-];
-
-const DAIRY_KEYWORDS = [
-  "milk",
-  "cheese",
-  "butter",
-  "cream",
-  "yogurt",
-  "whey",
-  "casein",
-  "lactose",
-  "parmesan",
-  "cheddar",
-  "mozzarella",
-  "ricotta",
-  "feta",
-  "goat cheese",
-  "sour cream",
-  "half and half",
-];
-
-const FISH_KEYWORDS = [
-  "fish",
-  "salmon",
-  "tuna",
-  "cod",
-  "shrimp",
-  "crab",
-  "lobster",
-  "shellfish",
-  "seafood",
-  "anchovy",
-  "tilapia",
-  "halibut",
-  "trout",
-  "mahi mahi",
-  "catfish",
-  "clam",
-  "mussel",
-  "oyster",
-  "scallop",
-  "calamari",
-  "squid",
-];
-
-const EGG_KEYWORDS = ["egg", "eggs", "mayonnaise", "mayo"];
-
-const HONEY_KEYWORDS = ["honey"];
+async function buildRecipeSearchConditions(
+  filters: RecipeSearchFilters,
+  viewerId: string | undefined
+) {
+  const conditions: string[] = [];
+  const params: unknown[] = [];
+  let paramIndex = 2;
+
+  const published = `id IN (SELECT "recipeId" FROM "RecipePublication" WHERE "isPublished" = true)`;
+  const scope = filters.scope ?? "all";
+
+  if (scope === "public" || !viewerId) {
+    conditions.push(published);
+  } else if (scope === "mine") {
+    conditions.push(`"userId" = $${paramIndex++}`);
+    params.push(viewerId);
+  } else {
+    const friendIds = await getFriendIds(viewerId);
+    if (scope === "friends") {
+      conditions.push(`"userId" = ANY($${paramIndex++}::text[])`);
+      params.push(friendIds);
+    } else {
+      conditions.push(
+        `("userId" = $${paramIndex++} OR "userId" = ANY($${paramIndex++}::text[]) OR ${published})`
+      );
+      params.push(viewerId, friendIds);
+    }
+  }
+
+  if (filters.cuisine) {
+    conditions.push(`LOWER(cuisine) = LOWER($${paramIndex++})`);
+    params.push(filters.cuisine);
+  }
+
+  if (filters.maxMinutes) {
+    conditions.push(`"totalMinutes" <= $${paramIndex++}`);
+    params.push(filters.maxMinutes);
+  }
+
+  let dietary: ReturnType<typeof buildDietarySqlFilter> | null = null;
+  if (filters.diet) {
+    dietary = buildDietarySqlFilter({ dietStyle: filters.diet }, paramIndex);
+    conditions.push(...dietary.conditions);
+    params.push(...dietary.params);
+    paramIndex = dietary.nextParamIndex;
+  }
+
+  return { conditions, params, paramIndex, dietary };
+}
+
+const SEARCH_RESULT_COLUMNS = `
+      id,
+      "userId",
+      title,
+      description,
+      "imageUrl",
+      servings,
+      "totalMinutes",
+      cuisine,
+      tags,
+      ingredients,
+      steps,
+      source,
+      "caloriesPerServing",
+      "proteinPerServing",
+      "classificationVersion",
+      "createdAt",
+      "updatedAt"`;
 
 /**
- * Check if text contains any of the specified keywords
+ * Search recipes by text, fusing Postgres full-text ranking with embedding
+ * similarity so exact names ("shakshuka") and loose descriptions
+ * ("something cozy with lentils") both find results
  */
-function containsAny(text: string, keywords: string[]): boolean {
-  return keywords.some((keyword) => text.includes(keyword));
+export async function searchRecipes(
+  query: string,
+  options: {
+    filters?: RecipeSearchFilters;
+    viewerId?: string;
+    limit?: number;
+  } = {}
+): Promise<RecipeSearchResult[]> {
+  const { filters = {}, viewerId, limit = 20 } = options;
+  const { conditions, params, paramIndex, dietary } =
+    await buildRecipeSearchConditions(filters, viewerId);
+  const meetsDiet = (recipe: RecipeWithSimilarity) =>
+    !dietary || meetsDietarySqlFilter(recipe, dietary);
+  const filterClause = conditions.map((c) => ` AND ${c}`).join("");
+
+  const keywordCandidates = await prisma.$queryRawUnsafe<
+    RecipeWithSimilarity[]
+  >(
+    `
+    SELECT ${SEARCH_RESULT_COLUMNS},
+      NULL::float AS similarity
+    FROM "Recipe"
+    WHERE "searchVector" @@ websearch_to_tsquery('english', $1)${filterClause}
+    ORDER BY ts_rank_cd("searchVector", websearch_to_tsquery('english', $1)) DESC,
+      "createdAt" DESC
+    LIMIT $${paramIndex}
+  `,
+    query,
+    ...params,
+    SEARCH_CANDIDATE_POOL
+  );
+  const keywordResults = keywordCandidates.filter(meetsDiet);
+
+  // Keyword results still stand if the embedding model is unavailable
+  let semanticResults: RecipeWithSimilarity[] = [];
+  try {
+    const { generateEmbedding } = await import("./embedding-utils");
+    const vectorStr = embeddingToPostgresVector(
+      await generateEmbedding(query)
+    );
+
+    semanticResults = await prisma.$queryRawUnsafe<RecipeWithSimilarity[]>(
+      `
+      SELECT ${SEARCH_RESULT_COLUMNS},
+        1 - (embedding <=> $1::vector) AS similarity
+      FROM "Recipe"
+      WHERE ${CURRENT_EMBEDDING_CONDITION}${filterClause}
+      ORDER BY embedding <=> $1::vector
+      LIMIT $${paramIndex}
+    `,
+      vectorStr,
+      ...params,
+      SEARCH_CANDIDATE_POOL
+    );
+    semanticResults = semanticResults.filter(
+      (r) => r.similarity >= MIN_SEMANTIC_SIMILARITY && meetsDiet(r)
+    );
+  } catch (error) {
+    console.error("⚠️  Semantic search failed, using keyword results:", error);
+  }
+
+  const similarityById = new Map(
+    semanticResults.map((r) => [r.id, r.similarity])
+  );
+
+  return fuseRankings([keywordResults, semanticResults])
+    .slice(0, limit)
+    .map(({ item, score, ranks }) => ({
+      ...item,
+      score: Math.round(score * 100000) / 100000,
+      similarity: similarityById.get(item.id) ?? null,
+      keywordRank: ranks[0],
+      semanticRank: ranks[1],
+    }));
+}
+
+export interface SimilarRecipesResult {
+  source: { id: string; title: string };
+  recipes: RecipeWithSimilarity[];
+}
+
+// Neighbours pulled before diversity re-ranking trims them down
+const SIMILAR_CANDIDATE_MULTIPLIER = 4;
+
+/**
+ * Nearest neighbours of a recipe by embedding, limited to recipes the viewer
+ * can see and re-ranked so the results aren't variations of one dish
+ * Returns null when the source recipe doesn't exist or isn't visible.
+ */
+export async function findSimilarRecipes(
+  recipeId: string,
+  options: {
+    viewerId?: string;
+    dietary?: {
+      dietStyle?: string;
+      allergies?: string[];
+      exclusions?: string[];
+    };
+    limit?: number;
+  } = {}
+): Promise<SimilarRecipesResult | null> {
+  const { viewerId, dietary, limit = 6 } = options;
+  const visibility = await buildRecipeSearchConditions(
+    { scope: "all" },
+    viewerId
+  );
+
+  const [source] = await prisma.$queryRawUnsafe<
+    Array<{
+      id: string;
+      title: string;
+      ingredients: unknown;
+      embedding: string | null;
+    }>
+  >(
+    `
+    SELECT id, title, ingredients,
+      CASE WHEN ${CURRENT_EMBEDDING_CONDITION} THEN embedding::text END AS embedding
+    FROM "Recipe"
+    WHERE id = $1 AND ${visibility.conditions.join(" AND ")}
+  `,
+    recipeId,
+    ...visibility.params
+  );
+
+  if (!source) return null;
+
+  const result = { source: { id: source.id, title: source.title } };
+  if (!source.embedding) {
+    return { ...result, recipes: [] };
+  }
+
+  const conditions = [...visibility.conditions, CURRENT_EMBEDDING_CONDITION];
+  const params = [...visibility.params];
+  let paramIndex = visibility.paramIndex;
+
+  conditions.push(`id <> $${paramIndex++}`);
+  params.push(recipeId);
+
+  let filter: ReturnType<typeof buildDietarySqlFilter> | null = null;
+  if (dietary) {
+    filter = buildDietarySqlFilter(dietary, paramIndex);
+    conditions.push(...filter.conditions);
+    params.push(...filter.params);
+    paramIndex = filter.nextParamIndex;
+  }
+
+  const neighbours = await prisma.$queryRawUnsafe<RecipeWithSimilarity[]>(
+    `
+    SELECT ${SEARCH_RESULT_COLUMNS},
+      1 - (embedding <=> $1::vector) AS similarity
+    FROM "Recipe"
+    WHERE ${conditions.join(" AND ")}
+    ORDER BY embedding <=> $1::vector
+    LIMIT $${paramIndex}
+  `,
+    source.embedding,
+    ...params,
+    limit * SIMILAR_CANDIDATE_MULTIPLIER
+  );
+
+  // Saved copies and light edits of the source itself aren't "more like this"
+  const candidates = neighbours.filter(
+    (recipe) =>
+      recipe.similarity >= MIN_SEMANTIC_SIMILARITY &&
+      !isDuplicateRecipe(
+        recipe.title,
+        Array.isArray(recipe.ingredients) ? recipe.ingredients : [],
+        [source]
+      ) &&
+      (!filter || meetsDietarySqlFilter(recipe, filter))
+  );
+
+  return { ...result, recipes: selectDiverseRecipes(candidates, limit) };
+}
+
+/**
+ * Diet style, allergies and exclusions from the user's chef intake
+ */
+export async function getUserDietaryPreferences(userId: string): Promise<{
+  dietStyle?: string;
+  allergies?: string[];
+  exclusions?: string[];
+} | null> {
+  const profile = await prisma.userProfile.findUnique({
+    where: { userId },
+    select: { chefIntake: true },
+  });
+
+  if (!profile?.chefIntake) return null;
+
+  const chefIntake = profile.chefIntake as {
+    dietStyle?: string;
+    allergies?: string[];
+    exclusions?: string[];
+  };
+  return {
+    dietStyle: chefIntake.dietStyle,
+    allergies: chefIntake.allergies,
+    exclusions: chefIntake.exclusions,
+  };
 }
 
 /**
  * Check if a recipe meets dietary restrictions
+ * See getDietaryViolations for the reasons behind a rejection
  */
 export function doesRecipeMeetDietaryRestrictions(
-  recipe: { ingredients?: unknown; tags?: unknown },
+  recipe: {
+    ingredients?: unknown;
+    tags?: unknown;
+    title?: string;
+    description?: string | null;
+  },
   preferences: {
     dietStyle?: string;
     allergies?: string[];
     exclusions?: string[];
   }
 ): boolean {
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const ingredients = (recipe.ingredients as any[]) || [];
-  const ingredientText = ingredients
-    .map((ing) => `${ing.name || ""} ${ing.notes || ""}`)
-    .join(" ")
-    .toLowerCase();
-
-  // Check diet style
-  if (preferences.dietStyle) {
-    const style = preferences.dietStyle.toLowerCase();
-
-    if (style === "vegan") {
-      if (
-        containsAny(ingredientText, [
-          ...MEAT_KEYWORDS,
-          ...DAIRY_KEYWORDS,
-          ...FISH_KEYWORDS,
-          ...EGG_KEYWORDS,
-          ...HONEY_KEYWORDS,
-        ])
-      ) {
-        return false;
-      }
-    } else if (style === "vegetarian") {
-      if (containsAny(ingredientText, [...MEAT_KEYWORDS, ...FISH_KEYWORDS])) {
-        return false;
-      }
-    } else if (style === "pescatarian") {
-      if (containsAny(ingredientText, MEAT_KEYWORDS)) {
-        return false;
-      }
-    }
-    // Add more diet styles as needed
-  }
+  return getDietaryViolations(recipe, preferences).length === 0;
+}
 
-  // Check allergies
-  if (preferences.allergies && preferences.allergies.length > 0) {
-    for (const allergen of preferences.allergies) {
-      const allergenText =
-        typeof allergen === "string"
-          ? allergen.toLowerCase()
-          : String(allergen ?? "").toLowerCase();
-      if (!allergenText) continue;
-      if (ingredientText.includes(allergenText)) {
-        return false;
-      }
-    }
+/**
+ * SQL conditions for the restrictions stored classifications can answer
+ * Whatever is left in `remaining` still needs an ingredient scan, and rows
+ * the classification backfill hasn't reached pass through unchecked; finish
+ * with meetsDietarySqlFilter.
+ */
+export function buildDietarySqlFilter(
+  preferences: {
+    dietStyle?: string;
+    allergies?: string[];
+    exclusions?: string[];
+  },
+  paramIndex: number,
+  tableAlias?: string
+) {
+  const { dietFlag, avoidAllergens, remaining } =
+    splitDietaryRestrictions(preferences);
+  const column = (name: string) =>
+    tableAlias ? `${tableAlias}."${name}"` : `"${name}"`;
+
+  const conditions: string[] = [];
+  const params: unknown[] = [];
+
+  const unclassified = `${column("classificationVersion")} IS NULL`;
+
+  if (dietFlag) {
+    conditions.push(
+      `(${unclassified} OR $${paramIndex++} = ANY(${column("dietFlags")}))`
+    );
+    params.push(dietFlag);
   }
 
-  // Check exclusions
-  if (preferences.exclusions && preferences.exclusions.length > 0) {
-    for (const exclusion of preferences.exclusions) {
-      if (ingredientText.includes(exclusion.toLowerCase())) {
-        return false;
-      }
-    }
+  if (avoidAllergens.length > 0) {
+    conditions.push(
+      `(${unclassified} OR NOT (${column("allergens")} && $${paramIndex++}::text[]))`
+    );
+    params.push(avoidAllergens);
   }
 
-  return true;
+  return {
+    conditions,
+    params,
+    nextParamIndex: paramIndex,
+    preferences,
+    remaining,
+  };
+}
+
+/**
+ * The in-memory half of buildDietarySqlFilter
+ * Unclassified rows (or rows selected without classificationVersion) get the
+ * full ingredient scan; classified rows only need what SQL left over.
+ */
+export function meetsDietarySqlFilter(
+  recipe: Parameters<typeof doesRecipeMeetDietaryRestrictions>[0] & {
+    classificationVersion?: number | null;
+  },
+  filter: Pick<
+    ReturnType<typeof buildDietarySqlFilter>,
+    "preferences" | "remaining"
+  >
+): boolean {
+  return doesRecipeMeetDietaryRestrictions(
+    recipe,
+    (recipe.classificationVersion ?? null) === null
+      ? filter.preferences
+      : filter.remaining
+  );
 }
 
 /**
@@ -1,5 +1,8 @@
 import { prisma } from "./prisma";
 import { errors } from "./api-errors";
+import { normalizeIngredients } from "./unit-utils";
+import { getRecipeNutritionFields } from "./nutrition-utils";
+import { getRecipeClassificationFields } from "./allergen-utils";
 import { getFriendIds } from "./friend-utils";
 import type { RecipeShare } from "./types";
 import { v4 as uuidv4 } from "uuid";
@@ -68,9 +71,14 @@ export async function shareRecipeToFriend(data: {
           totalMinutes: data.recipe.totalMinutes || null,
           cuisine: data.recipe.cuisine || "Other",
           tags: (data.recipe.tags || null) as any,
-          ingredients: data.recipe.ingredients as any,
+          ingredients: normalizeIngredients(data.recipe.ingredients) as any,
           steps: (data.recipe.steps || null) as any,
           source: data.recipe.source || "user-shared",
+          ...getRecipeNutritionFields(
+            data.recipe.ingredients,
+            data.recipe.servings
+          ),
+          ...getRecipeClassificationFields(data.recipe.ingredients),
         },
       });
       recipeId = newRecipe.id;
@@ -1,6 +1,10 @@
 import { prisma } from "@/lib/prisma";
 import { errors } from "@/lib/api-errors";
-import { VoteType } from "@prisma/client";
+import { Prisma, VoteType } from "@prisma/client";
+import { normalizeIngredients } from "@/lib/unit-utils";
+import { getRecipeNutritionFields } from "@/lib/nutrition-utils";
+import { getRecipeClassificationFields } from "@/lib/allergen-utils";
+import { areFriends } from "@/lib/friend-utils";
 
 export interface VoteStats {
   upvotes: number;
@@ -134,3 +138,119 @@ export async function removeVote(
   // Return updated stats
   return getRecipeVoteStats(recipeId);
 }
+
+/**
+ * Delete a recipe owned by the user and leave a tombstone for delta sync
+ */
+export async function deleteRecipe(
+  recipeId: string,
+  userId: string
+): Promise<void> {
+  const recipe = await prisma.recipe.findUnique({
+    where: { id: recipeId },
+    select: { id: true, userId: true },
+  });
+
+  if (!recipe) {
+    throw errors.notFound("Recipe not found");
+  }
+
+  if (recipe.userId !== userId) {
+    throw errors.forbidden("You do not own this recipe");
+  }
+
+  await prisma.$transaction([
+    prisma.recipe.delete({ where: { id: recipeId } }),
+    prisma.syncTombstone.create({
+      data: {
+        userId,
+        entityType: "recipe",
+        entityId: recipeId,
+      },
+    }),
+  ]);
+}
+
+export interface RecipeEditInput {
+  title?: string;
+  description?: string;
+  imageUrl?: string;
+  servings?: number;
+  totalMinutes?: number;
+  cuisine?: string;
+  tags?: string[];
+  ingredients?: unknown[];
+  steps?: unknown[];
+}
+
+/**
+ * Prisma update data for an edit, recomputing what's derived from the
+ * ingredients and servings
+ * When `embeddingStale` is set the caller should re-embed after saving.
+ */
+export function buildRecipeUpdateData(
+  recipe: { ingredients: unknown; servings: number | null },
+  data: RecipeEditInput
+): { data: Prisma.RecipeUpdateInput; embeddingStale: boolean } {
+  // Fields that feed the embedding text
+  const embeddingStale =
+    data.title !== undefined ||
+    data.description !== undefined ||
+    data.tags !== undefined ||
+    data.ingredients !== undefined;
+
+  return {
+    embeddingStale,
+    data: {
+      ...(embeddingStale ? { embeddingVersion: null } : {}),
+      ...(data.title !== undefined ? { title: data.title } : {}),
+      ...(data.description !== undefined
+        ? { description: data.description }
+        : {}),
+      ...(data.imageUrl !== undefined ? { imageUrl: data.imageUrl } : {}),
+      ...(data.servings !== undefined ? { servings: data.servings } : {}),
+      ...(data.totalMinutes !== undefined
+        ? { totalMinutes: data.totalMinutes }
+        : {}),
+      ...(data.cuisine !== undefined ? { cuisine: data.cuisine } : {}),
+      ...(data.tags !== undefined
+        ? { tags: data.tags as Prisma.InputJsonValue }
+        : {}),
+      ...(data.ingredients !== undefined
+        ? {
+            ingredients: normalizeIngredients(
+              data.ingredients
+            ) as Prisma.InputJsonValue,
+            ...getRecipeClassificationFields(data.ingredients),
+          }
+        : {}),
+      ...(data.steps !== undefined
+        ? { steps: data.steps as Prisma.InputJsonValue }
+        : {}),
+      ...(data.ingredients !== undefined || data.servings !== undefined
+        ? getRecipeNutritionFields(
+            data.ingredients ?? recipe.ingredients,
+            data.servings ?? recipe.servings
+          )
+        : {}),
+    },
+  };
+}
+
+/**
+ * Owners, their friends and (for published recipes) anyone can view
+ */
+export async function canViewRecipe(
+  recipe: { id: string; userId: string },
+  viewerId: string | undefined
+): Promise<boolean> {
+  if (viewerId === recipe.userId) return true;
+
+  const publication = await prisma.recipePublication.findUnique({
+    where: { recipeId: recipe.id },
+    select: { isPublished: true },
+  });
+  if (publication?.isPublished) return true;
+
+  return !!viewerId && areFriends(viewerId, recipe.userId);
+}
@@ -0,0 +1,239 @@
+import { prisma } from "./prisma";
+import { errors } from "./api-errors";
+import { getSectionVersions, type SyncMeta } from "./sync-utils";
+import type { SyncDelta, SyncSection, UserBackup } from "./types";
+
+// Recipes returned per delta response; clients page with hasMore
+const DELTA_RECIPE_PAGE_SIZE = 200;
+
+const PROFILE_SECTIONS: SyncSection[] = [
+  "chefIntake",
+  "inventory",
+  "mealPlans",
+  "groceryList",
+  "achievements",
+  "streaks",
+  "tokenState",
+];
+
+/**
+ * Position in the user's change stream
+ * - v: profile syncVersion already seen (absent for plain `since` requests)
+ * - t/id: last recipe (updatedAt, id) already seen
+ * - d/di: last tombstone (deletedAt, id) already seen; di is absent in
+ *   cursors that haven't seen a tombstone at d
+ */
+interface SyncCursor {
+  v?: number;
+  t: string;
+  id: string;
+  d: string;
+  di?: string;
+}
+
+type SyncRecipe = {
+  id: string;
+  title: string;
+  description: string | null;
+  imageUrl: string | null;
+  servings: number | null;
+  totalMinutes: number | null;
+  tags: unknown;
+  ingredients: unknown;
+  steps: unknown;
+  nutrition: unknown;
+  source: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+export function encodeSyncCursor(cursor: SyncCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+export function decodeSyncCursor(value: string): SyncCursor {
+  try {
+    const parsed = JSON.parse(
+      Buffer.from(value, "base64url").toString("utf8")
+    ) as SyncCursor;
+
+    if (
+      typeof parsed.t !== "string" ||
+      typeof parsed.id !== "string" ||
+      typeof parsed.d !== "string" ||
+      isNaN(new Date(parsed.t).getTime()) ||
+      isNaN(new Date(parsed.d).getTime()) ||
+      (parsed.di !== undefined && typeof parsed.di !== "string") ||
+      (parsed.v !== undefined && typeof parsed.v !== "number")
+    ) {
+      throw new Error("Malformed cursor");
+    }
+
+    return parsed;
+  } catch {
+    throw errors.badRequest("Invalid sync cursor");
+  }
+}
+
+/**
+ * Build a cursor from a plain ISO timestamp
+ */
+export function cursorFromSince(since: string): SyncCursor {
+  const date = new Date(since);
+  if (isNaN(date.getTime())) {
+    throw errors.badRequest("Invalid since timestamp");
+  }
+
+  return { t: date.toISOString(), id: "", d: date.toISOString() };
+}
+
+/**
+ * Cursor pointing just after a full backup, so the next call is a delta
+ */
+export function buildBackupCursor(
+  syncVersion: number,
+  recipes: Array<{ id: string; updatedAt: Date }>,
+  startedAt: Date
+): string {
+  let latest: { id: string; updatedAt: Date } | null = null;
+
+  for (const recipe of recipes) {
+    if (
+      !latest ||
+      recipe.updatedAt > latest.updatedAt ||
+      (recipe.updatedAt.getTime() === latest.updatedAt.getTime() &&
+        recipe.id > latest.id)
+    ) {
+      latest = recipe;
+    }
+  }
+
+  return encodeSyncCursor({
+    v: syncVersion,
+    t: (latest?.updatedAt ?? new Date(0)).toISOString(),
+    id: latest?.id ?? "",
+    d: startedAt.toISOString(),
+  });
+}
+
+/**
+ * Tombstones after the cursor position; ties on deletedAt are broken by
+ * id, as for recipes
+ */
+export function getTombstonesAfter(cursor: SyncCursor) {
+  const after = new Date(cursor.d);
+
+  return {
+    OR: [
+      { deletedAt: { gt: after } },
+      { deletedAt: after, id: { gt: cursor.di ?? "" } },
+    ],
+  };
+}
+
+export function mapRecipeForSync(
+  recipe: SyncRecipe
+): UserBackup["recipes"][number] {
+  return {
+    id: recipe.id,
+    title: recipe.title,
+    description: recipe.description ?? undefined,
+    imageUrl: recipe.imageUrl ?? undefined,
+    servings: recipe.servings ?? undefined,
+    totalMinutes: recipe.totalMinutes ?? undefined,
+    tags: recipe.tags as UserBackup["recipes"][number]["tags"],
+    ingredients:
+      recipe.ingredients as UserBackup["recipes"][number]["ingredients"],
+    steps: recipe.steps as UserBackup["recipes"][number]["steps"],
+    nutrition:
+      (recipe.nutrition as UserBackup["recipes"][number]["nutrition"]) ??
+      undefined,
+    source: recipe.source ?? undefined,
+    createdAt: recipe.createdAt.toISOString(),
+    updatedAt: recipe.updatedAt.toISOString(),
+  };
+}
+
+/**
+ * Collect everything that changed for a user after the cursor position
+ */
+export async function getSyncDelta(
+  userId: string,
+  cursor: SyncCursor
+): Promise<SyncDelta> {
+  const profile = await prisma.userProfile.findUnique({
+    where: { userId },
+  });
+
+  const profileDelta: SyncDelta["profile"] = {
+    syncVersion: profile?.syncVersion ?? 0,
+    lastSyncedAt: profile?.lastSyncedAt?.toISOString(),
+  };
+
+  if (profile) {
+    const sectionVersions = getSectionVersions(
+      profile.syncMeta as SyncMeta | null
+    );
+
+    for (const section of PROFILE_SECTIONS) {
+      let changed: boolean;
+      if (cursor.v === undefined) {
+        changed = profile.updatedAt > new Date(cursor.t);
+      } else {
+        // Sections written before merge metadata existed fall back to the
+        // profile-wide version
+        changed =
+          (sectionVersions[section] ?? profile.syncVersion) > cursor.v;
+      }
+
+      if (changed && profile[section] !== null) {
+        profileDelta[section] = profile[section] as never;
+      }
+    }
+  }
+
+  const after = new Date(cursor.t);
+  const recipes = await prisma.recipe.findMany({
+    where: {
+      userId,
+      OR: [
+        { updatedAt: { gt: after } },
+        { updatedAt: after, id: { gt: cursor.id } },
+      ],
+    },
+    orderBy: [{ updatedAt: "asc" }, { id: "asc" }],
+    take: DELTA_RECIPE_PAGE_SIZE + 1,
+  });
+
+  const hasMore = recipes.length > DELTA_RECIPE_PAGE_SIZE;
+  const page = recipes.slice(0, DELTA_RECIPE_PAGE_SIZE);
+  const lastRecipe = page[page.length - 1];
+
+  const tombstones = await prisma.syncTombstone.findMany({
+    where: {
+      userId,
+      entityType: "recipe",
+      ...getTombstonesAfter(cursor),
+    },
+    orderBy: [{ deletedAt: "asc" }, { id: "asc" }],
+  });
+  const lastTombstone = tombstones[tombstones.length - 1];
+
+  return {
+    cursor: encodeSyncCursor({
+      v: profileDelta.syncVersion,
+      t: lastRecipe ? lastRecipe.updatedAt.toISOString() : cursor.t,
+      id: lastRecipe ? lastRecipe.id : cursor.id,
+      d: lastTombstone ? lastTombstone.deletedAt.toISOString() : cursor.d,
+      di: lastTombstone ? lastTombstone.id : cursor.di,
+    }),
+    hasMore,
+    profile: profileDelta,
+    recipes: page.map(mapRecipeForSync),
+    deletions: tombstones.map((tombstone) => ({
+      entityType: "recipe" as const,
+      id: tombstone.entityId,
+      deletedAt: tombstone.deletedAt.toISOString(),
+    })),
+  };
+}
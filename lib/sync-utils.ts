@@ -0,0 +1,472 @@
+import type {
+  StreakData,
+  SyncConflict,
+  SyncPayload,
+  SyncSection,
+} from "./types";
+
+/**
+ * Sections stored as a single object, merged field by field
+ */
+const DOCUMENT_SECTIONS = ["chefIntake", "streaks", "tokenState"] as const;
+
+/**
+ * Sections stored as a keyed collection, merged item by item
+ * Arrays are keyed by item.id, records by their own keys
+ */
+const ARRAY_SECTIONS = ["inventory", "groceryList"] as const;
+const RECORD_SECTIONS = ["mealPlans", "achievements"] as const;
+
+type DocumentSection = (typeof DOCUMENT_SECTIONS)[number];
+type CollectionSection =
+  | (typeof ARRAY_SECTIONS)[number]
+  | (typeof RECORD_SECTIONS)[number];
+
+// Tombstones older than this many versions are dropped from the metadata
+const TOMBSTONE_RETENTION_VERSIONS = 100;
+
+/**
+ * Version bookkeeping for one item (or one document section)
+ * Every number is the profile syncVersion at which the change was written
+ */
+export interface ItemSyncMeta {
+  createdAt?: number;
+  fields: Record<string, number>;
+  deletedAt?: number;
+}
+
+/**
+ * Stored in UserProfile.syncMeta alongside the JSON blobs
+ */
+export interface SyncMeta {
+  documents?: Partial<Record<DocumentSection, ItemSyncMeta>>;
+  collections?: Partial<
+    Record<CollectionSection, Record<string, ItemSyncMeta>>
+  >;
+}
+
+export type ProfileSections = Partial<Record<SyncSection, unknown>>;
+
+export interface SyncMergeResult {
+  sections: ProfileSections;
+  meta: SyncMeta;
+  conflicts: SyncConflict[];
+}
+
+type JsonRecord = Record<string, unknown>;
+
+type FieldResolver = (
+  field: string,
+  serverValue: unknown,
+  deviceValue: unknown
+) => { value: unknown } | null;
+
+interface MergeContext {
+  section: SyncSection;
+  itemId?: string;
+  baseVersion: number;
+  nextVersion: number;
+  resolveField?: FieldResolver;
+}
+
+function isRecord(value: unknown): value is JsonRecord {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+  if (isRecord(value)) {
+    const keys = Object.keys(value)
+      .filter((key) => value[key] !== undefined)
+      .sort();
+    return `{${keys
+      .map((key) => `${JSON.stringify(key)}:${stableStringify(value[key])}`)
+      .join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "undefined";
+}
+
+function isEqualJson(a: unknown, b: unknown): boolean {
+  return stableStringify(a) === stableStringify(b);
+}
+
+function itemVersion(meta: ItemSyncMeta | undefined): number {
+  if (!meta) return 0;
+  return Math.max(meta.createdAt ?? 0, ...Object.values(meta.fields), 0);
+}
+
+/**
+ * Merge two versions of the same object field by field
+ *
+ * A field the server has not touched since the device's base version takes
+ * the device value. A field both sides changed keeps the server value unless
+ * the section provides a resolver that can combine them.
+ */
+function mergeFields(
+  serverItem: JsonRecord,
+  deviceItem: JsonRecord,
+  meta: ItemSyncMeta | undefined,
+  ctx: MergeContext
+): { value: JsonRecord; meta: ItemSyncMeta; conflicts: SyncConflict[] } {
+  const fields = { ...(meta?.fields ?? {}) };
+  const value: JsonRecord = {};
+  const conflicts: SyncConflict[] = [];
+
+  const keys = new Set([...Object.keys(serverItem), ...Object.keys(deviceItem)]);
+
+  for (const key of keys) {
+    const serverValue = serverItem[key];
+    const deviceValue = deviceItem[key];
+
+    if (isEqualJson(serverValue, deviceValue)) {
+      if (serverValue !== undefined) value[key] = serverValue;
+      continue;
+    }
+
+    const serverChangedSinceBase = (fields[key] ?? 0) > ctx.baseVersion;
+
+    if (!serverChangedSinceBase) {
+      if (deviceValue !== undefined) value[key] = deviceValue;
+      fields[key] = ctx.nextVersion;
+      continue;
+    }
+
+    const resolved = ctx.resolveField?.(key, serverValue, deviceValue);
+    if (resolved) {
+      if (resolved.value !== undefined) value[key] = resolved.value;
+      fields[key] = ctx.nextVersion;
+      conflicts.push({
+        section: ctx.section,
+        itemId: ctx.itemId,
+        field: key,
+        resolution: "merged",
+      });
+      continue;
+    }
+
+    if (serverValue !== undefined) value[key] = serverValue;
+    conflicts.push({
+      section: ctx.section,
+      itemId: ctx.itemId,
+      field: key,
+      resolution: "server",
+    });
+  }
+
+  return {
+    value,
+    meta: { createdAt: meta?.createdAt, fields },
+    conflicts,
+  };
+}
+
+function stampAllFields(item: JsonRecord, version: number): ItemSyncMeta {
+  const fields: Record<string, number> = {};
+  for (const key of Object.keys(item)) {
+    fields[key] = version;
+  }
+  return { createdAt: version, fields };
+}
+
+/**
+ * Merge a keyed collection (inventory items, grocery items, achievements,
+ * meal plan weeks) item by item, honoring deletions on both sides
+ */
+function mergeCollection(
+  section: SyncSection,
+  serverItems: Map<string, JsonRecord>,
+  deviceItems: Map<string, JsonRecord>,
+  meta: Record<string, ItemSyncMeta>,
+  options: {
+    baseVersion: number;
+    nextVersion: number;
+    resolveField?: FieldResolver;
+  }
+): {
+  items: Map<string, JsonRecord>;
+  meta: Record<string, ItemSyncMeta>;
+  conflicts: SyncConflict[];
+} {
+  const { baseVersion, nextVersion } = options;
+  const items = new Map<string, JsonRecord>();
+  const nextMeta: Record<string, ItemSyncMeta> = {};
+  const conflicts: SyncConflict[] = [];
+
+  // Device order first, then anything only the server knows about
+  const ids = [
+    ...deviceItems.keys(),
+    ...[...serverItems.keys()].filter((id) => !deviceItems.has(id)),
+    ...Object.keys(meta).filter(
+      (id) => !deviceItems.has(id) && !serverItems.has(id)
+    ),
+  ];
+
+  for (const id of ids) {
+    const serverItem = serverItems.get(id);
+    const deviceItem = deviceItems.get(id);
+    const itemMeta = meta[id];
+
+    if (serverItem && deviceItem) {
+      const merged = mergeFields(serverItem, deviceItem, itemMeta, {
+        section,
+        itemId: id,
+        baseVersion,
+        nextVersion,
+        resolveField: options.resolveField,
+      });
+      items.set(id, merged.value);
+      nextMeta[id] = merged.meta;
+      conflicts.push(...merged.conflicts);
+      continue;
+    }
+
+    if (serverItem) {
+      const changedSinceBase = itemVersion(itemMeta) > baseVersion;
+      if (!changedSinceBase) {
+        // Device saw this item at its base and removed it
+        nextMeta[id] = { fields: {}, deletedAt: nextVersion };
+        continue;
+      }
+
+      items.set(id, serverItem);
+      nextMeta[id] = itemMeta!;
+
+      // Edited on the server while the device deleted it: the edit wins
+      const createdBeforeBase = (itemMeta?.createdAt ?? 0) <= baseVersion;
+      if (createdBeforeBase) {
+        conflicts.push({ section, itemId: id, resolution: "server" });
+      }
+      continue;
+    }
+
+    if (deviceItem) {
+      const deletedSinceBase = (itemMeta?.deletedAt ?? 0) > baseVersion;
+      if (deletedSinceBase) {
+        nextMeta[id] = itemMeta!;
+        conflicts.push({ section, itemId: id, resolution: "deleted" });
+        continue;
+      }
+
+      items.set(id, deviceItem);
+      nextMeta[id] = stampAllFields(deviceItem, nextVersion);
+      continue;
+    }
+
+    // Tombstone only: keep it around for devices that are still behind
+    if (
+      itemMeta?.deletedAt !== undefined &&
+      itemMeta.deletedAt > nextVersion - TOMBSTONE_RETENTION_VERSIONS
+    ) {
+      nextMeta[id] = itemMeta;
+    }
+  }
+
+  return { items, meta: nextMeta, conflicts };
+}
+
+function arrayToMap(value: unknown): Map<string, JsonRecord> {
+  const map = new Map<string, JsonRecord>();
+  if (!Array.isArray(value)) return map;
+
+  for (const item of value) {
+    if (isRecord(item) && typeof item.id === "string") {
+      map.set(item.id, item);
+    }
+  }
+  return map;
+}
+
+function recordToMap(value: unknown): Map<string, JsonRecord> {
+  const map = new Map<string, JsonRecord>();
+  if (!isRecord(value)) return map;
+
+  for (const [key, item] of Object.entries(value)) {
+    if (isRecord(item)) {
+      map.set(key, item);
+    }
+  }
+  return map;
+}
+
+function earliestDate(a: unknown, b: unknown): unknown {
+  if (typeof a !== "string") return b;
+  if (typeof b !== "string") return a;
+  return new Date(a).getTime() <= new Date(b).getTime() ? a : b;
+}
+
+/**
+ * Achievements only move forward: keep the highest progress and the
+ * earliest unlock time reported by any device
+ */
+const resolveAchievementField: FieldResolver = (field, server, device) => {
+  if (field === "progress" && typeof server === "number") {
+    return {
+      value: typeof device === "number" ? Math.max(server, device) : server,
+    };
+  }
+  if (field === "unlockedAt") {
+    return { value: earliestDate(server, device) };
+  }
+  return null;
+};
+
+/**
+ * Streaks: the device with the most recent activity has the freshest counts
+ */
+const resolveStreakField: FieldResolver = (_field, server, device) => {
+  if (!isRecord(server) || !isRecord(device)) return null;
+
+  const serverStreak = server as unknown as StreakData;
+  const deviceStreak = device as unknown as StreakData;
+  const serverTime = serverStreak.lastActivityDate
+    ? new Date(serverStreak.lastActivityDate).getTime()
+    : 0;
+  const deviceTime = deviceStreak.lastActivityDate
+    ? new Date(deviceStreak.lastActivityDate).getTime()
+    : 0;
+
+  const latest = deviceTime > serverTime ? deviceStreak : serverStreak;
+  return {
+    value: {
+      ...latest,
+      bestStreak: Math.max(
+        serverStreak.bestStreak ?? 0,
+        deviceStreak.bestStreak ?? 0
+      ),
+      totalCount: Math.max(
+        serverStreak.totalCount ?? 0,
+        deviceStreak.totalCount ?? 0
+      ),
+    },
+  };
+};
+
+const COLLECTION_RESOLVERS: Partial<Record<CollectionSection, FieldResolver>> =
+  {
+    achievements: resolveAchievementField,
+  };
+
+const DOCUMENT_RESOLVERS: Partial<Record<DocumentSection, FieldResolver>> = {
+  streaks: resolveStreakField,
+};
+
+/**
+ * Merge the sections a device uploaded into the stored profile
+ *
+ * `baseVersion` is the syncVersion the device last pulled. Anything the
+ * server changed after that version is treated as a concurrent edit; all
+ * other differences are device edits and win. Sections the device did not
+ * send are left untouched.
+ */
+export function mergeSyncPayload(params: {
+  current: ProfileSections;
+  meta: SyncMeta | null | undefined;
+  payload: Omit<SyncPayload, "baseVersion">;
+  baseVersion: number;
+  nextVersion: number;
+}): SyncMergeResult {
+  const { current, payload, baseVersion, nextVersion } = params;
+  const meta: SyncMeta = {
+    documents: { ...(params.meta?.documents ?? {}) },
+    collections: { ...(params.meta?.collections ?? {}) },
+  };
+  const sections: ProfileSections = {};
+  const conflicts: SyncConflict[] = [];
+
+  for (const section of DOCUMENT_SECTIONS) {
+    const deviceValue = payload[section];
+    if (deviceValue === undefined || deviceValue === null) continue;
+
+    const serverValue = current[section];
+    if (!isRecord(serverValue) || !isRecord(deviceValue)) {
+      sections[section] = deviceValue;
+      meta.documents![section] = stampAllFields(
+        isRecord(deviceValue) ? deviceValue : {},
+        nextVersion
+      );
+      continue;
+    }
+
+    const merged = mergeFields(
+      serverValue,
+      deviceValue as unknown as JsonRecord,
+      meta.documents![section],
+      {
+        section,
+        baseVersion,
+        nextVersion,
+        resolveField: DOCUMENT_RESOLVERS[section],
+      }
+    );
+    sections[section] = merged.value;
+    meta.documents![section] = merged.meta;
+    conflicts.push(...merged.conflicts);
+  }
+
+  for (const section of ARRAY_SECTIONS) {
+    const deviceValue = payload[section];
+    if (deviceValue === undefined || deviceValue === null) continue;
+
+    const merged = mergeCollection(
+      section,
+      arrayToMap(current[section]),
+      arrayToMap(deviceValue),
+      meta.collections![section] ?? {},
+      { baseVersion, nextVersion, resolveField: COLLECTION_RESOLVERS[section] }
+    );
+    sections[section] = [...merged.items.values()];
+    meta.collections![section] = merged.meta;
+    conflicts.push(...merged.conflicts);
+  }
+
+  for (const section of RECORD_SECTIONS) {
+    const deviceValue = payload[section];
+    if (deviceValue === undefined || deviceValue === null) continue;
+
+    const merged = mergeCollection(
+      section,
+      recordToMap(current[section]),
+      recordToMap(deviceValue),
+      meta.collections![section] ?? {},
+      { baseVersion, nextVersion, resolveField: COLLECTION_RESOLVERS[section] }
+    );
+    sections[section] = Object.fromEntries(merged.items);
+    meta.collections![section] = merged.meta;
+    conflicts.push(...merged.conflicts);
+  }
+
+  return { sections, meta, conflicts };
+}
+
+/**
+ * Latest syncVersion at which each section changed, derived from the merge
+ * metadata. Sections without metadata are omitted.
+ */
+export function getSectionVersions(
+  meta: SyncMeta | null | undefined
+): Partial<Record<SyncSection, number>> {
+  const versions: Partial<Record<SyncSection, number>> = {};
+
+  for (const [section, itemMeta] of Object.entries(meta?.documents ?? {})) {
+    if (itemMeta) {
+      versions[section as SyncSection] = Math.max(
+        itemVersion(itemMeta),
+        itemMeta.deletedAt ?? 0
+      );
+    }
+  }
+
+  for (const [section, items] of Object.entries(meta?.collections ?? {})) {
+    if (!items) continue;
+    versions[section as SyncSection] = Math.max(
+      0,
+      ...Object.values(items).map((itemMeta) =>
+        Math.max(itemVersion(itemMeta), itemMeta.deletedAt ?? 0)
+      )
+    );
+  }
+
+  return versions;
+}
@@ -0,0 +1,182 @@
+import { prisma } from "./prisma";
+import {
+  embeddingToPostgresVector,
+  postgresVectorToEmbedding,
+  RECIPE_EMBEDDING_VERSION,
+} from "./embedding-utils";
+
+// A signal counts half as much after this many days
+export const TASTE_HALF_LIFE_DAYS = 60;
+
+// Rebuild cached profiles older than this
+const TASTE_PROFILE_TTL_MS = 6 * 60 * 60 * 1000;
+
+// Most recent signals blended into a profile
+const MAX_TASTE_SIGNALS = 300;
+
+// Below this (after decay) there isn't enough history to trust the vector
+const MIN_TASTE_WEIGHT = 1;
+
+// Saving a copy is a stronger statement than a tap on upvote, and putting
+// a recipe in a meal plan says less than actually cooking it
+const SIGNAL_WEIGHTS = {
+  upvote: 1,
+  save: 1.5,
+  cook: 1,
+  plan: 0.5,
+} as const;
+
+export interface TasteSignal {
+  embedding: number[];
+  weight: number;
+  occurredAt: Date;
+}
+
+/**
+ * Decayed, weighted mean of signal embeddings, normalized to unit length
+ * Returns null when there's too little (or too old) history.
+ */
+export function blendTasteSignals(
+  signals: TasteSignal[],
+  now: Date = new Date()
+): number[] | null {
+  let totalWeight = 0;
+  let blended: number[] | null = null;
+
+  for (const signal of signals) {
+    const ageDays = Math.max(
+      0,
+      (now.getTime() - signal.occurredAt.getTime()) / 86400000
+    );
+    const weight =
+      signal.weight * Math.pow(0.5, ageDays / TASTE_HALF_LIFE_DAYS);
+    if (weight <= 0) continue;
+
+    const sum = (blended ??= new Array(signal.embedding.length).fill(0));
+    signal.embedding.forEach((value, i) => {
+      sum[i] += value * weight;
+    });
+    totalWeight += weight;
+  }
+
+  if (!blended || totalWeight < MIN_TASTE_WEIGHT) return null;
+
+  const norm = Math.sqrt(
+    blended.reduce((sum, value) => sum + value * value, 0)
+  );
+  return norm > 0 ? blended.map((value) => value / norm) : null;
+}
+
+/**
+ * Upvotes, saved copies, cooks, meal-plan uses and 4-5 star ratings, newest first
+ */
+async function getTasteSignals(userId: string): Promise<TasteSignal[]> {
+  const rows = await prisma.$queryRawUnsafe<
+    Array<{ embedding: string; weight: number; occurredAt: Date }>
+  >(
+    `
+    SELECT r.embedding::text AS embedding, s.weight, s."occurredAt"
+    FROM (
+      SELECT "recipeId", $3::float AS weight, "updatedAt" AS "occurredAt"
+      FROM "RecipeVote"
+      WHERE "userId" = $1 AND "voteType" = 'upvote'
+      UNION ALL
+      SELECT id, $4::float, "createdAt"
+      FROM "Recipe"
+      WHERE "userId" = $1 AND source = 'discover-import'
+      UNION ALL
+      SELECT "recipeId", $5::float, "cookedAt"
+      FROM "CookEvent"
+      WHERE "userId" = $1
+      UNION ALL
+      SELECT "recipeId", $7::float, "usedAt"
+      FROM "RecipeUsage"
+      WHERE "userId" = $1
+      UNION ALL
+      SELECT "recipeId", (rating - 3) / 2.0, "createdAt"
+      FROM "RecipePost"
+      WHERE "userId" = $1 AND rating >= 4
+      UNION ALL
+      SELECT "recipeId", (rating - 3) / 2.0, "cookedAt"
+      FROM "CookEvent"
+      WHERE "userId" = $1 AND rating >= 4
+    ) s
+    JOIN "Recipe" r ON r.id = s."recipeId"
+    WHERE r.embedding IS NOT NULL AND r."embeddingVersion" = $2
+    ORDER BY s."occurredAt" DESC
+    LIMIT $6
+  `,
+    userId,
+    RECIPE_EMBEDDING_VERSION,
+    SIGNAL_WEIGHTS.upvote,
+    SIGNAL_WEIGHTS.save,
+    SIGNAL_WEIGHTS.cook,
+    MAX_TASTE_SIGNALS,
+    SIGNAL_WEIGHTS.plan
+  );
+
+  return rows.map((row) => ({
+    embedding: postgresVectorToEmbedding(row.embedding),
+    weight: Number(row.weight),
+    occurredAt: new Date(row.occurredAt),
+  }));
+}
+
+/**
+ * Rebuild and store a user's taste vector from their recent activity
+ */
+export async function refreshTasteProfile(
+  userId: string
+): Promise<number[] | null> {
+  const signals = await getTasteSignals(userId);
+  const embedding = blendTasteSignals(signals);
+
+  await prisma.$executeRawUnsafe(
+    `
+    INSERT INTO "TasteProfile" ("userId", embedding, "embeddingVersion", "signalCount", "updatedAt")
+    VALUES ($1, $2::vector, $3, $4, NOW())
+    ON CONFLICT ("userId") DO UPDATE SET
+      embedding = EXCLUDED.embedding,
+      "embeddingVersion" = EXCLUDED."embeddingVersion",
+      "signalCount" = EXCLUDED."signalCount",
+      "updatedAt" = EXCLUDED."updatedAt"
+  `,
+    userId,
+    embedding ? embeddingToPostgresVector(embedding) : null,
+    RECIPE_EMBEDDING_VERSION,
+    signals.length
+  );
+
+  return embedding;
+}
+
+/**
+ * A user's taste vector as a Postgres vector literal, rebuilding it when the
+ * cached one is old or from another embedding version
+ * Null for users without enough history.
+ */
+export async function getTasteEmbedding(
+  userId: string
+): Promise<string | null> {
+  const [cached] = await prisma.$queryRawUnsafe<
+    Array<{
+      embedding: string | null;
+      embeddingVersion: number;
+      updatedAt: Date;
+    }>
+  >(
+    `SELECT embedding::text AS embedding, "embeddingVersion", "updatedAt" FROM "TasteProfile" WHERE "userId" = $1`,
+    userId
+  );
+
+  if (
+    cached &&
+    cached.embeddingVersion === RECIPE_EMBEDDING_VERSION &&
+    Date.now() - new Date(cached.updatedAt).getTime() < TASTE_PROFILE_TTL_MS
+  ) {
+    return cached.embedding;
+  }
+
+  const embedding = await refreshTasteProfile(userId);
+  return embedding ? embeddingToPostgresVector(embedding) : null;
+}
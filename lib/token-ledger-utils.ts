@@ -0,0 +1,432 @@
+import { prisma } from "./prisma";
+import { errors } from "./api-errors";
+import { Prisma, type TokenTransaction } from "@prisma/client";
+import type { AiEndpoint } from "./ai-usage-utils";
+import type { ProfileSections } from "./sync-utils";
+import type { TokenState, Transaction, TransactionType } from "./types";
+
+// Tokens awarded for things the server can see happen
+export const TOKEN_REWARDS = {
+  meal_cooked: 5, // First cook logged each day
+  achievement: 10,
+} as const;
+
+// Most recent transactions mirrored into the synced tokenState
+const SYNCED_TRANSACTION_LIMIT = 50;
+
+export interface TokenTransactionInput {
+  amount: number;
+  type: TransactionType;
+  description: string;
+  relatedId?: string;
+  idempotencyKey?: string;
+}
+
+export interface TokenBalance {
+  balance: number;
+  lifetimeEarned: number;
+  lifetimeSpent: number;
+}
+
+export type TokenTransactionResult =
+  | {
+      ok: true;
+      transaction: TokenTransaction;
+      balance: number;
+      replayed: boolean; // An earlier request with the same key made it
+    }
+  | { ok: false; balance: number };
+
+async function findByIdempotencyKey(userId: string, idempotencyKey: string) {
+  return prisma.tokenTransaction.findUnique({
+    where: { userId_idempotencyKey: { userId, idempotencyKey } },
+  });
+}
+
+// What a repeated idempotency key gets back: the first transaction as it was
+export function replayTransaction(
+  existing: TokenTransaction
+): TokenTransactionResult {
+  return {
+    ok: true,
+    transaction: existing,
+    balance: existing.balanceAfter,
+    replayed: true,
+  };
+}
+
+// A concurrent request with the same key committed first
+export function isIdempotencyConflict(
+  error: unknown,
+  idempotencyKey: string | undefined
+): boolean {
+  return (
+    !!idempotencyKey &&
+    error instanceof Prisma.PrismaClientKnownRequestError &&
+    error.code === "P2002"
+  );
+}
+
+/**
+ * Move the balance and append the ledger row inside a caller's transaction
+ */
+async function writeTokenTransaction(
+  tx: Prisma.TransactionClient,
+  userId: string,
+  input: TokenTransactionInput
+): Promise<TokenTransactionResult> {
+  await tx.tokenAccount.upsert({
+    where: { userId },
+    create: { userId },
+    update: {},
+  });
+
+  const { count } = await tx.tokenAccount.updateMany({
+    where: {
+      userId,
+      ...(input.amount < 0 ? { balance: { gte: -input.amount } } : {}),
+    },
+    data: {
+      balance: { increment: input.amount },
+      ...(input.amount > 0
+        ? { lifetimeEarned: { increment: input.amount } }
+        : { lifetimeSpent: { increment: -input.amount } }),
+    },
+  });
+
+  const account = await tx.tokenAccount.findUniqueOrThrow({
+    where: { userId },
+  });
+  if (count === 0) {
+    return { ok: false as const, balance: account.balance };
+  }
+
+  const transaction = await tx.tokenTransaction.create({
+    data: {
+      userId,
+      amount: input.amount,
+      type: input.type,
+      description: input.description,
+      relatedId: input.relatedId,
+      idempotencyKey: input.idempotencyKey,
+      balanceAfter: account.balance,
+    },
+  });
+
+  return {
+    ok: true as const,
+    transaction,
+    balance: account.balance,
+    replayed: false,
+  };
+}
+
+/**
+ * Append one signed transaction and move the balance with it
+ * Debits only go through if the balance covers them. A repeated
+ * idempotency key returns the first transaction without touching the
+ * balance, including when two requests race on the same key.
+ */
+async function applyTokenTransaction(
+  userId: string,
+  input: TokenTransactionInput & { amount: number }
+): Promise<TokenTransactionResult> {
+  if (!Number.isInteger(input.amount) || input.amount === 0) {
+    throw errors.badRequest("Token amount must be a non-zero whole number");
+  }
+
+  if (input.idempotencyKey) {
+    const existing = await findByIdempotencyKey(userId, input.idempotencyKey);
+    if (existing) {
+      return replayTransaction(existing);
+    }
+  }
+
+  try {
+    return await prisma.$transaction((tx) =>
+      writeTokenTransaction(tx, userId, input)
+    );
+  } catch (error) {
+    if (isIdempotencyConflict(error, input.idempotencyKey)) {
+      const existing = await findByIdempotencyKey(
+        userId,
+        input.idempotencyKey as string
+      );
+      if (existing) {
+        return replayTransaction(existing);
+      }
+    }
+    throw error;
+  }
+}
+
+export async function creditTokens(
+  userId: string,
+  input: TokenTransactionInput
+): Promise<TokenTransactionResult> {
+  return applyTokenTransaction(userId, {
+    ...input,
+    amount: Math.abs(input.amount),
+  });
+}
+
+/**
+ * Spend tokens if the balance allows; `ok: false` means it didn't
+ */
+export async function spendTokens(
+  userId: string,
+  input: TokenTransactionInput
+): Promise<TokenTransactionResult> {
+  return applyTokenTransaction(userId, {
+    ...input,
+    amount: -Math.abs(input.amount),
+  });
+}
+
+export async function getTokenBalance(userId: string): Promise<TokenBalance> {
+  const account = await prisma.tokenAccount.findUnique({
+    where: { userId },
+    select: { balance: true, lifetimeEarned: true, lifetimeSpent: true },
+  });
+
+  return account ?? { balance: 0, lifetimeEarned: 0, lifetimeSpent: 0 };
+}
+
+// Whole or decimal numbers, as the migration's regex accepts them
+const NUMERIC_TEXT = /^-?[0-9]+(\.[0-9]+)?$/;
+
+function openingAmount(value: unknown): number {
+  const amount =
+    typeof value === "number"
+      ? value
+      : typeof value === "string" && NUMERIC_TEXT.test(value)
+        ? Number(value)
+        : 0;
+  return Number.isFinite(amount) ? Math.round(Math.max(amount, 0)) : 0;
+}
+
+/**
+ * What the token ledger migration opens an account with, from the synced
+ * tokenState. Kept to the same rules as the SQL so they can be tested:
+ * some clients stored the state as a JSON string, and anything that isn't
+ * a non-negative number counts as 0. Null means no account is opened.
+ */
+export function getOpeningBalance(tokenState: unknown): TokenBalance | null {
+  let state = tokenState;
+  if (typeof state === "string") {
+    try {
+      state = JSON.parse(state);
+    } catch {
+      return null;
+    }
+  }
+  if (!state || typeof state !== "object" || Array.isArray(state)) {
+    return null;
+  }
+
+  const { balance, lifetimeEarned, lifetimeSpent } = state as Record<
+    string,
+    unknown
+  >;
+  return {
+    balance: openingAmount(balance),
+    lifetimeEarned: openingAmount(lifetimeEarned),
+    lifetimeSpent: openingAmount(lifetimeSpent),
+  };
+}
+
+/**
+ * Ledger entries newest first, paged by passing the last id seen
+ */
+export async function listTokenTransactions(
+  userId: string,
+  options: { limit?: number; before?: string } = {}
+): Promise<TokenTransaction[]> {
+  const { limit = 50, before } = options;
+
+  return prisma.tokenTransaction.findMany({
+    where: { userId },
+    orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+    take: limit,
+    ...(before ? { cursor: { id: before }, skip: 1 } : {}),
+  });
+}
+
+/**
+ * The ledger in the shape devices keep in tokenState
+ */
+export async function getServerTokenState(userId: string): Promise<TokenState> {
+  const [balance, transactions] = await Promise.all([
+    getTokenBalance(userId),
+    listTokenTransactions(userId, { limit: SYNCED_TRANSACTION_LIMIT }),
+  ]);
+
+  return {
+    ...balance,
+    transactions: transactions.map((transaction): Transaction => ({
+      id: transaction.id,
+      amount: transaction.amount,
+      type: transaction.type as TransactionType,
+      description: transaction.description,
+      timestamp: transaction.createdAt.toISOString(),
+      ...(transaction.relatedId ? { relatedId: transaction.relatedId } : {}),
+    })),
+  };
+}
+
+/**
+ * Replace an uploaded tokenState with the ledger's after a sync merge
+ */
+export function reconcileTokenState(
+  sections: ProfileSections,
+  tokenState: TokenState
+): { sections: ProfileSections; changed: boolean } {
+  if (sections.tokenState === undefined) {
+    return { sections, changed: false };
+  }
+
+  return {
+    sections: { ...sections, tokenState },
+    changed: JSON.stringify(sections.tokenState) !== JSON.stringify(tokenState),
+  };
+}
+
+/**
+ * The two ledger entries that move a balance between accounts
+ * Each side's key names the other account, so retrying a transfer can't
+ * pay twice while several guests can still merge into one account.
+ */
+export function getTransferEntries(
+  fromUserId: string,
+  toUserId: string,
+  balance: number
+): { debit: TokenTransactionInput; credit: TokenTransactionInput } {
+  return {
+    debit: {
+      amount: -balance,
+      type: "transfer",
+      description: "Moved to your account",
+      relatedId: toUserId,
+      idempotencyKey: `transfer-out:${toUserId}`,
+    },
+    credit: {
+      amount: balance,
+      type: "transfer",
+      description: "Carried over from guest session",
+      relatedId: fromUserId,
+      idempotencyKey: `transfer-in:${fromUserId}`,
+    },
+  };
+}
+
+/**
+ * Move a guest's whole balance to the account they signed up with
+ */
+export async function transferTokenBalance(
+  fromUserId: string,
+  toUserId: string
+): Promise<void> {
+  const { balance } = await getTokenBalance(fromUserId);
+  if (balance <= 0) return;
+
+  const { debit, credit } = getTransferEntries(fromUserId, toUserId, balance);
+
+  // Both sides commit together so tokens can't be lost in between
+  await prisma.$transaction(async (tx) => {
+    const result = await writeTokenTransaction(tx, fromUserId, debit);
+    if (!result.ok) return;
+
+    await writeTokenTransaction(tx, toUserId, credit);
+  });
+}
+
+// Retries of a refunded AI request are charged under numbered keys
+const MAX_AI_CHARGE_ATTEMPTS = 10;
+
+function refundKey(debit: TokenTransaction) {
+  return `refund:${debit.id}`;
+}
+
+/**
+ * The key to charge an AI request under, or null once every attempt is used
+ * A charge that hasn't been refunded is reused, so the retry replays it;
+ * after a refund the next numbered key charges again.
+ */
+export function getAiChargeKey(
+  idempotencyKey: string,
+  refunded: Set<string>
+): string | null {
+  for (let attempt = 0; attempt < MAX_AI_CHARGE_ATTEMPTS; attempt++) {
+    const key =
+      attempt === 0
+        ? `ai:${idempotencyKey}`
+        : `ai:${idempotencyKey}#${attempt}`;
+    if (!refunded.has(key)) {
+      return key;
+    }
+  }
+  return null;
+}
+
+/**
+ * Pay the token cost of going past an AI endpoint's limit
+ * Clients should send the same idempotency key when retrying a request so
+ * it isn't charged twice. Once an attempt has been refunded, the next retry
+ * with that key is charged again.
+ */
+export async function spendTokensForAi(
+  userId: string,
+  endpoint: AiEndpoint,
+  amount: number,
+  idempotencyKey?: string | null
+): Promise<TokenTransactionResult> {
+  const input: TokenTransactionInput = {
+    amount,
+    type: "ai_request",
+    description: `Unlocked an extra ${endpoint} request`,
+    relatedId: endpoint,
+  };
+
+  if (!idempotencyKey) {
+    return spendTokens(userId, input);
+  }
+
+  const charges = await prisma.tokenTransaction.findMany({
+    where: { userId, idempotencyKey: { startsWith: `ai:${idempotencyKey}` } },
+  });
+  const refunds = await prisma.tokenTransaction.findMany({
+    where: { userId, idempotencyKey: { in: charges.map(refundKey) } },
+    select: { idempotencyKey: true },
+  });
+  const refundKeys = new Set(refunds.map((refund) => refund.idempotencyKey));
+
+  const key = getAiChargeKey(
+    idempotencyKey,
+    new Set(
+      charges
+        .filter((charge) => refundKeys.has(refundKey(charge)))
+        .map((charge) => charge.idempotencyKey as string)
+    )
+  );
+  if (!key) {
+    throw errors.conflict("Too many failed attempts with this Idempotency-Key");
+  }
+
+  return spendTokens(userId, { ...input, idempotencyKey: key });
+}
+
+/**
+ * Give back the tokens paid for an AI request that didn't deliver
+ */
+export async function refundTokensForAi(
+  userId: string,
+  debit: TokenTransaction
+): Promise<TokenTransactionResult> {
+  return creditTokens(userId, {
+    amount: -debit.amount,
+    type: "ai_refund",
+    description: "Refunded a failed AI request",
+    relatedId: debit.relatedId ?? undefined,
+    idempotencyKey: refundKey(debit),
+  });
+}
@@ -0,0 +1,222 @@
+import { prisma } from "./prisma";
+import { Prisma } from "@prisma/client";
+
+// Only engagement from the last week counts
+export const TRENDING_WINDOW_DAYS = 7;
+
+// An interaction is worth half as much after this many hours, so a burst
+// today outranks the same activity spread over the week
+export const TRENDING_HALF_LIFE_HOURS = 48;
+
+// Rows kept per refresh: the overall top list plus each cuisine's top list
+const TRENDING_OVERALL_LIMIT = 100;
+const TRENDING_PER_CUISINE_LIMIT = 50;
+
+// Saving or posting about a recipe says more than a vote
+const ENGAGEMENT_WEIGHTS = {
+  upvote: 1,
+  downvote: -1,
+  save: 3,
+  post: 4,
+  share: 2,
+} as const;
+
+export interface TrendingRecipe {
+  id: string;
+  userId: string;
+  title: string;
+  description: string | null;
+  imageUrl: string | null;
+  totalMinutes: number | null;
+  cuisine: string;
+  tags: unknown;
+  ownerName: string | null;
+  slug: string | null;
+  trending: {
+    score: number;
+    rank: number;
+    cuisineRank: number;
+    votes: number;
+    saves: number;
+    posts: number;
+    shares: number;
+  };
+}
+
+/**
+ * Rebuild the TrendingRecipe table from recent votes, saves, posts and
+ * shares on published recipes
+ */
+export async function refreshTrendingRecipes(
+  now: Date = new Date()
+): Promise<{ count: number; computedAt: Date }> {
+  const since = new Date(
+    now.getTime() - TRENDING_WINDOW_DAYS * 24 * 60 * 60 * 1000
+  );
+
+  const [, count] = await prisma.$transaction([
+    prisma.trendingRecipe.deleteMany(),
+    prisma.$executeRawUnsafe(
+      `
+      WITH events AS (
+        SELECT "recipeId", 'vote' AS kind, "updatedAt" AS at,
+          CASE WHEN "voteType" = 'upvote' THEN $3::float ELSE $4::float END AS weight
+        FROM "RecipeVote"
+        WHERE "updatedAt" >= $1
+        UNION ALL
+        SELECT "recipeId", 'save', "createdAt", $5::float
+        FROM "FeedActivity"
+        WHERE "activityType" = 'recipe_saved' AND "recipeId" IS NOT NULL AND "createdAt" >= $1
+        UNION ALL
+        SELECT "recipeId", 'post', "createdAt", $6::float
+        FROM "RecipePost"
+        WHERE "createdAt" >= $1
+        UNION ALL
+        SELECT "recipeId", 'share', "createdAt", $7::float
+        FROM "RecipeShare"
+        WHERE "createdAt" >= $1
+      ),
+      scored AS (
+        SELECT e."recipeId", r.cuisine,
+          SUM(e.weight * POWER(0.5, EXTRACT(EPOCH FROM ($2 - e.at)) / 3600 / $8)) AS score,
+          COUNT(*) FILTER (WHERE e.kind = 'vote')::int AS votes,
+          COUNT(*) FILTER (WHERE e.kind = 'save')::int AS saves,
+          COUNT(*) FILTER (WHERE e.kind = 'post')::int AS posts,
+          COUNT(*) FILTER (WHERE e.kind = 'share')::int AS shares
+        FROM events e
+        JOIN "Recipe" r ON r.id = e."recipeId"
+        JOIN "RecipePublication" rp ON rp."recipeId" = r.id AND rp."isPublished" = true
+        GROUP BY e."recipeId", r.cuisine
+      ),
+      ranked AS (
+        SELECT *,
+          ROW_NUMBER() OVER (ORDER BY score DESC, "recipeId") AS rank,
+          ROW_NUMBER() OVER (PARTITION BY LOWER(cuisine) ORDER BY score DESC, "recipeId") AS "cuisineRank"
+        FROM scored
+        WHERE score > 0
+      )
+      INSERT INTO "TrendingRecipe"
+        ("recipeId", cuisine, score, rank, "cuisineRank", votes, saves, posts, shares, "computedAt")
+      SELECT "recipeId", cuisine, score, rank, "cuisineRank", votes, saves, posts, shares, $2
+      FROM ranked
+      WHERE rank <= $9 OR "cuisineRank" <= $10
+    `,
+      since,
+      now,
+      ENGAGEMENT_WEIGHTS.upvote,
+      ENGAGEMENT_WEIGHTS.downvote,
+      ENGAGEMENT_WEIGHTS.save,
+      ENGAGEMENT_WEIGHTS.post,
+      ENGAGEMENT_WEIGHTS.share,
+      TRENDING_HALF_LIFE_HOURS,
+      TRENDING_OVERALL_LIMIT,
+      TRENDING_PER_CUISINE_LIMIT
+    ),
+  ]);
+
+  return { count, computedAt: now };
+}
+
+const trendingInclude = {
+  recipe: {
+    select: {
+      id: true,
+      userId: true,
+      title: true,
+      description: true,
+      imageUrl: true,
+      totalMinutes: true,
+      cuisine: true,
+      tags: true,
+      user: { select: { displayName: true } },
+      publication: { select: { slug: true } },
+    },
+  },
+} as const;
+
+type TrendingRow = Prisma.TrendingRecipeGetPayload<{
+  include: typeof trendingInclude;
+}>;
+
+function mapTrendingRow(row: TrendingRow): TrendingRecipe {
+  const { user, publication, ...recipe } = row.recipe;
+  return {
+    ...recipe,
+    ownerName: user.displayName,
+    slug: publication?.slug ?? null,
+    trending: {
+      score: Math.round(row.score * 100) / 100,
+      rank: row.rank,
+      cuisineRank: row.cuisineRank,
+      votes: row.votes,
+      saves: row.saves,
+      posts: row.posts,
+      shares: row.shares,
+    },
+  };
+}
+
+// Recipes unpublished since the last refresh drop out straight away
+const stillPublished = { recipe: { publication: { isPublished: true } } };
+
+/**
+ * Top trending recipes, overall or within one cuisine
+ */
+export async function getTrendingRecipes(
+  options: { cuisine?: string; limit?: number } = {}
+): Promise<{ recipes: TrendingRecipe[]; computedAt: Date | null }> {
+  const { cuisine, limit = 20 } = options;
+
+  const rows = await prisma.trendingRecipe.findMany({
+    where: {
+      ...stillPublished,
+      ...(cuisine ? { cuisine: { equals: cuisine, mode: "insensitive" } } : {}),
+    },
+    orderBy: cuisine ? { cuisineRank: "asc" } : { rank: "asc" },
+    take: limit,
+    include: trendingInclude,
+  });
+
+  return {
+    recipes: rows.map(mapTrendingRow),
+    computedAt: rows[0]?.computedAt ?? null,
+  };
+}
+
+/**
+ * Each cuisine's top trending recipes, hottest cuisine first
+ */
+export async function getTrendingByCuisine(
+  options: { limit?: number } = {}
+): Promise<{
+  cuisines: Array<{ cuisine: string; recipes: TrendingRecipe[] }>;
+  computedAt: Date | null;
+}> {
+  const { limit = 5 } = options;
+
+  const rows = await prisma.trendingRecipe.findMany({
+    where: { ...stillPublished, cuisineRank: { lte: limit } },
+    orderBy: { rank: "asc" },
+    include: trendingInclude,
+  });
+
+  // Rows arrive in overall rank order, which is also rank order per cuisine
+  const groups = new Map<
+    string,
+    { cuisine: string; recipes: TrendingRecipe[] }
+  >();
+  for (const row of rows) {
+    const key = row.cuisine.toLowerCase();
+    let group = groups.get(key);
+    if (!group) {
+      group = { cuisine: row.cuisine, recipes: [] };
+      groups.set(key, group);
+    }
+    group.recipes.push(mapTrendingRow(row));
+  }
+
+  return {
+    cuisines: Array.from(groups.values()),
+    computedAt: rows[0]?.computedAt ?? null,
+  };
+}
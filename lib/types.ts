@@ -70,6 +70,11 @@ export interface Schedule {
 export interface NutritionGoal {
   id: string;
   goalType: string;
+  // Optional daily targets used to report meal plan adherence
+  dailyCalories?: number;
+  dailyProtein?: number; // grams, treated as a minimum
+  dailyCarbs?: number; // grams, treated as a maximum
+  dailyFat?: number; // grams, treated as a maximum
 }
 
 export interface Kitchen {
@@ -252,11 +257,13 @@ export interface Streaks {
 export type TransactionType =
   | "achievement"
   | "meal_cooked"
-  | "cooking_streak"
-  | "planning_streak"
   | "skip_day"
   | "restore_streak"
-  | "decision_game";
+  | "decision_game"
+  | "ai_request" // Spent to go past an AI endpoint's limit
+  | "ai_refund" // Returned when a paid AI request fails
+  | "opening_balance" // Carried over from the device-synced tokenState
+  | "transfer"; // Moved between accounts when a guest signs up
 
 export interface Transaction {
   id: string;
@@ -282,6 +289,34 @@ export interface IngredientJSON {
   qty?: number | string;
   unit?: string;
   notes?: string;
+  normalized?: NormalizedIngredientQuantity; // Derived from qty/unit on save
+}
+
+// Machine-readable amount stored alongside the original qty/unit text
+export interface NormalizedIngredientQuantity {
+  quantity: number;
+  quantityMax?: number; // Upper bound for ranges like "2-3"
+  unit: string; // Canonical unit ("cup", "g", "" for plain counts)
+  family: "volume" | "mass" | "count" | "other";
+  baseQuantity?: number; // In ml, g or count (upper bound for ranges)
+  grams?: number; // Mass, directly or via a density hint
+}
+
+export interface NutritionFacts {
+  calories: number;
+  protein: number; // grams
+  carbs: number; // grams
+  fat: number; // grams
+  fiber: number; // grams
+}
+
+// Stored on Recipe.nutrition
+export interface RecipeNutrition {
+  perServing: NutritionFacts;
+  servings: number; // Serving count the estimate divides by
+  coverage: number; // Share of measured ingredients we had data for (0-1)
+  unmatched: string[]; // Ingredient names without nutrient data
+  version: number;
 }
 
 export interface StepJSON {
@@ -291,7 +326,17 @@ export interface StepJSON {
 
 // ==================== API Request/Response Types ====================
 
+export type SyncSection =
+  | "chefIntake"
+  | "inventory"
+  | "mealPlans"
+  | "groceryList"
+  | "achievements"
+  | "streaks"
+  | "tokenState";
+
 export interface SyncPayload {
+  baseVersion?: number; // syncVersion the device last pulled; omit to overwrite
   chefIntake?: ChefIntake;
   inventory?: InventoryItem[];
   mealPlans?: MealPlans;
@@ -301,9 +346,22 @@ export interface SyncPayload {
   tokenState?: TokenState;
 }
 
+export interface SyncConflict {
+  section: SyncSection;
+  itemId?: string; // InventoryItem.id, GroceryItem.id, achievement key or week key
+  field?: string;
+  // "server": the device value was discarded in favor of a newer server edit
+  // "merged": both values were combined (e.g. max achievement progress)
+  // "deleted": the item was deleted on the server after the device's base
+  resolution: "server" | "merged" | "deleted";
+}
+
 export interface SyncResponse {
   syncedAt: string;
   version: number;
+  conflicts: SyncConflict[];
+  // Merged sections, returned when the device was behind and must adopt them
+  profile?: Omit<SyncPayload, "baseVersion">;
 }
 
 export interface UserBackup {
@@ -328,10 +386,26 @@ export interface UserBackup {
     tags?: string[];
     ingredients: IngredientJSON[];
     steps?: StepJSON[];
+    nutrition?: RecipeNutrition;
     source?: string;
     createdAt: string;
     updatedAt: string;
   }>;
+  cursor: string; // Pass to GET /api/sync?cursor= to receive only later changes
+}
+
+export interface SyncDeletion {
+  entityType: "recipe";
+  id: string;
+  deletedAt: string;
+}
+
+export interface SyncDelta {
+  cursor: string;
+  hasMore: boolean; // More recipe changes are waiting; request again with cursor
+  profile: Partial<UserBackup["profile"]> & { syncVersion: number };
+  recipes: UserBackup["recipes"];
+  deletions: SyncDeletion[];
 }
 
 // ==================== Social Feature Types ====================
@@ -363,10 +437,19 @@ export interface RecipePost {
   photoUrl?: string;
   rating?: number; // 1-5
   review?: string;
+  recipeRevision?: number; // Recipe revision the post was cooked against
   createdAt: Date;
   updatedAt: Date;
   user?: UserBasic;
   recipe?: RecipeBasic;
+  // That revision's content, when the recipe has been edited since
+  cookedRevision?: {
+    revision: number;
+    title: string;
+    servings?: number;
+    ingredients: IngredientJSON[];
+    steps?: StepJSON[];
+  } | null;
   likeCount?: number;
   commentCount?: number;
   isLikedByCurrentUser?: boolean;
@@ -490,6 +573,7 @@ export interface MealPlanWithRecipes extends MealPlan {
     tags?: string[];
     ingredients: IngredientJSON[];
     steps?: StepJSON[];
+    nutrition?: RecipeNutrition;
   }>;
 }
 
@@ -0,0 +1,570 @@
+import type { IngredientJSON, NormalizedIngredientQuantity } from "./types";
+
+/**
+ * Ingredient quantity parsing, unit normalization and conversion
+ * Volumes convert through milliliters, masses through grams
+ */
+
+export type UnitFamily = "volume" | "mass" | "count";
+
+type UnitDefinition = {
+  unit: string;
+  family: UnitFamily;
+  // Size of one unit in the family's base (ml, g or 1 for counts)
+  factor: number;
+  metric: boolean;
+};
+
+const UNITS: UnitDefinition[] = [
+  { unit: "ml", family: "volume", factor: 1, metric: true },
+  { unit: "cl", family: "volume", factor: 10, metric: true },
+  { unit: "dl", family: "volume", factor: 100, metric: true },
+  { unit: "l", family: "volume", factor: 1000, metric: true },
+  { unit: "tsp", family: "volume", factor: 4.92892, metric: false },
+  { unit: "tbsp", family: "volume", factor: 14.7868, metric: false },
+  { unit: "fl oz", family: "volume", factor: 29.5735, metric: false },
+  { unit: "cup", family: "volume", factor: 236.588, metric: false },
+  { unit: "pt", family: "volume", factor: 473.176, metric: false },
+  { unit: "qt", family: "volume", factor: 946.353, metric: false },
+  { unit: "gal", family: "volume", factor: 3785.41, metric: false },
+  { unit: "mg", family: "mass", factor: 0.001, metric: true },
+  { unit: "g", family: "mass", factor: 1, metric: true },
+  { unit: "kg", family: "mass", factor: 1000, metric: true },
+  { unit: "oz", family: "mass", factor: 28.3495, metric: false },
+  { unit: "lb", family: "mass", factor: 453.592, metric: false },
+  { unit: "", family: "count", factor: 1, metric: true },
+  { unit: "dozen", family: "count", factor: 12, metric: true },
+];
+
+const UNIT_ALIASES: Record<string, string> = {
+  milliliter: "ml",
+  millilitre: "ml",
+  centiliter: "cl",
+  centilitre: "cl",
+  deciliter: "dl",
+  decilitre: "dl",
+  liter: "l",
+  litre: "l",
+  lt: "l",
+  teaspoon: "tsp",
+  t: "tsp",
+  tsps: "tsp",
+  tablespoon: "tbsp",
+  tbs: "tbsp",
+  tbl: "tbsp",
+  tbsps: "tbsp",
+  "fluid ounce": "fl oz",
+  "fl. oz": "fl oz",
+  floz: "fl oz",
+  c: "cup",
+  pint: "pt",
+  quart: "qt",
+  gallon: "gal",
+  milligram: "mg",
+  gram: "g",
+  gr: "g",
+  grm: "g",
+  kilogram: "kg",
+  kilo: "kg",
+  ounce: "oz",
+  pound: "lb",
+  lbs: "lb",
+  "#": "lb",
+  piece: "",
+  pc: "",
+  pcs: "",
+  count: "",
+  whole: "",
+  each: "",
+  ea: "",
+  x: "",
+};
+
+const UNITS_BY_NAME = new Map(UNITS.map((def) => [def.unit, def]));
+
+const UNICODE_FRACTIONS: Record<string, number> = {
+  "½": 1 / 2,
+  "⅓": 1 / 3,
+  "⅔": 2 / 3,
+  "¼": 1 / 4,
+  "¾": 3 / 4,
+  "⅕": 1 / 5,
+  "⅖": 2 / 5,
+  "⅗": 3 / 5,
+  "⅘": 4 / 5,
+  "⅙": 1 / 6,
+  "⅚": 5 / 6,
+  "⅛": 1 / 8,
+  "⅜": 3 / 8,
+  "⅝": 5 / 8,
+  "⅞": 7 / 8,
+};
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1,
+  an: 1,
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  seven: 7,
+  eight: 8,
+  nine: 9,
+  ten: 10,
+  eleven: 11,
+  twelve: 12,
+  half: 0.5,
+  quarter: 0.25,
+};
+
+/**
+ * Grams per milliliter for ingredients commonly measured both ways
+ * Matched against canonicalId first, then as words in the name
+ */
+const DENSITY_HINTS: Array<[string, number]> = [
+  ["powdered_sugar", 0.5],
+  ["brown_sugar", 0.93],
+  ["sugar", 0.85],
+  ["bread_flour", 0.55],
+  ["flour", 0.53],
+  ["cocoa_powder", 0.42],
+  ["rolled_oats", 0.38],
+  ["oats", 0.38],
+  ["rice", 0.78],
+  ["peanut_butter", 1.08],
+  ["butter", 0.96],
+  ["olive_oil", 0.92],
+  ["oil", 0.92],
+  ["honey", 1.42],
+  ["maple_syrup", 1.32],
+  ["syrup", 1.32],
+  ["milk", 1.03],
+  ["cream", 1.0],
+  ["yogurt", 1.03],
+  ["water", 1.0],
+  ["stock", 1.0],
+  ["broth", 1.0],
+  ["salt", 1.2],
+  ["baking_soda", 0.96],
+  ["baking_powder", 0.9],
+  ["cornstarch", 0.54],
+];
+
+/**
+ * Map a free-text unit onto its canonical spelling
+ * Unknown units (e.g. "clove", "can") are returned lowercased and trimmed
+ */
+export function normalizeUnit(unit: string | undefined | null): string {
+  if (!unit) return "";
+
+  const trimmed = unit.trim().replace(/\.$/, "");
+  // A capital T conventionally means tablespoon
+  if (trimmed === "T" || trimmed === "Tb") return "tbsp";
+
+  const cleaned = trimmed.toLowerCase().replace(/\s+/g, " ");
+  if (UNITS_BY_NAME.has(cleaned)) return cleaned;
+  if (cleaned in UNIT_ALIASES) return UNIT_ALIASES[cleaned];
+
+  // Plurals: "cups", "tablespoons", "ounces", "fluid ounces"
+  for (const singular of [
+    cleaned.replace(/e?s$/, ""),
+    cleaned.replace(/s$/, ""),
+  ]) {
+    if (UNITS_BY_NAME.has(singular)) return singular;
+    if (singular in UNIT_ALIASES) return UNIT_ALIASES[singular];
+  }
+
+  return cleaned;
+}
+
+export function getUnitFamily(unit: string): UnitFamily | null {
+  return UNITS_BY_NAME.get(normalizeUnit(unit))?.family ?? null;
+}
+
+export function isMetricUnit(unit: string) {
+  return UNITS_BY_NAME.get(normalizeUnit(unit))?.metric ?? false;
+}
+
+/**
+ * Grams per milliliter for an ingredient, if we have a hint for it
+ */
+export function getIngredientDensity(ingredient: {
+  name?: string;
+  canonicalId?: string | null;
+}): number | null {
+  const id = ingredient.canonicalId?.toLowerCase();
+  const name = ingredient.name
+    ?.toLowerCase()
+    .replace(/[^a-z\s]/g, " ")
+    .trim()
+    .replace(/\s+/g, "_");
+
+  for (const [key, density] of DENSITY_HINTS) {
+    if (id === key) return density;
+  }
+
+  for (const candidate of [id, name]) {
+    if (!candidate) continue;
+    for (const [key, density] of DENSITY_HINTS) {
+      if (new RegExp(`(^|_)${key}s?(_|$)`).test(candidate)) return density;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Convert between two units
+ * Volume and mass convert into each other only when a density is known for
+ * the ingredient. Returns null when the units are not convertible.
+ */
+export function convertQuantity(
+  quantity: number,
+  from: string,
+  to: string,
+  ingredient?: { name?: string; canonicalId?: string | null }
+): number | null {
+  const fromDef = UNITS_BY_NAME.get(normalizeUnit(from));
+  const toDef = UNITS_BY_NAME.get(normalizeUnit(to));
+
+  if (!fromDef || !toDef) return null;
+
+  const base = quantity * fromDef.factor;
+
+  if (fromDef.family === toDef.family) {
+    return base / toDef.factor;
+  }
+
+  const density = ingredient ? getIngredientDensity(ingredient) : null;
+  if (!density) return null;
+
+  if (fromDef.family === "volume" && toDef.family === "mass") {
+    return (base * density) / toDef.factor;
+  }
+  if (fromDef.family === "mass" && toDef.family === "volume") {
+    return base / density / toDef.factor;
+  }
+
+  return null;
+}
+
+/**
+ * Convert to the family's base unit (ml, g or count)
+ */
+export function toBaseUnit(
+  quantity: number,
+  unit: string
+): { quantity: number; family: UnitFamily } | null {
+  const def = UNITS_BY_NAME.get(normalizeUnit(unit));
+  if (!def) return null;
+  return { quantity: quantity * def.factor, family: def.family };
+}
+
+/**
+ * Pick a readable unit for a base quantity
+ * e.g. 45 ml -> 3 tbsp (imperial) or 1500 g -> 1.5 kg (metric)
+ */
+export function pickDisplayUnit(
+  baseQuantity: number,
+  family: UnitFamily,
+  metric: boolean
+): { quantity: number; unit: string } {
+  if (family === "count") {
+    return { quantity: baseQuantity, unit: "" };
+  }
+
+  const ladder =
+    family === "volume"
+      ? metric
+        ? ["ml", "l"]
+        : ["tsp", "tbsp", "cup"]
+      : metric
+        ? ["g", "kg"]
+        : ["oz", "lb"];
+
+  let chosen = ladder[0];
+  for (const unit of ladder) {
+    // Prefer the largest unit that still reads as at least a quarter (cups)
+    // or one whole (everything else); the slack absorbs conversion drift so
+    // 3 tsp counts as 1 tbsp
+    const threshold = (unit === "cup" ? 0.25 : 1) * 0.999;
+    if (baseQuantity / UNITS_BY_NAME.get(unit)!.factor >= threshold) {
+      chosen = unit;
+    }
+  }
+
+  return {
+    quantity: baseQuantity / UNITS_BY_NAME.get(chosen)!.factor,
+    unit: chosen,
+  };
+}
+
+/**
+ * Read one number at the start of `text`: "2", "1.5", "1,5", "1/2",
+ * "1 1/2", "1½", "½" or a number word. Returns the value and the rest.
+ */
+function readNumber(text: string): { value: number; rest: string } | null {
+  const normalized = text
+    .replace(/⁄/g, "/")
+    .replace(
+      /(\d+)?\s*([½⅓⅔¼¾⅕⅖⅗⅘⅙⅚⅛⅜⅝⅞])/g,
+      (_, whole: string | undefined, fraction: string) =>
+        ` ${(Number(whole ?? 0) + UNICODE_FRACTIONS[fraction]).toString()}`
+    )
+    .trimStart();
+
+  const mixed = normalized.match(/^(\d+)\s+(\d+)\/(\d+)(?![\d.])/);
+  if (mixed && Number(mixed[3]) !== 0) {
+    return {
+      value: Number(mixed[1]) + Number(mixed[2]) / Number(mixed[3]),
+      rest: normalized.slice(mixed[0].length),
+    };
+  }
+
+  const fraction = normalized.match(/^(\d+)\/(\d+)/);
+  if (fraction && Number(fraction[2]) !== 0) {
+    return {
+      value: Number(fraction[1]) / Number(fraction[2]),
+      rest: normalized.slice(fraction[0].length),
+    };
+  }
+
+  const decimal = normalized.match(/^(\d+(?:[.,]\d+)?|\.\d+)/);
+  if (decimal) {
+    return {
+      value: Number(decimal[1].replace(",", ".")),
+      rest: normalized.slice(decimal[0].length),
+    };
+  }
+
+  const word = normalized.match(/^([a-z]+)\b/i);
+  if (word && word[1].toLowerCase() in NUMBER_WORDS) {
+    return {
+      value: NUMBER_WORDS[word[1].toLowerCase()],
+      rest: normalized.slice(word[0].length),
+    };
+  }
+
+  return null;
+}
+
+export interface ParsedQuantity {
+  quantity: number;
+  // Upper bound for ranges such as "2-3" or "2 to 3"
+  quantityMax?: number;
+  // Whatever followed the number, e.g. "cups" in "1 1/2 cups"
+  unitText?: string;
+}
+
+/**
+ * Parse quantity text such as "1 1/2 cups", "½", "2-3", "2 to 3 tbsp"
+ * or "a dozen". Returns null when no leading amount is found ("to taste").
+ */
+export function parseQuantityText(
+  value: number | string | undefined | null
+): ParsedQuantity | null {
+  if (typeof value === "number") {
+    return Number.isFinite(value) ? { quantity: value } : null;
+  }
+  if (!value) return null;
+
+  const first = readNumber(value.trim());
+  if (!first) return null;
+
+  let quantity = first.value;
+  let rest = first.rest.trim();
+  let quantityMax: number | undefined;
+
+  const range = rest.match(/^(?:-|–|—|to|or)\s*/i);
+  if (range) {
+    const second = readNumber(rest.slice(range[0].length));
+    if (second && second.value >= quantity) {
+      quantityMax = second.value;
+      rest = second.rest.trim();
+    } else if (second && range[0].startsWith("-") && second.value < 1) {
+      // "1-1/2" is a mixed number written with a hyphen
+      quantity += second.value;
+      rest = second.rest.trim();
+    }
+  }
+
+  // "a dozen", "half a cup"
+  const dozen = rest.match(/^dozen\b/i);
+  if (dozen) {
+    quantity *= 12;
+    if (quantityMax !== undefined) quantityMax *= 12;
+    rest = rest.slice(dozen[0].length).trim();
+  }
+  rest = rest.replace(/^(?:an?|of)\s+/i, "");
+
+  return {
+    quantity,
+    ...(quantityMax !== undefined ? { quantityMax } : {}),
+    ...(rest ? { unitText: rest } : {}),
+  };
+}
+
+/**
+ * Parse a quantity to a single number; ranges resolve to their upper bound
+ * so shopping totals err on the side of enough
+ */
+export function parseQuantity(
+  value: number | string | undefined | null
+): number | null {
+  const parsed = parseQuantityText(value);
+  if (!parsed) return null;
+  return parsed.quantityMax ?? parsed.quantity;
+}
+
+function roundTo(value: number, decimals: number) {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Work out the normalized amount for an ingredient without touching the
+ * original qty/unit text. Returns undefined when there is no usable amount.
+ */
+export function normalizeIngredientQuantity(
+  ingredient: IngredientJSON
+): NormalizedIngredientQuantity | undefined {
+  const parsed = parseQuantityText(ingredient.qty);
+  if (!parsed) return undefined;
+
+  // Fall back to a unit typed into the quantity ("1 1/2 cups")
+  const unit = normalizeUnit(ingredient.unit || parsed.unitText);
+  const def = UNITS_BY_NAME.get(unit);
+
+  const normalized: NormalizedIngredientQuantity = {
+    quantity: roundTo(parsed.quantity, 4),
+    ...(parsed.quantityMax !== undefined
+      ? { quantityMax: roundTo(parsed.quantityMax, 4) }
+      : {}),
+    unit,
+    family: def?.family ?? "other",
+  };
+
+  if (def) {
+    const amount = parsed.quantityMax ?? parsed.quantity;
+    normalized.baseQuantity = roundTo(amount * def.factor, 4);
+
+    const grams =
+      def.family === "mass"
+        ? amount * def.factor
+        : def.family === "volume"
+          ? convertQuantity(amount, unit, "g", ingredient)
+          : null;
+    if (grams !== null) {
+      normalized.grams = roundTo(grams, 2);
+    }
+  }
+
+  return normalized;
+}
+
+/**
+ * Attach normalized amounts to each ingredient for storage
+ * Input that is not an ingredient object is passed through untouched
+ */
+export function normalizeIngredients<T>(ingredients: T): T {
+  if (!Array.isArray(ingredients)) return ingredients;
+
+  return ingredients.map((ingredient) => {
+    if (!ingredient || typeof ingredient !== "object" || !ingredient.name) {
+      return ingredient;
+    }
+
+    const rest = { ...(ingredient as IngredientJSON) };
+    delete rest.normalized;
+    const normalized = normalizeIngredientQuantity(rest);
+    return normalized ? { ...rest, normalized } : rest;
+  }) as T;
+}
+
+// Fractions a home cook can actually measure
+const KITCHEN_FRACTIONS: Array<[number, string]> = [
+  [0, ""],
+  [1 / 8, "1/8"],
+  [1 / 4, "1/4"],
+  [1 / 3, "1/3"],
+  [3 / 8, "3/8"],
+  [1 / 2, "1/2"],
+  [5 / 8, "5/8"],
+  [2 / 3, "2/3"],
+  [3 / 4, "3/4"],
+  [7 / 8, "7/8"],
+  [1, ""],
+];
+
+function nearestKitchenFraction(value: number) {
+  const whole = Math.floor(value);
+  const remainder = value - whole;
+
+  let best = KITCHEN_FRACTIONS[0];
+  for (const candidate of KITCHEN_FRACTIONS) {
+    if (Math.abs(candidate[0] - remainder) < Math.abs(best[0] - remainder)) {
+      best = candidate;
+    }
+  }
+
+  return { whole: whole + (best[0] === 1 ? 1 : 0), fraction: best };
+}
+
+function roundToStep(value: number, step: number) {
+  return Math.round(value / step) * step;
+}
+
+/**
+ * Round a quantity to something sensible for its unit
+ * Metric amounts snap to tidy steps (whole grams, 5 ml, 0.05 kg); spoons,
+ * cups, pounds, counts and unknown units snap to kitchen fractions
+ */
+export function roundQuantityForUnit(value: number, unit: string): number {
+  if (value <= 0) return 0;
+
+  const normalized = normalizeUnit(unit);
+  const def = UNITS_BY_NAME.get(normalized);
+
+  let rounded: number;
+  if (def?.metric && def.family !== "count") {
+    if (normalized === "kg" || normalized === "l") {
+      rounded = roundToStep(value, 0.05);
+    } else if (value < 10) {
+      rounded = roundToStep(value, 0.5);
+    } else if (value < 100) {
+      rounded = Math.round(value);
+    } else {
+      rounded = roundToStep(value, 5);
+    }
+  } else if (def?.family === "count" && value >= 10) {
+    rounded = Math.round(value);
+  } else {
+    const { whole, fraction } = nearestKitchenFraction(value);
+    rounded = whole + (fraction[0] === 1 ? 0 : fraction[0]);
+  }
+
+  // Never round something that is needed down to nothing
+  if (rounded === 0) {
+    return def?.metric && def.family !== "count" ? 0.5 : 1 / 8;
+  }
+
+  return roundTo(rounded, 4);
+}
+
+/**
+ * Format a quantity for display: decimals for metric units, "1 1/2" style
+ * fractions for everything else
+ */
+export function formatQuantity(value: number, unit: string): string {
+  const def = UNITS_BY_NAME.get(normalizeUnit(unit));
+
+  if (def?.metric && def.family !== "count") {
+    return String(roundTo(value, 2));
+  }
+
+  const { whole, fraction } = nearestKitchenFraction(value);
+  if (!fraction[1]) return String(whole);
+  return whole > 0 ? `${whole} ${fraction[1]}` : fraction[1];
+}
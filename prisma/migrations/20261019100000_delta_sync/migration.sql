@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE "SyncTombstone" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "entityType" TEXT NOT NULL,
+    "entityId" TEXT NOT NULL,
+    "deletedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "SyncTombstone_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "SyncTombstone_userId_deletedAt_idx" ON "SyncTombstone"("userId", "deletedAt");
+
+-- CreateIndex
+CREATE INDEX "Recipe_userId_updatedAt_id_idx" ON "Recipe"("userId", "updatedAt", "id");
@@ -0,0 +1,68 @@
+-- CreateEnum
+CREATE TYPE "InventoryLocation" AS ENUM ('pantry', 'fridge', 'freezer');
+
+-- CreateTable
+CREATE TABLE "InventoryItem" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "canonicalId" TEXT,
+    "location" "InventoryLocation" NOT NULL DEFAULT 'pantry',
+    "quantity" DOUBLE PRECISION NOT NULL DEFAULT 1,
+    "unit" TEXT NOT NULL DEFAULT '',
+    "expiresAt" TIMESTAMP(3),
+    "photoUri" TEXT,
+    "addedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "InventoryItem_pkey" PRIMARY KEY ("userId","id")
+);
+
+-- CreateIndex
+CREATE INDEX "InventoryItem_userId_expiresAt_idx" ON "InventoryItem"("userId", "expiresAt");
+
+-- CreateIndex
+CREATE INDEX "InventoryItem_userId_canonicalId_idx" ON "InventoryItem"("userId", "canonicalId");
+
+-- AddForeignKey
+ALTER TABLE "InventoryItem" ADD CONSTRAINT "InventoryItem_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill from the UserProfile.inventory JSON blobs
+-- Device-generated ids are kept so sync and the inventory API agree; they're
+-- only unique per user, hence the composite key
+INSERT INTO "InventoryItem" (
+    "id", "userId", "name", "canonicalId", "location", "quantity", "unit",
+    "expiresAt", "photoUri", "addedAt", "createdAt", "updatedAt"
+)
+SELECT
+    COALESCE(item->>'id', gen_random_uuid()::text),
+    p."userId",
+    item->>'name',
+    item->>'canonicalId',
+    (CASE
+        WHEN item->>'location' IN ('pantry', 'fridge', 'freezer') THEN item->>'location'
+        ELSE 'pantry'
+    END)::"InventoryLocation",
+    CASE
+        WHEN item->>'quantity' ~ '^[0-9]+(\.[0-9]+)?$' THEN (item->>'quantity')::DOUBLE PRECISION
+        ELSE 1
+    END,
+    COALESCE(item->>'unit', ''),
+    CASE
+        WHEN item->>'expiresAt' ~ '^\d{4}-\d{2}-\d{2}' THEN ((item->>'expiresAt')::TIMESTAMPTZ AT TIME ZONE 'UTC')
+        ELSE NULL
+    END,
+    item->>'photoUri',
+    CASE
+        WHEN item->>'addedAt' ~ '^\d{4}-\d{2}-\d{2}' THEN ((item->>'addedAt')::TIMESTAMPTZ AT TIME ZONE 'UTC')
+        ELSE CURRENT_TIMESTAMP
+    END,
+    CURRENT_TIMESTAMP,
+    CURRENT_TIMESTAMP
+FROM "UserProfile" p
+CROSS JOIN LATERAL jsonb_array_elements(p."inventory") AS item
+WHERE jsonb_typeof(p."inventory") = 'array'
+  AND jsonb_typeof(item) = 'object'
+  AND COALESCE(item->>'name', '') <> ''
+ON CONFLICT ("userId", "id") DO NOTHING;
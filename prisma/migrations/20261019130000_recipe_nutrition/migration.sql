@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "Recipe" ADD COLUMN     "caloriesPerServing" DOUBLE PRECISION,
+ADD COLUMN     "nutrition" JSONB,
+ADD COLUMN     "proteinPerServing" DOUBLE PRECISION;
@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "Recipe" ADD COLUMN     "allergens" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "classificationVersion" INTEGER,
+ADD COLUMN     "dietFlags" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- CreateIndex
+CREATE INDEX "Recipe_dietFlags_idx" ON "Recipe" USING GIN ("dietFlags");
+
+-- CreateIndex
+CREATE INDEX "Recipe_allergens_idx" ON "Recipe" USING GIN ("allergens");
@@ -0,0 +1,12 @@
+-- AlterTable
+-- Kept in sync by Postgres so every write path is covered
+ALTER TABLE "Recipe" ADD COLUMN     "searchVector" tsvector GENERATED ALWAYS AS (
+  setweight(to_tsvector('english'::regconfig, coalesce("title", '')), 'A') ||
+  setweight(to_tsvector('english'::regconfig, coalesce(jsonb_path_query_array("tags", '$[*]')::text, '')), 'B') ||
+  setweight(to_tsvector('english'::regconfig, coalesce(jsonb_path_query_array("ingredients", '$[*].name')::text, '')), 'B') ||
+  setweight(to_tsvector('english'::regconfig, coalesce("cuisine", '')), 'C') ||
+  setweight(to_tsvector('english'::regconfig, coalesce("description", '')), 'D')
+) STORED;
+
+-- CreateIndex
+CREATE INDEX "Recipe_searchVector_idx" ON "Recipe" USING GIN ("searchVector");
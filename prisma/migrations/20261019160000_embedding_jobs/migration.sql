@@ -0,0 +1,23 @@
+-- CreateEnum
+CREATE TYPE "EmbeddingJobStatus" AS ENUM ('pending', 'running', 'completed', 'failed');
+
+-- CreateTable
+CREATE TABLE "EmbeddingJob" (
+    "id" TEXT NOT NULL,
+    "targetVersion" INTEGER NOT NULL,
+    "status" "EmbeddingJobStatus" NOT NULL DEFAULT 'pending',
+    "cursor" TEXT,
+    "total" INTEGER NOT NULL DEFAULT 0,
+    "processed" INTEGER NOT NULL DEFAULT 0,
+    "failed" INTEGER NOT NULL DEFAULT 0,
+    "lastError" TEXT,
+    "startedAt" TIMESTAMP(3),
+    "finishedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "EmbeddingJob_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "EmbeddingJob_targetVersion_status_idx" ON "EmbeddingJob"("targetVersion", "status");
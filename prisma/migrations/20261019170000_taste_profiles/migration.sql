@@ -0,0 +1,13 @@
+-- CreateTable
+CREATE TABLE "TasteProfile" (
+    "userId" TEXT NOT NULL,
+    "embedding" vector(384),
+    "embeddingVersion" INTEGER NOT NULL,
+    "signalCount" INTEGER NOT NULL DEFAULT 0,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "TasteProfile_pkey" PRIMARY KEY ("userId")
+);
+
+-- AddForeignKey
+ALTER TABLE "TasteProfile" ADD CONSTRAINT "TasteProfile_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "TrendingRecipe" (
+    "recipeId" TEXT NOT NULL,
+    "cuisine" TEXT NOT NULL,
+    "score" DOUBLE PRECISION NOT NULL,
+    "rank" INTEGER NOT NULL,
+    "cuisineRank" INTEGER NOT NULL,
+    "votes" INTEGER NOT NULL DEFAULT 0,
+    "saves" INTEGER NOT NULL DEFAULT 0,
+    "posts" INTEGER NOT NULL DEFAULT 0,
+    "shares" INTEGER NOT NULL DEFAULT 0,
+    "computedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "TrendingRecipe_pkey" PRIMARY KEY ("recipeId")
+);
+
+-- CreateIndex
+CREATE INDEX "TrendingRecipe_rank_idx" ON "TrendingRecipe"("rank");
+
+-- CreateIndex
+CREATE INDEX "TrendingRecipe_cuisine_cuisineRank_idx" ON "TrendingRecipe"("cuisine", "cuisineRank");
+
+-- AddForeignKey
+ALTER TABLE "TrendingRecipe" ADD CONSTRAINT "TrendingRecipe_recipeId_fkey" FOREIGN KEY ("recipeId") REFERENCES "Recipe"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,30 @@
+-- AlterTable
+ALTER TABLE "Recipe" ADD COLUMN "revision" INTEGER NOT NULL DEFAULT 1;
+
+-- AlterTable
+ALTER TABLE "RecipePost" ADD COLUMN "recipeRevision" INTEGER;
+
+-- CreateTable
+CREATE TABLE "RecipeRevision" (
+    "id" TEXT NOT NULL,
+    "recipeId" TEXT NOT NULL,
+    "revision" INTEGER NOT NULL,
+    "editedById" TEXT,
+    "title" TEXT NOT NULL,
+    "servings" INTEGER,
+    "ingredients" JSONB NOT NULL,
+    "steps" JSONB,
+    "restoredFromRevision" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "RecipeRevision_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RecipeRevision_recipeId_revision_key" ON "RecipeRevision"("recipeId", "revision");
+
+-- AddForeignKey
+ALTER TABLE "RecipeRevision" ADD CONSTRAINT "RecipeRevision_recipeId_fkey" FOREIGN KEY ("recipeId") REFERENCES "Recipe"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Existing posts were written against the only version there was
+UPDATE "RecipePost" SET "recipeRevision" = 1;
@@ -0,0 +1,53 @@
+-- AlterTable
+ALTER TABLE "Recipe" ADD COLUMN "forkedFromId" TEXT,
+ADD COLUMN "forkedFromRevision" INTEGER,
+ADD COLUMN "originalAuthorId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Recipe_forkedFromId_idx" ON "Recipe"("forkedFromId");
+
+-- CreateIndex
+CREATE INDEX "Recipe_originalAuthorId_idx" ON "Recipe"("originalAuthorId");
+
+-- AddForeignKey
+ALTER TABLE "Recipe" ADD CONSTRAINT "Recipe_forkedFromId_fkey" FOREIGN KEY ("forkedFromId") REFERENCES "Recipe"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Recipe" ADD CONSTRAINT "Recipe_originalAuthorId_fkey" FOREIGN KEY ("originalAuthorId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Saves recorded in the feed know which copy came from which recipe
+UPDATE "Recipe" AS copy
+SET "forkedFromId" = fa."recipeId",
+  "originalAuthorId" = COALESCE(original."originalAuthorId", original."userId")
+FROM "FeedActivity" AS fa
+JOIN "Recipe" AS original ON original.id = fa."recipeId"
+WHERE fa."activityType" = 'recipe_saved'
+  AND fa.metadata->>'savedRecipeId' = copy.id
+  AND copy."forkedFromId" IS NULL;
+
+-- Copies saved before saves were logged to the feed have no FeedActivity
+-- row, so match them to an earlier recipe by another user with the same
+-- title and ingredients. Copies edited since, or with more than one such
+-- match, are left without a parent.
+WITH candidates AS (
+    SELECT
+        copy.id AS "copyId",
+        original.id AS "originalId",
+        COALESCE(original."originalAuthorId", original."userId") AS "authorId",
+        COUNT(*) OVER (PARTITION BY copy.id) AS matches
+    FROM "Recipe" AS copy
+    JOIN "Recipe" AS original
+        ON original.title = copy.title
+        AND original.ingredients = copy.ingredients
+        AND original."userId" <> copy."userId"
+        AND original."createdAt" < copy."createdAt"
+        AND original.source IS DISTINCT FROM 'discover-import'
+    WHERE copy.source = 'discover-import'
+      AND copy."forkedFromId" IS NULL
+)
+UPDATE "Recipe" AS copy
+SET "forkedFromId" = c."originalId",
+  "originalAuthorId" = c."authorId"
+FROM candidates AS c
+WHERE c."copyId" = copy.id
+  AND c.matches = 1;
@@ -0,0 +1,29 @@
+-- CreateTable
+CREATE TABLE "CookEvent" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "recipeId" TEXT NOT NULL,
+    "cookedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "servings" INTEGER,
+    "rating" INTEGER,
+    "photoUrl" TEXT,
+    "clientEventId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CookEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CookEvent_userId_clientEventId_key" ON "CookEvent"("userId", "clientEventId");
+
+-- CreateIndex
+CREATE INDEX "CookEvent_userId_cookedAt_idx" ON "CookEvent"("userId", "cookedAt");
+
+-- CreateIndex
+CREATE INDEX "CookEvent_recipeId_cookedAt_idx" ON "CookEvent"("recipeId", "cookedAt");
+
+-- AddForeignKey
+ALTER TABLE "CookEvent" ADD CONSTRAINT "CookEvent_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CookEvent" ADD CONSTRAINT "CookEvent_recipeId_fkey" FOREIGN KEY ("recipeId") REFERENCES "Recipe"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,72 @@
+-- CreateTable
+CREATE TABLE "TokenAccount" (
+    "userId" TEXT NOT NULL,
+    "balance" INTEGER NOT NULL DEFAULT 0,
+    "lifetimeEarned" INTEGER NOT NULL DEFAULT 0,
+    "lifetimeSpent" INTEGER NOT NULL DEFAULT 0,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "TokenAccount_pkey" PRIMARY KEY ("userId")
+);
+
+-- CreateTable
+CREATE TABLE "TokenTransaction" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "amount" INTEGER NOT NULL,
+    "type" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "relatedId" TEXT,
+    "idempotencyKey" TEXT,
+    "balanceAfter" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "TokenTransaction_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TokenTransaction_userId_idempotencyKey_key" ON "TokenTransaction"("userId", "idempotencyKey");
+
+-- CreateIndex
+CREATE INDEX "TokenTransaction_userId_createdAt_idx" ON "TokenTransaction"("userId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "TokenAccount" ADD CONSTRAINT "TokenAccount_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TokenTransaction" ADD CONSTRAINT "TokenTransaction_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Carry over balances from the device-synced tokenState blob. Some clients
+-- stored it as a JSON string rather than an object; anything that isn't a
+-- number counts as 0. getOpeningBalance in lib/token-ledger-utils.ts
+-- follows the same rules.
+CREATE TEMP TABLE "_TokenOpening" AS
+SELECT "userId",
+  GREATEST(CASE WHEN state->>'balance' ~ '^-?[0-9]+(\.[0-9]+)?$'
+    THEN (state->>'balance')::numeric ELSE 0 END, 0)::int AS balance,
+  GREATEST(CASE WHEN state->>'lifetimeEarned' ~ '^-?[0-9]+(\.[0-9]+)?$'
+    THEN (state->>'lifetimeEarned')::numeric ELSE 0 END, 0)::int AS earned,
+  GREATEST(CASE WHEN state->>'lifetimeSpent' ~ '^-?[0-9]+(\.[0-9]+)?$'
+    THEN (state->>'lifetimeSpent')::numeric ELSE 0 END, 0)::int AS spent
+FROM (
+  SELECT "userId",
+    CASE WHEN jsonb_typeof("tokenState") = 'string'
+      THEN ("tokenState" #>> '{}')::jsonb
+      ELSE "tokenState"
+    END AS state
+  FROM "UserProfile"
+  WHERE "tokenState" IS NOT NULL
+) states
+WHERE jsonb_typeof(state) = 'object';
+
+INSERT INTO "TokenAccount" ("userId", "balance", "lifetimeEarned", "lifetimeSpent", "updatedAt")
+SELECT "userId", balance, earned, spent, CURRENT_TIMESTAMP
+FROM "_TokenOpening";
+
+INSERT INTO "TokenTransaction" ("id", "userId", "amount", "type", "description", "idempotencyKey", "balanceAfter")
+SELECT gen_random_uuid()::text, "userId", balance, 'opening_balance',
+  'Balance carried over from the app', 'opening-balance', balance
+FROM "_TokenOpening"
+WHERE balance > 0;
+
+DROP TABLE "_TokenOpening";
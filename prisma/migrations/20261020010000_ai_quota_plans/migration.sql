@@ -0,0 +1,53 @@
+-- CreateTable
+CREATE TABLE "AiQuotaPlan" (
+    "plan" TEXT NOT NULL,
+    "endpoint" TEXT NOT NULL,
+    "limit" INTEGER,
+    "window" TEXT NOT NULL,
+    "windowDays" INTEGER,
+    "tokenCost" INTEGER NOT NULL,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "AiQuotaPlan_pkey" PRIMARY KEY ("plan","endpoint")
+);
+
+-- CreateTable
+CREATE TABLE "AiQuotaOverride" (
+    "userId" TEXT NOT NULL,
+    "endpoint" TEXT NOT NULL,
+    "limit" INTEGER,
+    "unlimited" BOOLEAN NOT NULL DEFAULT false,
+    "window" TEXT,
+    "windowDays" INTEGER,
+    "tokenCost" INTEGER,
+    "note" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "AiQuotaOverride_pkey" PRIMARY KEY ("userId","endpoint")
+);
+
+-- AddForeignKey
+ALTER TABLE "AiQuotaOverride" ADD CONSTRAINT "AiQuotaOverride_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Seed the limits that were previously hardcoded: free users get 3 lifetime
+-- requests per endpoint (25 for chat), pro users are unlimited apart from
+-- 10 meal plans per rolling 30 days
+INSERT INTO "AiQuotaPlan" ("plan", "endpoint", "limit", "window", "windowDays", "tokenCost", "updatedAt")
+SELECT 'free', endpoint, CASE WHEN endpoint = 'chat' THEN 25 ELSE 3 END, 'lifetime', NULL, 25, CURRENT_TIMESTAMP
+FROM unnest(ARRAY[
+  'meal-plan', 'generate-recipe', 'replace-recipe', 'parse-recipe',
+  'generate-steps', 'parse-pantry', 'chat-instruction', 'explain-instruction',
+  'chat-chef', 'chat', 'parse-onboarding-response'
+]) AS endpoint
+UNION ALL
+SELECT 'pro', endpoint,
+  CASE WHEN endpoint = 'meal-plan' THEN 10 END,
+  CASE WHEN endpoint = 'meal-plan' THEN 'rolling' ELSE 'lifetime' END,
+  CASE WHEN endpoint = 'meal-plan' THEN 30 END,
+  25, CURRENT_TIMESTAMP
+FROM unnest(ARRAY[
+  'meal-plan', 'generate-recipe', 'replace-recipe', 'parse-recipe',
+  'generate-steps', 'parse-pantry', 'chat-instruction', 'explain-instruction',
+  'chat-chef', 'chat', 'parse-onboarding-response'
+]) AS endpoint;
@@ -0,0 +1,93 @@
+#!/usr/bin/env tsx
+/**
+ * Compute diet flags and allergens for recipes that have none or were
+ * classified with an older taxonomy
+ * Run with: npx tsx scripts/backfill-recipe-classification.ts
+ */
+
+import { prisma } from "../lib/prisma";
+import {
+  CLASSIFICATION_VERSION,
+  getRecipeClassificationFields,
+} from "../lib/allergen-utils";
+
+const BATCH_SIZE = 200;
+
+async function backfillRecipeClassification() {
+  console.log("🔍 Finding recipes with missing or stale classification...\n");
+
+  const where = {
+    OR: [
+      { classificationVersion: null },
+      { classificationVersion: { lt: CLASSIFICATION_VERSION } },
+    ],
+  };
+
+  const total = await prisma.recipe.count({ where });
+
+  if (total === 0) {
+    console.log("✅ All recipes already have a current classification!\n");
+    return;
+  }
+
+  console.log(`Found ${total} recipes to classify\n`);
+
+  let successCount = 0;
+  let errorCount = 0;
+  const failedIds: string[] = [];
+
+  while (true) {
+    // Updated rows drop out of the filter, so always take the first batch
+    const recipes = await prisma.recipe.findMany({
+      where: { ...where, id: { notIn: failedIds } },
+      select: { id: true, title: true, ingredients: true },
+      orderBy: { id: "asc" },
+      take: BATCH_SIZE,
+    });
+
+    if (recipes.length === 0) break;
+
+    for (const recipe of recipes) {
+      try {
+        const fields = getRecipeClassificationFields(recipe.ingredients);
+        // Raw so updatedAt stays put; otherwise delta sync would send every
+        // recipe to every device again
+        await prisma.$executeRaw`
+          UPDATE "Recipe"
+          SET "dietFlags" = ${fields.dietFlags},
+            allergens = ${fields.allergens},
+            "classificationVersion" = ${fields.classificationVersion}
+          WHERE id = ${recipe.id}
+        `;
+        successCount++;
+      } catch (error) {
+        errorCount++;
+        failedIds.push(recipe.id);
+        console.error(`  ✗ Error: ${error}`);
+        console.error(`  Skipping recipe: ${recipe.title}\n`);
+      }
+    }
+
+    console.log(`  ✓ Processed ${successCount + errorCount}/${total}`);
+  }
+
+  console.log("\n" + "=".repeat(50));
+  console.log(`✅ Successfully classified: ${successCount} recipes`);
+  if (errorCount > 0) {
+    console.log(`⚠️  Errors: ${errorCount} recipes`);
+  }
+  console.log("=".repeat(50) + "\n");
+}
+
+backfillRecipeClassification()
+  .then(() => {
+    console.log("✅ Backfill complete!");
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error("❌ Backfill failed:", error);
+    process.exit(1);
+  })
+  .finally(() => {
+    prisma.$disconnect();
+  });
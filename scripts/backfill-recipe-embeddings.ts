@@ -1,78 +1,52 @@
 #!/usr/bin/env tsx
 /**
- * Backfill embeddings for existing recipes that don't have them
- * Run with: npx tsx scripts/backfill-recipe-embeddings.ts
+ * Embed recipes that have no embedding or one from an older version
+ * Progress is stored in an EmbeddingJob, so an interrupted run resumes where
+ * it left off.
+ * Run with: npx tsx scripts/backfill-recipe-embeddings.ts [--batch-size=50] [--max-batches=N]
  */
 
 import { prisma } from "../lib/prisma";
-import { generateRecipeEmbedding } from "../lib/embedding-utils";
+import { RECIPE_EMBEDDING_VERSION } from "../lib/embedding-utils";
+import {
+  DEFAULT_EMBEDDING_BATCH_SIZE,
+  runEmbeddingJob,
+} from "../lib/embedding-job-utils";
 
-async function backfillRecipeEmbeddings() {
-  console.log("🔍 Finding recipes without embeddings...\n");
+function getNumberArg(name: string): number | undefined {
+  const arg = process.argv.find((a) => a.startsWith(`--${name}=`));
+  if (!arg) return undefined;
 
-  // Get all recipes without embeddings
-  const recipesWithoutEmbeddings = await prisma.$queryRaw<
-    Array<{ id: string; title: string }>
-  >`
-    SELECT id, title
-    FROM "Recipe"
-    WHERE embedding IS NULL
-  `;
+  const value = parseInt(arg.split("=")[1], 10);
+  return Number.isFinite(value) && value > 0 ? value : undefined;
+}
 
-  if (recipesWithoutEmbeddings.length === 0) {
-    console.log("✅ All recipes already have embeddings!\n");
-    return;
-  }
+async function backfillRecipeEmbeddings() {
+  const batchSize = getNumberArg("batch-size") ?? DEFAULT_EMBEDDING_BATCH_SIZE;
+  const maxBatches = getNumberArg("max-batches");
 
   console.log(
-    `Found ${recipesWithoutEmbeddings.length} recipes without embeddings\n`
+    `🔍 Embedding stale recipes (version ${RECIPE_EMBEDDING_VERSION}, batches of ${batchSize})...\n`
   );
 
-  let successCount = 0;
-  let errorCount = 0;
-
-  for (const recipeRef of recipesWithoutEmbeddings) {
-    try {
-      // Fetch full recipe data
-      const recipe = await prisma.recipe.findUnique({
-        where: { id: recipeRef.id },
-      });
-
-      if (!recipe) {
-        console.log(`⚠️  Recipe ${recipeRef.id} not found, skipping...`);
-        continue;
-      }
-
-      console.log(`Processing: ${recipe.title}`);
-
-      // Generate embedding
-      const embedding = await generateRecipeEmbedding({
-        title: recipe.title,
-        description: recipe.description,
-        tags: recipe.tags,
-        ingredients: recipe.ingredients,
-      });
-
-      // Update recipe with embedding using raw SQL
-      await prisma.$executeRawUnsafe(
-        `UPDATE "Recipe" SET embedding = $1::vector, "embeddingVersion" = 1 WHERE id = $2`,
-        `[${embedding.join(",")}]`,
-        recipe.id
+  const job = await runEmbeddingJob({
+    batchSize,
+    maxBatches,
+    onProgress: (job) => {
+      console.log(
+        `  ✓ ${job.processed + job.failed}/${job.total} processed (${job.failed} failed)`
       );
-
-      successCount++;
-      console.log(`  ✓ Generated embedding (${embedding.length} dimensions)\n`);
-    } catch (error) {
-      errorCount++;
-      console.error(`  ✗ Error: ${error}`);
-      console.error(`  Skipping recipe: ${recipeRef.title}\n`);
-    }
-  }
+    },
+  });
 
   console.log("\n" + "=".repeat(50));
-  console.log(`✅ Successfully processed: ${successCount} recipes`);
-  if (errorCount > 0) {
-    console.log(`⚠️  Errors: ${errorCount} recipes`);
+  console.log(`✅ Successfully processed: ${job.processed} recipes`);
+  if (job.failed > 0) {
+    console.log(`⚠️  Errors: ${job.failed} recipes`);
+    console.log(`   Last error: ${job.lastError}`);
+  }
+  if (job.status !== "completed") {
+    console.log(`⏸️  Stopped early, run again to resume job ${job.id}`);
   }
   console.log("=".repeat(50) + "\n");
 }
@@ -0,0 +1,93 @@
+#!/usr/bin/env tsx
+/**
+ * Estimate nutrition for recipes that have none or were estimated with an
+ * older nutrient table
+ * Run with: npx tsx scripts/backfill-recipe-nutrition.ts
+ */
+
+import { prisma } from "../lib/prisma";
+import {
+  NUTRITION_VERSION,
+  getRecipeNutritionFields,
+} from "../lib/nutrition-utils";
+
+const BATCH_SIZE = 200;
+
+async function backfillRecipeNutrition() {
+  console.log("🔍 Finding recipes with missing or stale nutrition...\n");
+
+  const staleRecipes = await prisma.$queryRaw<Array<{ id: string }>>`
+    SELECT id
+    FROM "Recipe"
+    WHERE nutrition IS NULL
+       OR COALESCE((nutrition->>'version')::int, 0) < ${NUTRITION_VERSION}
+  `;
+
+  if (staleRecipes.length === 0) {
+    console.log("✅ All recipes already have current nutrition!\n");
+    return;
+  }
+
+  console.log(`Found ${staleRecipes.length} recipes to update\n`);
+
+  let updatedCount = 0;
+  // Nothing in the nutrient table matched; stored with zero coverage
+  let emptyCount = 0;
+  let errorCount = 0;
+
+  for (let start = 0; start < staleRecipes.length; start += BATCH_SIZE) {
+    const ids = staleRecipes.slice(start, start + BATCH_SIZE).map((r) => r.id);
+    const recipes = await prisma.recipe.findMany({
+      where: { id: { in: ids } },
+      select: { id: true, title: true, ingredients: true, servings: true },
+    });
+
+    for (const recipe of recipes) {
+      try {
+        const fields = getRecipeNutritionFields(
+          recipe.ingredients,
+          recipe.servings
+        );
+        await prisma.recipe.update({
+          where: { id: recipe.id },
+          data: fields,
+        });
+
+        if (fields.caloriesPerServing === null) {
+          emptyCount++;
+        } else {
+          updatedCount++;
+        }
+      } catch (error) {
+        errorCount++;
+        console.error(`  ✗ Error: ${error}`);
+        console.error(`  Skipping recipe: ${recipe.title}\n`);
+      }
+    }
+
+    console.log(
+      `  ✓ Processed ${Math.min(start + BATCH_SIZE, staleRecipes.length)}/${staleRecipes.length}`
+    );
+  }
+
+  console.log("\n" + "=".repeat(50));
+  console.log(`✅ Estimated nutrition: ${updatedCount} recipes`);
+  console.log(`ℹ️  No matching ingredients: ${emptyCount} recipes`);
+  if (errorCount > 0) {
+    console.log(`⚠️  Errors: ${errorCount} recipes`);
+  }
+  console.log("=".repeat(50) + "\n");
+}
+
+backfillRecipeNutrition()
+  .then(() => {
+    console.log("✅ Backfill complete!");
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error("❌ Backfill failed:", error);
+    process.exit(1);
+  })
+  .finally(() => {
+    prisma.$disconnect();
+  });
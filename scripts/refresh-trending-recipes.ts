@@ -0,0 +1,38 @@
+#!/usr/bin/env tsx
+/**
+ * Recompute the trending recipes snapshot served by /api/recipes/trending
+ * Intended to run on a schedule (e.g. every 15 minutes)
+ * Run with: npx tsx scripts/refresh-trending-recipes.ts
+ */
+
+import { prisma } from "../lib/prisma";
+import {
+  refreshTrendingRecipes,
+  TRENDING_WINDOW_DAYS,
+} from "../lib/trending-utils";
+
+async function run() {
+  console.log(
+    `🔥 Scoring engagement from the last ${TRENDING_WINDOW_DAYS} days...\n`
+  );
+
+  const result = await refreshTrendingRecipes();
+
+  console.log("\n" + "=".repeat(50));
+  console.log(`✅ Trending recipes stored: ${result.count}`);
+  console.log(`🕒 Computed at: ${result.computedAt.toISOString()}`);
+  console.log("=".repeat(50) + "\n");
+}
+
+run()
+  .then(() => {
+    console.log("✅ Trending refresh complete!");
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error("❌ Trending refresh failed:", error);
+    process.exit(1);
+  })
+  .finally(() => {
+    prisma.$disconnect();
+  });
@@ -0,0 +1,46 @@
+#!/usr/bin/env tsx
+/**
+ * Push a grouped reminder to users whose inventory items expire soon
+ * Intended to run on a schedule (e.g. hourly); users inside quiet hours are
+ * picked up by a later run
+ * Run with: npx tsx scripts/send-expiry-reminders.ts [--dry-run]
+ */
+
+import { prisma } from "../lib/prisma";
+import { sendExpiryReminders } from "../lib/inventory-reminder-utils";
+
+async function run() {
+  const dryRun = process.argv.includes("--dry-run");
+
+  console.log(
+    `🔔 Sending expiring-inventory reminders${dryRun ? " (dry run)" : ""}...\n`
+  );
+
+  const result = await sendExpiryReminders({ dryRun });
+
+  console.log("\n" + "=".repeat(50));
+  console.log(`👥 Users with expiring items: ${result.usersChecked}`);
+  console.log(`✅ Reminders sent: ${result.sent}`);
+  if (result.failed > 0) {
+    console.log(`⚠️  Failed: ${result.failed}`);
+  }
+  console.log(`⏭️  Opted out: ${result.skipped.optedOut}`);
+  console.log(`🌙 Quiet hours: ${result.skipped.quietHours}`);
+  console.log(`🕒 Reminded recently: ${result.skipped.recentlyReminded}`);
+  console.log(`📭 Nothing in window: ${result.skipped.nothingExpiring}`);
+  console.log(`📵 No devices: ${result.skipped.noDevices}`);
+  console.log("=".repeat(50) + "\n");
+}
+
+run()
+  .then(() => {
+    console.log("✅ Reminders complete!");
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error("❌ Reminders failed:", error);
+    process.exit(1);
+  })
+  .finally(() => {
+    prisma.$disconnect();
+  });
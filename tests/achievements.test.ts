@@ -0,0 +1,201 @@
+import { describe, it, expect } from "vitest";
+import {
+  ACHIEVEMENT_RULES,
+  computeStreak,
+  evaluateAchievements,
+  getNewlyUnlocked,
+  reconcileProgressSections,
+  type ProgressStats,
+} from "../lib/achievement-utils";
+
+const now = new Date("2026-10-19T12:00:00Z"); // a Monday
+
+function day(date: string) {
+  return new Date(`${date}T18:00:00Z`);
+}
+
+const noProgress: ProgressStats = {
+  recipes: 0,
+  posts: 0,
+  mealPlans: 0,
+  cooks: 0,
+  distinctRecipesCooked: 0,
+  inventoryItems: 0,
+  bestCookingStreak: 0,
+  bestMealPlanStreak: 0,
+};
+
+describe("computeStreak", () => {
+  it("counts consecutive days and keeps yesterday's streak alive", () => {
+    const streak = computeStreak(
+      [day("2026-10-16"), day("2026-10-17"), day("2026-10-18")],
+      "day",
+      now
+    );
+
+    expect(streak.currentStreak).toBe(3);
+    expect(streak.bestStreak).toBe(3);
+    expect(streak.totalCount).toBe(3);
+    expect(streak.lastBrokenStreak).toBe(0);
+    expect(streak.brokenAt).toBeNull();
+  });
+
+  it("counts several events on one day once", () => {
+    const streak = computeStreak(
+      [day("2026-10-19"), new Date("2026-10-19T08:00:00Z")],
+      "day",
+      now
+    );
+
+    expect(streak.currentStreak).toBe(1);
+    expect(streak.totalCount).toBe(2);
+  });
+
+  it("reports the most recent broken run", () => {
+    const streak = computeStreak(
+      [
+        day("2026-10-01"),
+        day("2026-10-02"),
+        day("2026-10-03"),
+        day("2026-10-10"),
+      ],
+      "day",
+      now
+    );
+
+    expect(streak.currentStreak).toBe(0);
+    expect(streak.bestStreak).toBe(3);
+    expect(streak.lastBrokenStreak).toBe(1);
+    expect(streak.brokenAt).toBe("2026-10-12T00:00:00.000Z");
+    expect(streak.lastActivityDate).toBe(day("2026-10-10").toISOString());
+  });
+
+  it("groups weeks starting on Monday", () => {
+    const streak = computeStreak(
+      [day("2026-10-05"), day("2026-10-11"), day("2026-10-12")],
+      "week",
+      now
+    );
+
+    // Oct 5 and 11 share a week; Oct 12 starts the next
+    expect(streak.currentStreak).toBe(2);
+    expect(streak.totalCount).toBe(3);
+  });
+
+  it("is empty without events", () => {
+    expect(computeStreak([], "day", now)).toEqual({
+      currentStreak: 0,
+      bestStreak: 0,
+      lastActivityDate: null,
+      totalCount: 0,
+      lastBrokenStreak: 0,
+      brokenAt: null,
+    });
+  });
+});
+
+describe("evaluateAchievements", () => {
+  it("caps progress at the target and unlocks when reached", () => {
+    const achievements = evaluateAchievements(
+      { ...noProgress, cooks: 12 },
+      new Map(),
+      now
+    );
+
+    expect(achievements.cooked_10).toMatchObject({
+      progress: 10,
+      target: 10,
+      unlockedAt: now.toISOString(),
+    });
+    expect(achievements.cooked_50.progress).toBe(12);
+    expect(achievements.cooked_50.unlockedAt).toBeUndefined();
+    expect(Object.keys(achievements)).toHaveLength(ACHIEVEMENT_RULES.length);
+  });
+
+  it("keeps earlier unlocks even if the count has dropped", () => {
+    const unlockedAt = new Date("2026-01-01T00:00:00Z");
+    const achievements = evaluateAchievements(
+      noProgress,
+      new Map([["first_recipe", unlockedAt]]),
+      now
+    );
+
+    expect(achievements.first_recipe).toMatchObject({
+      progress: 1,
+      unlockedAt: unlockedAt.toISOString(),
+    });
+  });
+});
+
+describe("getNewlyUnlocked", () => {
+  it("only reports unlocks that weren't stored yet", () => {
+    const unlocked = new Map([["first_recipe", new Date("2026-01-01")]]);
+    const achievements = evaluateAchievements(
+      { ...noProgress, recipes: 1, cooks: 1 },
+      unlocked,
+      now
+    );
+
+    expect(getNewlyUnlocked(achievements, unlocked)).toEqual(["first_cook"]);
+  });
+
+  it("doesn't pay again for unlocks carried over from a guest", () => {
+    // The guest was paid for first_recipe; its recipe and balance moved over
+    const guestUnlockedAt = new Date("2026-10-01T09:00:00Z");
+    const stats = { ...noProgress, recipes: 1 };
+
+    const withoutTransfer = evaluateAchievements(stats, new Map(), now);
+    expect(getNewlyUnlocked(withoutTransfer, new Map())).toEqual([
+      "first_recipe",
+    ]);
+
+    const carriedOver = new Map([["first_recipe", guestUnlockedAt]]);
+    const withTransfer = evaluateAchievements(stats, carriedOver, now);
+    expect(getNewlyUnlocked(withTransfer, carriedOver)).toEqual([]);
+    expect(withTransfer.first_recipe.unlockedAt).toBe(
+      guestUnlockedAt.toISOString()
+    );
+  });
+});
+
+describe("reconcileProgressSections", () => {
+  const server = {
+    achievements: evaluateAchievements(noProgress, new Map(), now),
+    streaks: {
+      mealPlanStreak: computeStreak([], "week", now),
+      cookingStreak: computeStreak([], "day", now),
+    },
+  };
+
+  it("replaces server-tracked values and keeps device-only ones", () => {
+    const { sections, changed } = reconcileProgressSections(
+      {
+        achievements: {
+          first_cook: { id: "first_cook", progress: 1, target: 1 },
+          device_only: { id: "device_only", progress: 2 },
+        },
+        streaks: { cookingStreak: { currentStreak: 99 } },
+      },
+      server
+    );
+
+    const achievements = sections.achievements as Record<string, unknown>;
+    expect(changed).toBe(true);
+    expect(achievements.first_cook).toEqual(server.achievements.first_cook);
+    expect(achievements.device_only).toEqual({
+      id: "device_only",
+      progress: 2,
+    });
+    expect(sections.streaks).toEqual(server.streaks);
+  });
+
+  it("leaves sections the device didn't send alone", () => {
+    const { sections, changed } = reconcileProgressSections(
+      { chefIntake: { dietStyle: "vegan" } },
+      server
+    );
+
+    expect(changed).toBe(false);
+    expect(sections).toEqual({ chefIntake: { dietStyle: "vegan" } });
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, it, expect } from "vitest";
+import {
+  AiEndpoint,
+  DEFAULT_QUOTA_PLANS,
+  getQuotaWindow,
+  resolveQuotaRules,
+  type QuotaRule,
+} from "../lib/ai-usage-utils";
+
+const now = new Date("2026-10-19T12:00:00Z");
+
+const noOverride = {
+  limit: null,
+  unlimited: false,
+  window: null,
+  windowDays: null,
+  tokenCost: null,
+};
+
+describe("resolveQuotaRules", () => {
+  it("falls back to the defaults for endpoints without a stored row", () => {
+    const rules = resolveQuotaRules("free", [
+      {
+        endpoint: AiEndpoint.PARSE_PANTRY,
+        limit: 10,
+        window: "calendar",
+        windowDays: null,
+        tokenCost: 5,
+      },
+    ]);
+
+    expect(rules[AiEndpoint.PARSE_PANTRY]).toEqual({
+      limit: 10,
+      window: "calendar",
+      windowDays: null,
+      tokenCost: 5,
+    });
+    expect(rules[AiEndpoint.CHAT]).toEqual(
+      DEFAULT_QUOTA_PLANS.free[AiEndpoint.CHAT]
+    );
+  });
+
+  it("applies only the fields an override sets", () => {
+    const rules = resolveQuotaRules(
+      "pro",
+      [],
+      [{ ...noOverride, endpoint: AiEndpoint.MEAL_PLAN, limit: 20 }]
+    );
+
+    expect(rules[AiEndpoint.MEAL_PLAN]).toEqual({
+      limit: 20,
+      window: "rolling",
+      windowDays: 30,
+      tokenCost: 25,
+    });
+  });
+
+  it("lets an override lift the limit entirely", () => {
+    const rules = resolveQuotaRules(
+      "free",
+      [],
+      [
+        {
+          ...noOverride,
+          endpoint: AiEndpoint.GENERATE_RECIPE,
+          limit: 50,
+          unlimited: true,
+        },
+      ]
+    );
+
+    expect(rules[AiEndpoint.GENERATE_RECIPE].limit).toBeNull();
+  });
+});
+
+describe("getQuotaWindow", () => {
+  const rule = (window: QuotaRule["window"], windowDays: number | null) => ({
+    limit: 3,
+    window,
+    windowDays,
+    tokenCost: 25,
+  });
+
+  it("never resets a lifetime quota", () => {
+    expect(getQuotaWindow(rule("lifetime", null), now)).toEqual({
+      start: null,
+      resetsAt: null,
+    });
+  });
+
+  it("counts back windowDays for a rolling quota", () => {
+    expect(getQuotaWindow(rule("rolling", 7), now).start).toEqual(
+      new Date("2026-10-12T12:00:00Z")
+    );
+  });
+
+  it("resets a calendar quota at the start of next month", () => {
+    expect(getQuotaWindow(rule("calendar", null), now)).toEqual({
+      start: new Date("2026-10-01T00:00:00Z"),
+      resetsAt: new Date("2026-11-01T00:00:00Z"),
+    });
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, it, expect } from "vitest";
+import {
+  classifyIngredients,
+  describeDietaryViolation,
+  getDietaryViolations,
+  getIngredientClasses,
+  resolveIngredientClasses,
+  splitDietaryRestrictions,
+} from "../lib/allergen-utils";
+
+describe("getIngredientClasses", () => {
+  it("matches whole words and derived products", () => {
+    expect(getIngredientClasses({ name: "Nutmeg" })).toEqual([]);
+    expect(getIngredientClasses({ name: "Butternut squash" })).toEqual([]);
+    expect(getIngredientClasses({ name: "Coconut milk" })).toEqual([]);
+    expect(getIngredientClasses({ name: "Eggplant" })).toEqual([]);
+    expect(getIngredientClasses({ name: "Basil pesto" })).toEqual([
+      "tree_nut",
+      "dairy",
+    ]);
+    expect(getIngredientClasses({ name: "Peanut butter" })).toEqual(["peanut"]);
+    expect(getIngredientClasses({ name: "Tahini" })).toEqual(["sesame"]);
+    expect(getIngredientClasses({ name: "Gluten-free spaghetti" })).toEqual([]);
+    expect(getIngredientClasses({ name: "Anchovies" })).toEqual(["fish"]);
+  });
+
+  it("only clears a class for its own free-from wording", () => {
+    expect(
+      getIngredientClasses({ name: "Almonds", notes: "peanut-free" })
+    ).toEqual(["tree_nut"]);
+    expect(getIngredientClasses({ name: "Nut-free granola" })).toEqual([]);
+  });
+});
+
+describe("resolveIngredientClasses", () => {
+  it("maps user wording to taxonomy classes", () => {
+    expect(resolveIngredientClasses("Tree nuts")).toEqual(["tree_nut"]);
+    expect(resolveIngredientClasses("nuts")).toEqual(["peanut", "tree_nut"]);
+    expect(resolveIngredientClasses("Seafood")).toEqual(["fish", "shellfish"]);
+    expect(resolveIngredientClasses("mushrooms")).toEqual([]);
+  });
+});
+
+describe("getDietaryViolations", () => {
+  const recipe = {
+    ingredients: [
+      { name: "Pesto", qty: "1/2", unit: "cup" },
+      { name: "Spaghetti", qty: 200, unit: "g" },
+      { name: "Cremini mushrooms", qty: 8 },
+      { name: "Nutmeg", qty: "1", unit: "pinch" },
+    ],
+  };
+
+  it("explains which ingredient triggered each restriction", () => {
+    const violations = getDietaryViolations(recipe, {
+      dietStyle: "Vegan",
+      allergies: ["tree nuts"],
+      exclusions: ["mushroom"],
+    });
+
+    expect(violations.map(describeDietaryViolation)).toEqual([
+      "Pesto contains dairy (pesto) - not vegan",
+      "Pesto contains tree nuts (pesto) - allergy: tree nuts",
+      'Cremini mushrooms matches "mushroom" - excluded: mushroom',
+    ]);
+  });
+
+  it("checks exclusions against the title and description too", () => {
+    const risotto = {
+      title: "Mushroom Risotto",
+      description: "Creamy and rich",
+      ingredients: [{ name: "Arborio rice" }, { name: "Stock" }],
+    };
+
+    expect(
+      getDietaryViolations(risotto, { exclusions: ["mushrooms"] }).map(
+        describeDietaryViolation
+      )
+    ).toEqual(['Mushroom Risotto matches "mushroom" - excluded: mushrooms']);
+    expect(getDietaryViolations(risotto, { allergies: ["mushroom"] })).toEqual(
+      []
+    );
+  });
+
+  it("passes recipes that only look like a match", () => {
+    expect(
+      getDietaryViolations(recipe, {
+        allergies: ["nut"],
+        dietStyle: "vegetarian",
+      })
+    ).toHaveLength(1);
+    expect(
+      getDietaryViolations(
+        { ingredients: [{ name: "Nutmeg" }, { name: "Coconut cream" }] },
+        { allergies: ["nuts", "dairy"] }
+      )
+    ).toEqual([]);
+  });
+});
+
+describe("classifyIngredients", () => {
+  it("derives diet flags and allergens from the ingredient list", () => {
+    expect(
+      classifyIngredients([
+        { name: "Firm tofu" },
+        { name: "Soy sauce" },
+        { name: "Rice noodles" },
+        { name: "Toasted sesame oil" },
+      ])
+    ).toEqual({
+      dietFlags: ["vegan", "vegetarian", "pescatarian", "dairy-free"],
+      allergens: ["gluten", "sesame", "soy"],
+    });
+    expect(classifyIngredients([])).toEqual({ dietFlags: [], allergens: [] });
+  });
+});
+
+describe("splitDietaryRestrictions", () => {
+  it("keeps restrictions without a stored allergen for the ingredient scan", () => {
+    expect(
+      splitDietaryRestrictions({
+        dietStyle: "Plant-based",
+        allergies: ["Peanuts", "Kiwi"],
+        exclusions: ["dairy", "honey"],
+      })
+    ).toEqual({
+      dietFlag: "vegan",
+      avoidAllergens: ["peanut", "dairy"],
+      remaining: { allergies: ["Kiwi"], exclusions: ["honey"] },
+    });
+  });
+});
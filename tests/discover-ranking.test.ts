@@ -0,0 +1,137 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildTopRecipesQuery,
+  decodeForYouCursor,
+  encodeForYouCursor,
+  getNoveltyScore,
+  getPopularityScore,
+  rankForYouCandidates,
+  wilsonLowerBound,
+  type ForYouCandidate,
+} from "../lib/discover-ranking-utils";
+
+const now = new Date("2026-10-19T12:00:00Z");
+
+function candidate(
+  overrides: Partial<ForYouCandidate> & { id: string }
+): ForYouCandidate {
+  return {
+    cuisine: "Italian",
+    createdAt: now,
+    upvotes: 0,
+    downvotes: 0,
+    similarity: 0.5,
+    byFriend: false,
+    friendSaves: 0,
+    lastUsedAt: null,
+    savedByViewer: false,
+    ...overrides,
+  };
+}
+
+describe("wilsonLowerBound", () => {
+  it("trusts many votes over a few perfect ones", () => {
+    expect(wilsonLowerBound(0, 0)).toBe(0);
+    expect(wilsonLowerBound(90, 10)).toBeGreaterThan(wilsonLowerBound(3, 0));
+    expect(wilsonLowerBound(10, 0)).toBeGreaterThan(wilsonLowerBound(10, 5));
+  });
+});
+
+describe("getPopularityScore", () => {
+  it("halves every half-life", () => {
+    const fresh = getPopularityScore(20, 2, now, now);
+    const old = getPopularityScore(
+      20,
+      2,
+      new Date(now.getTime() - 30 * 86400000),
+      now
+    );
+    expect(old).toBeCloseTo(fresh / 2, 5);
+  });
+});
+
+describe("getNoveltyScore", () => {
+  it("penalizes recent cooks and saved recipes", () => {
+    expect(getNoveltyScore(null, false, now)).toBe(1);
+    expect(getNoveltyScore(now, false, now)).toBe(0);
+    expect(getNoveltyScore(null, true, now)).toBe(0);
+    expect(
+      getNoveltyScore(new Date(now.getTime() - 14 * 86400000), false, now)
+    ).toBeCloseTo(0.5, 5);
+  });
+});
+
+describe("rankForYouCandidates", () => {
+  it("boosts friends and spreads cuisines out", () => {
+    const ranked = rankForYouCandidates(
+      [
+        candidate({ id: "a", similarity: 0.8 }),
+        candidate({ id: "b", similarity: 0.78 }),
+        candidate({ id: "c", similarity: 0.7, cuisine: "Thai" }),
+        candidate({ id: "d", similarity: 0.4, byFriend: true }),
+      ],
+      now
+    );
+
+    expect(ranked.map((r) => r.id)).toEqual(["d", "c", "a", "b"]);
+  });
+
+  it("orders ties deterministically", () => {
+    const input = [
+      candidate({ id: "z" }),
+      candidate({ id: "m", cuisine: "Thai" }),
+      candidate({ id: "a", cuisine: "Greek" }),
+    ];
+    const first = rankForYouCandidates(input, now).map((r) => r.id);
+    const second = rankForYouCandidates([...input].reverse(), now).map(
+      (r) => r.id
+    );
+
+    expect(first).toEqual(["a", "m", "z"]);
+    expect(second).toEqual(first);
+  });
+});
+
+describe("For You cursors", () => {
+  it("round-trips and rejects garbage", () => {
+    const cursor = { asOf: now.toISOString(), offset: 20 };
+    expect(decodeForYouCursor(encodeForYouCursor(cursor))).toEqual(cursor);
+    expect(() => decodeForYouCursor("not-a-cursor")).toThrow();
+    expect(() =>
+      decodeForYouCursor(encodeForYouCursor({ ...cursor, offset: -1 }))
+    ).toThrow();
+  });
+});
+
+describe("buildTopRecipesQuery", () => {
+  it("orders by net votes plus the taste boost without the score alias", () => {
+    const { query, params } = buildTopRecipesQuery({
+      conditions: [`r."userId" NOT IN ($1)`],
+      params: ["user-1"],
+      limit: 20,
+      tasteVector: "[0.1,0.2]",
+      embeddingVersion: 1,
+    });
+    const orderBy = query.slice(query.indexOf("ORDER BY"));
+
+    expect(params).toEqual(["user-1", "[0.1,0.2]", 20]);
+    expect(orderBy).not.toMatch(/\bscore\b/);
+    expect(orderBy).toContain("r.embedding <=> $2::vector");
+    expect(orderBy).toContain("SUM(CASE WHEN v.\"voteType\" = 'upvote'");
+    expect(query).toContain("LIMIT $3");
+  });
+
+  it("orders by the score alias alone without a taste vector", () => {
+    const { query, params } = buildTopRecipesQuery({
+      conditions: [],
+      params: [],
+      limit: 5,
+      embeddingVersion: 1,
+    });
+
+    expect(params).toEqual([5]);
+    expect(query).toContain(`ORDER BY score DESC, r."createdAt" DESC`);
+    expect(query).not.toContain("WHERE");
+    expect(query).toContain("LIMIT $1");
+  });
+});
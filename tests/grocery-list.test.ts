@@ -0,0 +1,87 @@
+import { describe, it, expect } from "vitest";
+import { aggregateGroceryItems } from "../lib/grocery-list-utils";
+
+const pancakes = {
+  id: "recipe-1",
+  title: "Pancakes",
+  servings: 4,
+  ingredients: [
+    { name: "Flour", canonicalId: "flour", qty: "1 1/2", unit: "cups" },
+    { name: "Milk", canonicalId: "milk", qty: 1, unit: "cup" },
+    { name: "Butter", canonicalId: "butter", qty: 3, unit: "tbsp" },
+    { name: "Salt", canonicalId: "salt", qty: "a pinch" },
+    { name: "Pepper", canonicalId: "black_pepper", qty: "to taste" },
+  ],
+};
+
+const crepes = {
+  id: "recipe-2",
+  title: "Crepes",
+  servings: 2,
+  ingredients: [
+    { name: "Flour", canonicalId: "flour", qty: 4, unit: "tbsp" },
+    { name: "Milk", canonicalId: "milk", qty: 250, unit: "ml" },
+    { name: "Eggs", canonicalId: "egg", qty: 2 },
+  ],
+};
+
+describe("aggregateGroceryItems", () => {
+  it("sums compatible units across recipes and keeps the recipe list", () => {
+    const { items } = aggregateGroceryItems([
+      { recipe: pancakes, servings: null },
+      { recipe: crepes, servings: null },
+    ]);
+
+    const flour = items.find((item) => item.canonicalId === "flour")!;
+    // 1.5 cups + 4 tbsp = 1.75 cups
+    expect(flour.quantity).toBe(1.75);
+    expect(flour.unit).toBe("cup");
+    expect(flour.category).toBe("pantry");
+    expect(flour.recipes.map((recipe) => recipe.id)).toEqual([
+      "recipe-1",
+      "recipe-2",
+    ]);
+
+    const salt = items.find((item) => item.canonicalId === "salt")!;
+    expect(salt.quantity).toBe(1);
+    expect(salt.unit).toBe("pinch");
+
+    const pepper = items.find((item) => item.canonicalId === "black_pepper")!;
+    expect(pepper.quantity).toBeUndefined();
+  });
+
+  it("scales by planned servings", () => {
+    const { items } = aggregateGroceryItems([
+      { recipe: crepes, servings: 4 },
+    ]);
+
+    expect(items.find((item) => item.canonicalId === "egg")!.quantity).toBe(
+      4
+    );
+  });
+
+  it("subtracts inventory and reports fully covered items", () => {
+    const { items, coveredByInventory } = aggregateGroceryItems(
+      [{ recipe: pancakes, servings: null }],
+      [
+        { name: "Butter", canonicalId: "butter", quantity: 100, unit: "g" },
+        { name: "Milk", canonicalId: "milk", quantity: 0.5, unit: "cup" },
+        {
+          name: "Black pepper",
+          canonicalId: "black_pepper",
+          quantity: 1,
+          unit: "",
+        },
+      ]
+    );
+
+    // Butter is in grams on hand but tbsp in the recipe: not comparable
+    expect(items.find((item) => item.canonicalId === "butter")).toBeDefined();
+    expect(items.find((item) => item.canonicalId === "milk")!.quantity).toBe(
+      0.5
+    );
+    expect(coveredByInventory.map((item) => item.canonicalId)).toEqual([
+      "black_pepper",
+    ]);
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect } from "vitest";
+import {
+  estimateRecipeNutrition,
+  findNutrientProfile,
+  getMealNutritionTargets,
+  getNutritionDeviations,
+  getNutritionTargets,
+  meetsMealNutritionTargets,
+} from "../lib/nutrition-utils";
+
+describe("estimateRecipeNutrition", () => {
+  it("sums matched ingredients per serving and reports the rest", () => {
+    const nutrition = estimateRecipeNutrition(
+      [
+        { name: "Boneless skinless chicken breasts", qty: "400", unit: "g" },
+        { name: "Olive oil", qty: 2, unit: "tbsp" },
+        { name: "Dragon fruit", qty: 1 },
+        { name: "Salt", qty: "to taste" },
+      ],
+      2
+    );
+
+    // 400g chicken (480 kcal) + ~27g oil (~240 kcal), split over 2
+    expect(nutrition.perServing.protein).toBeCloseTo(45, 0);
+    expect(nutrition.perServing.calories).toBeGreaterThan(340);
+    expect(nutrition.perServing.calories).toBeLessThan(380);
+    expect(nutrition.unmatched).toEqual(["Dragon fruit"]);
+    expect(nutrition.coverage).toBeCloseTo(0.67, 2);
+  });
+
+  it("weighs plural units like cloves, slices and leaves", () => {
+    const nutrition = estimateRecipeNutrition(
+      [
+        { name: "garlic", qty: 3, unit: "cloves" },
+        { name: "bacon", qty: 4, unit: "slices" },
+        { name: "basil", qty: 6, unit: "leaves" },
+      ],
+      1
+    );
+
+    expect(nutrition.unmatched).toEqual([]);
+    expect(nutrition.coverage).toBe(1);
+  });
+});
+
+describe("findNutrientProfile", () => {
+  it("finds singular entries for plural names", () => {
+    for (const name of ["Limes", "Apples", "Pork sausages", "Egg noodles"]) {
+      expect(findNutrientProfile({ name })).not.toBeNull();
+    }
+  });
+});
+
+describe("getNutritionDeviations", () => {
+  it("treats calories as a band, protein as a floor and fat as a ceiling", () => {
+    const targets = getNutritionTargets([
+      { id: "1", goalType: "weight_loss", dailyCalories: 2000, dailyProtein: 150 },
+      { id: "2", goalType: "heart_health", dailyFat: 60 },
+    ]);
+
+    const deviations = getNutritionDeviations(
+      { calories: 2150, protein: 180, carbs: 300, fat: 75, fiber: 20 },
+      targets
+    );
+
+    expect(deviations).toEqual([
+      { nutrient: "fat", target: 60, actual: 75, difference: 15 },
+    ]);
+  });
+});
+
+describe("meetsMealNutritionTargets", () => {
+  it("holds dinners to their share of the daily targets", () => {
+    const targets = getMealNutritionTargets(
+      { calories: 2000, protein: 150, fat: 60 },
+      "dinner"
+    );
+    expect(targets).toEqual({ calories: 800, protein: 60 });
+
+    const recipe = (calories: number | null, protein: number | null) => ({
+      caloriesPerServing: calories,
+      proteinPerServing: protein,
+    });
+    expect(meetsMealNutritionTargets(recipe(750, 55), targets)).toBe(true);
+    expect(meetsMealNutritionTargets(recipe(1100, 70), targets)).toBe(false);
+    expect(meetsMealNutritionTargets(recipe(800, 30), targets)).toBe(false);
+    expect(meetsMealNutritionTargets(recipe(null, null), targets)).toBe(false);
+  });
+});
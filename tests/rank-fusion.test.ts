@@ -0,0 +1,23 @@
+import { describe, it, expect } from "vitest";
+import { fuseRankings } from "../lib/rank-fusion-utils";
+
+describe("fuseRankings", () => {
+  it("ranks items found by both lists above single-list hits", () => {
+    const keyword = [{ id: "a" }, { id: "b" }, { id: "c" }];
+    const semantic = [{ id: "d" }, { id: "c" }];
+
+    const fused = fuseRankings([keyword, semantic], 60);
+
+    expect(fused.map(({ item }) => item.id)).toEqual(["c", "a", "d", "b"]);
+    expect(fused[0].score).toBeCloseTo(1 / 63 + 1 / 62);
+    expect(fused[0].ranks).toEqual([3, 2]);
+  });
+
+  it("keeps single-list items with a null rank for the other list", () => {
+    const fused = fuseRankings([[{ id: "a" }], []], 60);
+
+    expect(fused).toEqual([
+      { item: { id: "a" }, score: 1 / 61, ranks: [1, null] },
+    ]);
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect } from "vitest";
+import { buildLineageTree, type LineageRow } from "../lib/recipe-fork-utils";
+
+function row(
+  overrides: Partial<LineageRow> & { id: string; forkedFromId: string | null }
+): LineageRow {
+  return {
+    forkedFromRevision: overrides.forkedFromId ? 1 : null,
+    userId: `user-${overrides.id}`,
+    title: `Recipe ${overrides.id}`,
+    createdAt: new Date("2026-10-01T00:00:00Z"),
+    ownerName: `Cook ${overrides.id}`,
+    slug: `recipe-${overrides.id}`,
+    isPublished: true,
+    ...overrides,
+  };
+}
+
+describe("buildLineageTree", () => {
+  const rows = [
+    row({ id: "root", forkedFromId: null }),
+    row({
+      id: "b",
+      forkedFromId: "root",
+      createdAt: new Date("2026-10-03T00:00:00Z"),
+    }),
+    row({
+      id: "a",
+      forkedFromId: "root",
+      createdAt: new Date("2026-10-02T00:00:00Z"),
+    }),
+    row({ id: "a1", forkedFromId: "a", isPublished: false }),
+  ];
+
+  it("nests forks oldest first and counts every descendant", () => {
+    const tree = buildLineageTree(rows, "root", () => true);
+
+    expect(tree?.forks.map((fork) => fork.id)).toEqual(["a", "b"]);
+    expect(tree?.remixCount).toBe(3);
+    expect(tree?.forks[0].remixCount).toBe(1);
+    expect(tree?.forks[0].forks[0].id).toBe("a1");
+  });
+
+  it("withholds details of recipes the viewer can't see", () => {
+    const tree = buildLineageTree(rows, "root", (r) => !!r.isPublished);
+    const hidden = tree?.forks[0].forks[0];
+
+    expect(hidden).toMatchObject({
+      id: "a1",
+      hidden: true,
+      title: null,
+      author: null,
+      slug: null,
+    });
+    expect(tree?.forks[0].hidden).toBe(false);
+  });
+
+  it("only links published recipes", () => {
+    const tree = buildLineageTree(rows, "root", () => true);
+    expect(tree?.forks[0].forks[0].slug).toBeNull();
+    expect(tree?.slug).toBe("recipe-root");
+  });
+
+  it("returns null when the root is missing", () => {
+    expect(buildLineageTree(rows, "missing", () => true)).toBeNull();
+  });
+});
@@ -0,0 +1,173 @@
+import { describe, it, expect } from "vitest";
+import {
+  diffRevisionContent,
+  type RecipeRevisionContent,
+} from "../lib/recipe-revision-diff-utils";
+
+function version(
+  overrides: Partial<RecipeRevisionContent> = {}
+): RecipeRevisionContent {
+  return {
+    title: "Pancakes",
+    servings: 4,
+    ingredients: [
+      { name: "Flour", qty: 200, unit: "g" },
+      { name: "Milk", qty: 300, unit: "ml" },
+      { name: "Egg", qty: 2 },
+    ],
+    steps: [
+      { order: 1, text: "Whisk everything together" },
+      { order: 2, text: "Fry in a hot pan" },
+    ],
+    ...overrides,
+  };
+}
+
+const revisions = { from: 1, to: 2 };
+
+describe("diffRevisionContent", () => {
+  it("reports nothing for identical versions", () => {
+    expect(diffRevisionContent(version(), version(), revisions)).toEqual({
+      from: 1,
+      to: 2,
+      ingredients: { added: [], removed: [], changed: [] },
+      steps: { added: [], removed: [], changed: [] },
+    });
+  });
+
+  it("reports title and servings changes", () => {
+    const diff = diffRevisionContent(
+      version(),
+      version({ title: "Crêpes", servings: null }),
+      revisions
+    );
+
+    expect(diff.title).toEqual({ from: "Pancakes", to: "Crêpes" });
+    expect(diff.servings).toEqual({ from: 4, to: null });
+  });
+
+  it("reports added, removed and changed ingredients", () => {
+    const diff = diffRevisionContent(
+      version(),
+      version({
+        ingredients: [
+          { name: "Flour", qty: 250, unit: "g" },
+          { name: "milk", qty: 300, unit: "ml" },
+          { name: "Sugar", qty: 1, unit: "tbsp" },
+        ],
+      }),
+      revisions
+    );
+
+    expect(diff.ingredients.added).toEqual([
+      { name: "Sugar", qty: 1, unit: "tbsp" },
+    ]);
+    expect(diff.ingredients.removed).toEqual([{ name: "Egg", qty: 2 }]);
+    expect(diff.ingredients.changed).toEqual([
+      {
+        from: { name: "Flour", qty: 200, unit: "g" },
+        to: { name: "Flour", qty: 250, unit: "g" },
+      },
+      {
+        from: { name: "Milk", qty: 300, unit: "ml" },
+        to: { name: "milk", qty: 300, unit: "ml" },
+      },
+    ]);
+  });
+
+  it("matches repeated ingredients by position", () => {
+    const before = version({
+      ingredients: [
+        { name: "Butter", qty: 50, unit: "g", notes: "for the batter" },
+        { name: "Butter", qty: 10, unit: "g", notes: "for the pan" },
+      ],
+    });
+
+    const changed = diffRevisionContent(
+      before,
+      version({
+        ingredients: [
+          { name: "Butter", qty: 50, unit: "g", notes: "for the batter" },
+          { name: "Butter", qty: 20, unit: "g", notes: "for the pan" },
+        ],
+      }),
+      revisions
+    );
+    expect(changed.ingredients).toEqual({
+      added: [],
+      removed: [],
+      changed: [
+        {
+          from: { name: "Butter", qty: 10, unit: "g", notes: "for the pan" },
+          to: { name: "Butter", qty: 20, unit: "g", notes: "for the pan" },
+        },
+      ],
+    });
+
+    const removed = diffRevisionContent(
+      before,
+      version({
+        ingredients: [
+          { name: "Butter", qty: 50, unit: "g", notes: "for the batter" },
+        ],
+      }),
+      revisions
+    );
+    expect(removed.ingredients.removed).toEqual([
+      { name: "Butter", qty: 10, unit: "g", notes: "for the pan" },
+    ]);
+    expect(removed.ingredients.changed).toEqual([]);
+
+    const added = diffRevisionContent(
+      version({ ingredients: [{ name: "Butter", qty: 50, unit: "g" }] }),
+      version({
+        ingredients: [
+          { name: "Butter", qty: 50, unit: "g" },
+          { name: "Butter", qty: 50, unit: "g" },
+        ],
+      }),
+      revisions
+    );
+    expect(added.ingredients.added).toEqual([
+      { name: "Butter", qty: 50, unit: "g" },
+    ]);
+  });
+
+  it("compares steps by position", () => {
+    const diff = diffRevisionContent(
+      version(),
+      version({
+        steps: [{ order: 1, text: "Whisk the eggs, then the rest" }],
+      }),
+      revisions
+    );
+
+    expect(diff.steps.changed).toEqual([
+      {
+        order: 1,
+        from: "Whisk everything together",
+        to: "Whisk the eggs, then the rest",
+      },
+    ]);
+    expect(diff.steps.removed).toEqual([
+      { order: 2, text: "Fry in a hot pan" },
+    ]);
+
+    const longer = diffRevisionContent(
+      version(),
+      version({
+        steps: [
+          { order: 1, text: "Whisk everything together" },
+          { order: 2, text: "Fry in a hot pan" },
+          { order: 3, text: "Serve with lemon" },
+        ],
+      }),
+      revisions
+    );
+    expect(longer.steps).toEqual({
+      added: [{ order: 3, text: "Serve with lemon" }],
+      removed: [],
+      changed: [],
+    });
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, it, expect } from "vitest";
+import { scaleRecipe } from "../lib/recipe-scaling-utils";
+
+const recipe = {
+  servings: 4,
+  ingredients: [
+    { name: "Butter", qty: 2, unit: "tbsp" },
+    { name: "Vanilla", qty: "1", unit: "tsp" },
+    { name: "Eggs", qty: 3 },
+    { name: "Flour", qty: "250", unit: "g" },
+    { name: "Chili flakes", qty: "1-2", unit: "tsp" },
+    { name: "Salt", qty: "to taste" },
+  ],
+  steps: [
+    { order: 1, text: "Melt 2 tbsp butter in a saucepan." },
+    { order: 2, text: "Pour into a 9x13 inch baking dish." },
+    { order: 3, text: "Bake for 25-30 minutes." },
+  ],
+};
+
+describe("scaleRecipe", () => {
+  it("scales, rounds and promotes units", () => {
+    const scaled = scaleRecipe(recipe, 12);
+
+    expect(scaled.factor).toBe(3);
+    const [butter, vanilla, eggs, flour, chili, salt] = scaled.ingredients;
+
+    // 6 tbsp reads better as 3/8 cup
+    expect(butter).toMatchObject({ qty: 0.375, unit: "cup", qtyText: "3/8" });
+    expect(vanilla).toMatchObject({ qty: 1, unit: "tbsp" });
+    expect(eggs).toMatchObject({ qty: 9, qtyText: "9" });
+    expect(flour).toMatchObject({ qty: 750, unit: "g" });
+    expect(chili).toMatchObject({ qty: "1-2", unit: "tbsp" });
+    expect(salt).toMatchObject({
+      qty: "to taste",
+      original: { qty: "to taste" },
+    });
+  });
+
+  it("rescales step amounts and flags pan sizes and times", () => {
+    const scaled = scaleRecipe(recipe, 2);
+
+    expect(scaled.steps[0].text).toBe("Melt 1 tbsp butter in a saucepan.");
+    expect(scaled.steps[0].flags).toEqual([]);
+    expect(scaled.steps[1].flags).toEqual(["pan_size"]);
+    expect(scaled.steps[2].flags).toEqual(["cook_time"]);
+  });
+
+  it("leaves everything as-is at the original size", () => {
+    const scaled = scaleRecipe(recipe, 4);
+
+    expect(scaled.steps.every((step) => step.flags.length === 0)).toBe(true);
+    expect(scaled.ingredients[3]).toMatchObject({ qty: 250, unit: "g" });
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildBackupCursor,
+  cursorFromSince,
+  decodeSyncCursor,
+  encodeSyncCursor,
+  getTombstonesAfter,
+} from "../lib/sync-delta-utils";
+
+const startedAt = new Date("2026-10-19T12:00:00Z");
+
+describe("sync cursors", () => {
+  it("round-trips and rejects garbage", () => {
+    const cursor = {
+      v: 4,
+      t: "2026-10-19T10:00:00.000Z",
+      id: "recipe-1",
+      d: "2026-10-19T11:00:00.000Z",
+      di: "tomb-1",
+    };
+
+    expect(decodeSyncCursor(encodeSyncCursor(cursor))).toEqual(cursor);
+    expect(() => decodeSyncCursor("not-a-cursor")).toThrow();
+    expect(() =>
+      decodeSyncCursor(encodeSyncCursor({ ...cursor, d: "yesterday" }))
+    ).toThrow();
+  });
+
+  it("starts a since cursor at the same time for recipes and tombstones", () => {
+    expect(cursorFromSince("2026-10-19T10:00:00Z")).toEqual({
+      t: "2026-10-19T10:00:00.000Z",
+      id: "",
+      d: "2026-10-19T10:00:00.000Z",
+    });
+    expect(() => cursorFromSince("soon")).toThrow();
+  });
+
+  it("points a backup cursor at the latest recipe, breaking ties by id", () => {
+    const updatedAt = new Date("2026-10-19T09:00:00Z");
+    const cursor = decodeSyncCursor(
+      buildBackupCursor(
+        7,
+        [
+          { id: "a", updatedAt: new Date("2026-10-18T09:00:00Z") },
+          { id: "c", updatedAt },
+          { id: "b", updatedAt },
+        ],
+        startedAt
+      )
+    );
+
+    expect(cursor).toEqual({
+      v: 7,
+      t: updatedAt.toISOString(),
+      id: "c",
+      d: startedAt.toISOString(),
+    });
+  });
+});
+
+describe("getTombstonesAfter", () => {
+  it("includes later tombstones from the cursor's own millisecond", () => {
+    const cursor = cursorFromSince(startedAt.toISOString());
+
+    expect(getTombstonesAfter({ ...cursor, di: "tomb-1" })).toEqual({
+      OR: [
+        { deletedAt: { gt: startedAt } },
+        { deletedAt: startedAt, id: { gt: "tomb-1" } },
+      ],
+    });
+  });
+
+  it("includes every tombstone at d when none has been seen there", () => {
+    const { OR } = getTombstonesAfter(cursorFromSince("2026-10-19T12:00:00Z"));
+
+    expect(OR[1]).toEqual({ deletedAt: startedAt, id: { gt: "" } });
+  });
+});
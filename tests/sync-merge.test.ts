@@ -0,0 +1,186 @@
+import { describe, it, expect } from "vitest";
+import { mergeSyncPayload, type SyncMeta } from "../lib/sync-utils";
+
+const milk = {
+  id: "inv-1",
+  name: "Milk",
+  location: "fridge",
+  quantity: 1,
+  unit: "l",
+  addedAt: "2025-01-01T00:00:00Z",
+};
+
+const eggs = {
+  id: "inv-2",
+  name: "Eggs",
+  location: "fridge",
+  quantity: 12,
+  unit: "count",
+  addedAt: "2025-01-01T00:00:00Z",
+};
+
+describe("mergeSyncPayload", () => {
+  it("lets an up-to-date device overwrite and stamps versions", () => {
+    const result = mergeSyncPayload({
+      current: { inventory: [milk, eggs] },
+      meta: null,
+      payload: { inventory: [{ ...milk, quantity: 2 }] as never },
+      baseVersion: 3,
+      nextVersion: 4,
+    });
+
+    expect(result.sections.inventory).toEqual([{ ...milk, quantity: 2 }]);
+    expect(result.conflicts).toEqual([]);
+    expect(result.meta.collections?.inventory?.["inv-1"].fields.quantity).toBe(
+      4
+    );
+    expect(result.meta.collections?.inventory?.["inv-2"].deletedAt).toBe(4);
+  });
+
+  it("merges concurrent edits to different fields of the same item", () => {
+    // Server changed the unit at version 5, device (based on 4) changed quantity
+    const meta: SyncMeta = {
+      collections: {
+        inventory: {
+          "inv-1": { createdAt: 1, fields: { unit: 5, quantity: 1 } },
+        },
+      },
+    };
+
+    const result = mergeSyncPayload({
+      current: { inventory: [{ ...milk, unit: "ml" }] },
+      meta,
+      payload: { inventory: [{ ...milk, quantity: 3 }] as never },
+      baseVersion: 4,
+      nextVersion: 6,
+    });
+
+    expect(result.sections.inventory).toEqual([
+      { ...milk, unit: "ml", quantity: 3 },
+    ]);
+    // The device's stale unit is discarded and reported
+    expect(result.conflicts).toEqual([
+      {
+        section: "inventory",
+        itemId: "inv-1",
+        field: "unit",
+        resolution: "server",
+      },
+    ]);
+  });
+
+  it("keeps the server value when both sides changed the same field", () => {
+    const meta: SyncMeta = {
+      collections: {
+        inventory: { "inv-1": { createdAt: 1, fields: { quantity: 5 } } },
+      },
+    };
+
+    const result = mergeSyncPayload({
+      current: { inventory: [{ ...milk, quantity: 4 }] },
+      meta,
+      payload: { inventory: [{ ...milk, quantity: 3 }] as never },
+      baseVersion: 4,
+      nextVersion: 6,
+    });
+
+    expect(result.sections.inventory).toEqual([{ ...milk, quantity: 4 }]);
+    expect(result.conflicts).toEqual([
+      {
+        section: "inventory",
+        itemId: "inv-1",
+        field: "quantity",
+        resolution: "server",
+      },
+    ]);
+  });
+
+  it("keeps items added on the server that a stale device has not seen", () => {
+    const meta: SyncMeta = {
+      collections: {
+        inventory: {
+          "inv-1": { createdAt: 1, fields: {} },
+          "inv-2": { createdAt: 5, fields: {} },
+        },
+      },
+    };
+
+    const result = mergeSyncPayload({
+      current: { inventory: [milk, eggs] },
+      meta,
+      payload: { inventory: [milk] as never },
+      baseVersion: 4,
+      nextVersion: 6,
+    });
+
+    expect(result.sections.inventory).toEqual([milk, eggs]);
+    expect(result.conflicts).toEqual([]);
+  });
+
+  it("does not resurrect items deleted on the server after the base", () => {
+    const meta: SyncMeta = {
+      collections: {
+        inventory: { "inv-2": { fields: {}, deletedAt: 5 } },
+      },
+    };
+
+    const result = mergeSyncPayload({
+      current: { inventory: [milk] },
+      meta,
+      payload: { inventory: [milk, eggs] as never },
+      baseVersion: 4,
+      nextVersion: 6,
+    });
+
+    expect(result.sections.inventory).toEqual([milk]);
+    expect(result.conflicts).toEqual([
+      { section: "inventory", itemId: "inv-2", resolution: "deleted" },
+    ]);
+  });
+
+  it("combines concurrent achievement progress", () => {
+    const achievement = {
+      id: "first-cook",
+      name: "First cook",
+      description: "Cook a recipe",
+      icon: "🍳",
+      category: "COOKING",
+      progress: 2,
+      target: 5,
+    };
+    const meta: SyncMeta = {
+      collections: {
+        achievements: {
+          "first-cook": { createdAt: 1, fields: { progress: 5 } },
+        },
+      },
+    };
+
+    const result = mergeSyncPayload({
+      current: { achievements: { "first-cook": { ...achievement, progress: 3 } } },
+      meta,
+      payload: {
+        achievements: { "first-cook": { ...achievement, progress: 4 } } as never,
+      },
+      baseVersion: 4,
+      nextVersion: 6,
+    });
+
+    expect(result.sections.achievements).toEqual({
+      "first-cook": { ...achievement, progress: 4 },
+    });
+    expect(result.conflicts[0].resolution).toBe("merged");
+  });
+
+  it("leaves sections the device did not send untouched", () => {
+    const result = mergeSyncPayload({
+      current: { inventory: [milk], groceryList: [] },
+      meta: null,
+      payload: { groceryList: [] },
+      baseVersion: 1,
+      nextVersion: 2,
+    });
+
+    expect(result.sections).toEqual({ groceryList: [] });
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, it, expect } from "vitest";
+import { Prisma, type TokenTransaction } from "@prisma/client";
+import {
+  getAiChargeKey,
+  getOpeningBalance,
+  getTransferEntries,
+  isIdempotencyConflict,
+  replayTransaction,
+} from "../lib/token-ledger-utils";
+
+const charge: TokenTransaction = {
+  id: "tx-1",
+  userId: "user-1",
+  amount: -5,
+  type: "ai_request",
+  description: "Unlocked an extra chat request",
+  relatedId: "chat",
+  idempotencyKey: "ai:req-1",
+  balanceAfter: 15,
+  createdAt: new Date("2026-10-19T12:00:00Z"),
+};
+
+function knownError(code: string) {
+  return new Prisma.PrismaClientKnownRequestError("Unique constraint", {
+    code,
+    clientVersion: "6.0.0",
+  });
+}
+
+describe("idempotency keys", () => {
+  it("treats a unique violation on a keyed write as a lost race", () => {
+    expect(isIdempotencyConflict(knownError("P2002"), "ai:req-1")).toBe(true);
+    expect(isIdempotencyConflict(knownError("P2002"), undefined)).toBe(false);
+    expect(isIdempotencyConflict(knownError("P2025"), "ai:req-1")).toBe(false);
+    expect(isIdempotencyConflict(new Error("boom"), "ai:req-1")).toBe(false);
+  });
+
+  it("replays the winner's transaction and balance", () => {
+    expect(replayTransaction(charge)).toEqual({
+      ok: true,
+      transaction: charge,
+      balance: 15,
+      replayed: true,
+    });
+  });
+});
+
+describe("getAiChargeKey", () => {
+  it("reuses the key until the charge is refunded", () => {
+    expect(getAiChargeKey("req-1", new Set())).toBe("ai:req-1");
+    expect(getAiChargeKey("req-1", new Set(["ai:req-1"]))).toBe("ai:req-1#1");
+    expect(getAiChargeKey("req-1", new Set(["ai:req-1", "ai:req-1#1"]))).toBe(
+      "ai:req-1#2"
+    );
+  });
+
+  it("gives up after ten refunded attempts", () => {
+    const refunded = new Set([
+      "ai:req-1",
+      ...Array.from({ length: 9 }, (_, i) => `ai:req-1#${i + 1}`),
+    ]);
+
+    expect(getAiChargeKey("req-1", refunded)).toBeNull();
+  });
+});
+
+describe("getTransferEntries", () => {
+  it("debits and credits the same amount under keys naming the other side", () => {
+    const { debit, credit } = getTransferEntries("guest-1", "user-1", 40);
+
+    expect(debit).toMatchObject({
+      amount: -40,
+      type: "transfer",
+      relatedId: "user-1",
+      idempotencyKey: "transfer-out:user-1",
+    });
+    expect(credit).toMatchObject({
+      amount: 40,
+      type: "transfer",
+      relatedId: "guest-1",
+      idempotencyKey: "transfer-in:guest-1",
+    });
+
+    // A second guest merging into the same account isn't a replay
+    const second = getTransferEntries("guest-2", "user-1", 10);
+    expect(second.credit.idempotencyKey).not.toBe(credit.idempotencyKey);
+  });
+});
+
+describe("getOpeningBalance", () => {
+  it("reads objects and JSON strings", () => {
+    const state = { balance: 25, lifetimeEarned: 40, lifetimeSpent: 15 };
+
+    expect(getOpeningBalance(state)).toEqual(state);
+    expect(getOpeningBalance(JSON.stringify(state))).toEqual(state);
+  });
+
+  it("counts negative and non-numeric amounts as zero", () => {
+    expect(
+      getOpeningBalance({
+        balance: -3,
+        lifetimeEarned: "12.6",
+        lifetimeSpent: "lots",
+      })
+    ).toEqual({ balance: 0, lifetimeEarned: 13, lifetimeSpent: 0 });
+    expect(getOpeningBalance(null)).toBeNull();
+    expect(getOpeningBalance("7")).toBeNull();
+    expect(getOpeningBalance([1, 2])).toBeNull();
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, it, expect } from "vitest";
+import {
+  convertQuantity,
+  normalizeIngredientQuantity,
+  normalizeUnit,
+  parseQuantityText,
+} from "../lib/unit-utils";
+
+describe("parseQuantityText", () => {
+  it("parses fractions, mixed numbers and unicode fractions", () => {
+    expect(parseQuantityText("1/2")).toEqual({ quantity: 0.5 });
+    expect(parseQuantityText("1 1/2 cups")).toEqual({
+      quantity: 1.5,
+      unitText: "cups",
+    });
+    expect(parseQuantityText("1½")).toEqual({ quantity: 1.5 });
+    expect(parseQuantityText("¾ cup")).toEqual({
+      quantity: 0.75,
+      unitText: "cup",
+    });
+    expect(parseQuantityText("1-1/2")).toEqual({ quantity: 1.5 });
+  });
+
+  it("parses ranges and number words", () => {
+    expect(parseQuantityText("2-3")).toEqual({ quantity: 2, quantityMax: 3 });
+    expect(parseQuantityText("2 to 3 tbsp")).toEqual({
+      quantity: 2,
+      quantityMax: 3,
+      unitText: "tbsp",
+    });
+    expect(parseQuantityText("a dozen")).toEqual({ quantity: 12 });
+    expect(parseQuantityText("half a cup")).toEqual({
+      quantity: 0.5,
+      unitText: "cup",
+    });
+  });
+
+  it("returns null when there is no amount", () => {
+    expect(parseQuantityText("to taste")).toBeNull();
+    expect(parseQuantityText("")).toBeNull();
+  });
+});
+
+describe("normalizeUnit", () => {
+  it("maps aliases and plurals onto canonical units", () => {
+    expect(normalizeUnit("Tablespoons")).toBe("tbsp");
+    expect(normalizeUnit("T")).toBe("tbsp");
+    expect(normalizeUnit("t")).toBe("tsp");
+    expect(normalizeUnit("ounces")).toBe("oz");
+    expect(normalizeUnit("lbs.")).toBe("lb");
+    expect(normalizeUnit("cloves")).toBe("cloves");
+  });
+});
+
+describe("convertQuantity", () => {
+  it("converts within a family", () => {
+    expect(convertQuantity(3, "tsp", "tbsp")).toBeCloseTo(1);
+    expect(convertQuantity(1, "lb", "oz")).toBeCloseTo(16);
+  });
+
+  it("converts volume to mass only with a density hint", () => {
+    expect(
+      convertQuantity(1, "cup", "g", { name: "All-purpose flour" })
+    ).toBeCloseTo(125.4, 0);
+    expect(convertQuantity(1, "cup", "g", { name: "Basil" })).toBeNull();
+  });
+});
+
+describe("normalizeIngredientQuantity", () => {
+  it("keeps the original text and adds normalized values", () => {
+    expect(
+      normalizeIngredientQuantity({
+        name: "Sugar",
+        canonicalId: "sugar",
+        qty: "1 1/2",
+        unit: "cups",
+      })
+    ).toEqual({
+      quantity: 1.5,
+      unit: "cup",
+      family: "volume",
+      baseQuantity: 354.882,
+      grams: 301.65,
+    });
+  });
+});